@@ -8,6 +8,10 @@ import Dashboard from "@/pages/dashboard";
 import Analysis from "@/pages/analysis";
 import Titles from "@/pages/titles";
 import HistoricalTrends from "@/pages/historical-trends";
+import Diff from "@/pages/diff";
+import Citations from "@/pages/citations";
+import Section from "@/pages/section";
+import Job from "@/pages/job";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -17,6 +21,10 @@ function Router() {
       <Route path="/analysis" component={Analysis} />
       <Route path="/titles" component={Titles} />
       <Route path="/historical-trends" component={HistoricalTrends} />
+      <Route path="/diff" component={Diff} />
+      <Route path="/citations" component={Citations} />
+      <Route path="/section/:title/:identifier" component={Section} />
+      <Route path="/jobs/:id" component={Job} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -0,0 +1,222 @@
+import { Fragment, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronDown, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { Column } from "@/components/data-table";
+import type { AgencyAnalysis } from "@shared/schema";
+
+interface AgencyTreeTableProps {
+  // Columns after the agency name
+  columns: Column<AgencyAnalysis>[];
+  data: AgencyAnalysis[];
+  testId?: string;
+}
+
+interface AgencyTreeNode {
+  agency: AgencyAnalysis;
+  children: AgencyTreeNode[];
+}
+
+// Departments at the top level, sub-agencies below them. An agency whose parent is not in the
+// list is shown at the top level
+function buildTree(data: AgencyAnalysis[]): AgencyTreeNode[] {
+  const nodes = new Map(data.map(agency => [agency.slug, { agency, children: [] as AgencyTreeNode[] }]));
+  const roots: AgencyTreeNode[] = [];
+  for (const node of Array.from(nodes.values())) {
+    const parent = node.agency.parentSlug ? nodes.get(node.agency.parentSlug) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+function slugify(header: string): string {
+  return header.toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Agency table with departments that expand into their sub-agencies. Metrics of a department
+ * include its sub-agencies; sorting applies among siblings
+ */
+export function AgencyTreeTable({ columns, data, testId }: AgencyTreeTableProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [sortColumn, setSortColumn] = useState<string | null>(null);
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+
+  const tree = buildTree(data);
+  const expandable = data.filter(agency => agency.childCount > 0).map(agency => agency.slug);
+
+  const handleSort = (columnHeader: string) => {
+    if (sortColumn === columnHeader) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(columnHeader);
+      setSortDirection('asc');
+    }
+  };
+
+  const toggle = (slug: string) => {
+    const next = new Set(expanded);
+    if (next.has(slug)) {
+      next.delete(slug);
+    } else {
+      next.add(slug);
+    }
+    setExpanded(next);
+  };
+
+  const sortNodes = (nodes: AgencyTreeNode[]): AgencyTreeNode[] => {
+    if (!sortColumn) return nodes;
+    const accessor = sortColumn === 'Agency'
+      ? 'agency'
+      : columns.find(col => col.header === sortColumn)?.accessor;
+    if (!accessor || typeof accessor === 'function') return nodes;
+
+    return [...nodes].sort((a, b) => {
+      const aValue = a.agency[accessor];
+      const bValue = b.agency[accessor];
+      if (typeof aValue === 'number' && typeof bValue === 'number') {
+        return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
+      }
+      return sortDirection === 'asc'
+        ? String(aValue).localeCompare(String(bValue))
+        : String(bValue).localeCompare(String(aValue));
+    });
+  };
+
+  const sortIcon = (header: string) =>
+    sortColumn === header ? (
+      sortDirection === 'asc' ? <ArrowUp className="ml-2 h-4 w-4" /> : <ArrowDown className="ml-2 h-4 w-4" />
+    ) : (
+      <ArrowUpDown className="ml-2 h-4 w-4 opacity-50" />
+    );
+
+  const renderRows = (nodes: AgencyTreeNode[], depth: number): React.ReactNode =>
+    sortNodes(nodes).map(({ agency, children }) => {
+      const isExpanded = expanded.has(agency.slug);
+      return (
+        <Fragment key={agency.slug}>
+          <TableRow data-testid={`row-agency-${agency.slug}`}>
+            <TableCell>
+              <div className="flex items-center gap-1" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                {children.length > 0 ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => toggle(agency.slug)}
+                    aria-label={isExpanded ? `Collapse ${agency.agency}` : `Expand ${agency.agency}`}
+                    data-testid={`button-expand-${agency.slug}`}
+                  >
+                    {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </Button>
+                ) : (
+                  <span className="w-6" />
+                )}
+                <span className={depth === 0 ? 'font-medium' : ''}>{agency.agency}</span>
+                {children.length > 0 && (
+                  <span className="text-xs text-muted-foreground ml-1">({children.length})</span>
+                )}
+              </div>
+            </TableCell>
+            {columns.map((column, colIndex) => (
+              <TableCell
+                key={colIndex}
+                className={column.mono ? 'font-mono text-sm' : ''}
+                data-testid={`cell-${slugify(column.header)}-${agency.slug}`}
+              >
+                {typeof column.accessor === 'function'
+                  ? column.accessor(agency)
+                  : String(agency[column.accessor] ?? '')}
+              </TableCell>
+            ))}
+          </TableRow>
+          {isExpanded && renderRows(children, depth + 1)}
+        </Fragment>
+      );
+    });
+
+  return (
+    <div className="space-y-2">
+      {expandable.length > 0 && (
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setExpanded(new Set(expandable))}
+            data-testid="button-expand-all"
+          >
+            Expand all
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setExpanded(new Set())}
+            data-testid="button-collapse-all"
+          >
+            Collapse all
+          </Button>
+        </div>
+      )}
+      <div className="rounded-md border" data-testid={testId}>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 -ml-2"
+                  onClick={() => handleSort('Agency')}
+                  data-testid="button-sort-agency"
+                >
+                  Agency
+                  {sortIcon('Agency')}
+                </Button>
+              </TableHead>
+              {columns.map((column, index) => (
+                <TableHead key={index} className={column.mono ? 'font-mono' : ''}>
+                  {column.sortable && typeof column.accessor !== 'function' ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 px-2 -ml-2"
+                      onClick={() => handleSort(column.header)}
+                      data-testid={`button-sort-${slugify(column.header)}`}
+                    >
+                      {column.header}
+                      {sortIcon(column.header)}
+                    </Button>
+                  ) : (
+                    column.header
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tree.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columns.length + 1} className="text-center py-12 text-muted-foreground">
+                  No data available
+                </TableCell>
+              </TableRow>
+            ) : (
+              renderRows(tree, 0)
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
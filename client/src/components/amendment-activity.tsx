@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DataTable } from "@/components/data-table";
+import { MetricCard } from "@/components/metric-card";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { CalendarClock, GitCommit } from "lucide-react";
+import type { AmendmentSummary, PartVolatility } from "@shared/schema";
+
+const ALL_AGENCIES = '__all__';
+
+interface AmendmentActivityProps {
+  agencies: string[];
+}
+
+/**
+ * Amendment events per year, time since the last change and the most amended parts of the CFR
+ * or of one agency
+ */
+export function AmendmentActivity({ agencies }: AmendmentActivityProps) {
+  const [agency, setAgency] = useState(ALL_AGENCIES);
+
+  const { data: summary, isLoading } = useQuery<AmendmentSummary>({
+    queryKey: agency === ALL_AGENCIES
+      ? ['/api/amendments']
+      : ['/api/amendments/agency', encodeURIComponent(agency)],
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold">Amendment Activity</h2>
+          <p className="text-sm text-muted-foreground">
+            An amendment event is a date on which any section of a part changed (eCFR versions API)
+          </p>
+        </div>
+        <Select value={agency} onValueChange={setAgency}>
+          <SelectTrigger className="md:w-80" data-testid="select-amendment-agency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_AGENCIES}>All agencies</SelectItem>
+            {agencies.map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <TableSkeleton rows={10} />
+      ) : !summary || summary.amendmentCount === 0 ? (
+        <Card className="p-6 text-sm text-muted-foreground" data-testid="text-no-amendments">
+          No amendment history yet. It is downloaded by the next data refresh.
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <MetricCard
+              title="Amendment Events"
+              value={summary.amendmentCount.toLocaleString()}
+              icon={GitCommit}
+              color="border-t-chart-1"
+            />
+            <MetricCard
+              title="Days Since Last Change"
+              value={summary.daysSinceLastChange?.toLocaleString() ?? '—'}
+              icon={CalendarClock}
+              color="border-t-chart-2"
+            />
+          </div>
+
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-4">Amendments per Year</h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={summary.perYear}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="year" className="text-xs" />
+                <YAxis className="text-xs" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '6px',
+                  }}
+                />
+                <Bar dataKey="count" name="Amendment events" fill="hsl(var(--chart-1))" />
+              </BarChart>
+            </ResponsiveContainer>
+          </Card>
+
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-4">Most Volatile Parts</h3>
+            <DataTable<PartVolatility>
+              testId="table-volatile-parts"
+              data={summary.volatileParts}
+              columns={[
+                { header: 'Title', accessor: 'titleNumber', sortable: true, mono: true },
+                { header: 'Part', accessor: 'part', mono: true },
+                { header: 'Heading', accessor: (row) => row.heading || '' },
+                { header: 'Agency', accessor: (row) => row.agency || '' },
+                { header: 'Amendments', accessor: 'amendmentCount', sortable: true, mono: true },
+                { header: 'Last Changed', accessor: 'lastAmendedOn', sortable: true, mono: true },
+                { header: 'Days Since', accessor: 'daysSinceLastChange', sortable: true, mono: true },
+              ]}
+            />
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { format } from "date-fns";
+import { Unlink } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartCard } from "@/components/chart-card";
+import { DataTable } from "@/components/data-table";
+import { ExportButtons } from "@/components/export-buttons";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import type { BrokenCitation, BrokenCitationReport, Snapshot } from "@shared/schema";
+
+// Select value of citing nodes no agency is responsible for
+const NO_AGENCY = '__none__';
+
+function groupKey(agency: string | null): string {
+  return agency ?? NO_AGENCY;
+}
+
+/**
+ * Data-quality report of the current snapshot: citations of sections that do not exist or are
+ * "[Reserved]", by agency, with the count recorded for each earlier snapshot
+ */
+export function BrokenCitations() {
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const { data: report, isLoading } = useQuery<BrokenCitationReport>({
+    queryKey: ['/api/citations/broken'],
+  });
+  const { data: snapshots } = useQuery<Snapshot[]>({
+    queryKey: ['/api/snapshots'],
+  });
+
+  const history = (snapshots ?? [])
+    .filter(snapshot => snapshot.status === 'complete' && snapshot.brokenCitationCount !== null)
+    .reverse()
+    .map(snapshot => ({
+      date: format(new Date(snapshot.completedAt ?? snapshot.createdAt), 'yyyy-MM-dd'),
+      brokenCitationCount: snapshot.brokenCitationCount,
+    }));
+
+  const group = report?.agencies.find(candidate => groupKey(candidate.agency) === selected) ?? report?.agencies[0];
+
+  // Exports every broken citation of the snapshot, not only the selected agency
+  const handleExport = (exportFormat: 'csv' | 'json') => {
+    const link = document.createElement('a');
+    link.href = `/api/citations/broken/export?format=${exportFormat}`;
+    link.click();
+  };
+
+  return (
+    <ChartCard
+      title="Broken Cross-References"
+      description="Citations of CFR sections that no longer exist or are reserved, by agency of the citing section"
+      icon={Unlink}
+      action={
+        <ExportButtons
+          onExportCSV={() => handleExport('csv')}
+          onExportJSON={() => handleExport('json')}
+          disabled={!report || report.agencies.length === 0}
+        />
+      }
+    >
+      {isLoading ? (
+        <TableSkeleton rows={5} />
+      ) : !report || report.agencies.length === 0 ? (
+        <p className="text-sm text-muted-foreground" data-testid="text-no-broken-citations">
+          No broken cross-references in the current data.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <div className="flex flex-col md:flex-row md:items-center gap-4">
+            <div className="flex gap-2">
+              <Badge variant="destructive" data-testid="badge-missing-citations">
+                {report.missingCount.toLocaleString()} missing
+              </Badge>
+              <Badge variant="secondary" data-testid="badge-reserved-citations">
+                {report.reservedCount.toLocaleString()} reserved
+              </Badge>
+            </div>
+            <Select value={groupKey(group!.agency)} onValueChange={setSelected}>
+              <SelectTrigger className="md:ml-auto md:w-96" data-testid="select-broken-agency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {report.agencies.map(candidate => (
+                  <SelectItem key={groupKey(candidate.agency)} value={groupKey(candidate.agency)}>
+                    {candidate.agency ?? 'No agency'} ({candidate.missingCount + candidate.reservedCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DataTable<BrokenCitation>
+            testId="table-broken-citations"
+            data={group!.citations}
+            columns={[
+              {
+                header: 'Citing',
+                accessor: (citation) => citation.sourceType === 'section' ? (
+                  <Link
+                    href={`/section/${citation.titleNumber}/${encodeURIComponent(citation.sourceIdentifier)}`}
+                    className="font-mono text-primary hover:underline"
+                  >
+                    {citation.titleNumber} CFR {citation.sourceIdentifier}
+                  </Link>
+                ) : (
+                  <span className="font-mono">{citation.titleNumber} CFR {citation.sourceType} {citation.sourceIdentifier}</span>
+                ),
+              },
+              { header: 'Cited Section', accessor: 'targetLabel', sortable: true, mono: true },
+              {
+                header: 'Reason',
+                accessor: (citation) => (
+                  <Badge variant={citation.reason === 'missing' ? 'destructive' : 'secondary'}>{citation.reason}</Badge>
+                ),
+              },
+              { header: 'Count', accessor: 'count', sortable: true, mono: true },
+            ]}
+          />
+
+          {history.length > 1 && (
+            <Card className="p-4">
+              <h4 className="text-sm font-semibold mb-4">Broken Citations per Snapshot</h4>
+              <ResponsiveContainer width="100%" height={200}>
+                <LineChart data={history}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.2} />
+                  <XAxis dataKey="date" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
+                  <YAxis tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} allowDecimals={false} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--popover))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: '6px',
+                    }}
+                  />
+                  <Line type="monotone" dataKey="brokenCitationCount" name="Broken citations" stroke="hsl(var(--chart-4))" strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </Card>
+          )}
+        </div>
+      )}
+    </ChartCard>
+  );
+}
@@ -0,0 +1,163 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { DataTable } from "@/components/data-table";
+import { ChartCard } from "@/components/chart-card";
+import { ChartSkeleton } from "@/components/loading-skeleton";
+import { Brain, Hash } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import type { HistoricalCfrReport, TitleGrowth } from "@shared/schema";
+
+const RUNNING_BACKFILL_STATUSES = ['pending', 'running'];
+// A backfill takes hours; its totals are refreshed at this pace while it runs
+const BACKFILL_POLL_INTERVAL_MS = 10000;
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'hsl(var(--background))',
+  border: '1px solid hsl(var(--border))',
+  borderRadius: '6px',
+};
+
+function formatNumber(num: number): string {
+  if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
+  if (num >= 1000) return `${(num / 1000).toFixed(0)}K`;
+  return num.toString();
+}
+
+/**
+ * Size and complexity of the whole CFR per year and titles ranked by growth, from the
+ * latest admin-triggered backfill
+ */
+export function CfrHistory() {
+  const { data: report, isLoading } = useQuery<HistoricalCfrReport>({
+    queryKey: ['/api/historical/cfr'],
+    refetchInterval: (query) => {
+      const status = query.state.data?.backfill?.status;
+      return status && RUNNING_BACKFILL_STATUSES.includes(status) ? BACKFILL_POLL_INTERVAL_MS : false;
+    },
+  });
+
+  if (isLoading) {
+    return <ChartSkeleton />;
+  }
+
+  const backfill = report?.backfill;
+  if (!report || !backfill) {
+    return (
+      <Card className="p-6 text-sm text-muted-foreground" data-testid="text-no-backfill">
+        No CFR-wide history yet. An administrator can start a backfill of every title with{' '}
+        <code className="font-mono">POST /api/historical/backfill</code>.
+      </Card>
+    );
+  }
+
+  const isRunning = RUNNING_BACKFILL_STATUSES.includes(backfill.status);
+
+  return (
+    <div className="space-y-6">
+      {isRunning && (
+        <Card className="p-6 space-y-2" data-testid="progress-backfill">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-muted-foreground">
+              {backfill.currentTitle
+                ? `Backfilling Title ${backfill.currentTitle} (${backfill.currentDate})...`
+                : 'Backfill starting...'}
+            </span>
+            <span className="font-medium">
+              {backfill.progressCurrent} / {backfill.progressTotal}
+            </span>
+          </div>
+          <Progress
+            value={backfill.progressTotal > 0 ? (backfill.progressCurrent / backfill.progressTotal) * 100 : 0}
+            className="h-2"
+          />
+        </Card>
+      )}
+      {!isRunning && (backfill.status !== 'succeeded' || backfill.failedCount > 0) && (
+        <p className="text-sm text-muted-foreground" data-testid="text-backfill-status">
+          Last backfill {backfill.status}
+          {backfill.failedCount > 0 ? `, ${backfill.failedCount} title/date pairs could not be fetched` : ''}
+          {backfill.errorMessage ? ` (${backfill.errorMessage})` : ''}.
+        </p>
+      )}
+
+      {report.totals.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ChartCard
+            title="Total CFR Word Count"
+            description="Words across all backfilled titles"
+            icon={Hash}
+          >
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={report.totals}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="year" className="text-xs" />
+                <YAxis className="text-xs" tickFormatter={formatNumber} />
+                <Tooltip
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value: number) => value.toLocaleString()}
+                />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="wordCount"
+                  stroke="hsl(var(--chart-1))"
+                  strokeWidth={2}
+                  name="Word Count"
+                  dot={{ fill: 'hsl(var(--chart-1))' }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard
+            title="CFR Complexity"
+            description="Word-weighted average RCI across titles"
+            icon={Brain}
+          >
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={report.totals}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="year" className="text-xs" />
+                <YAxis className="text-xs" />
+                <Tooltip
+                  contentStyle={TOOLTIP_STYLE}
+                  formatter={(value: number) => value.toFixed(2)}
+                />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="rci"
+                  stroke="hsl(var(--chart-2))"
+                  strokeWidth={2}
+                  name="RCI"
+                  dot={{ fill: 'hsl(var(--chart-2))' }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartCard>
+        </div>
+      )}
+
+      {report.growth.length > 0 && (
+        <Card className="p-6">
+          <h3 className="text-lg font-semibold mb-4">Titles by Growth</h3>
+          <DataTable<TitleGrowth>
+            testId="table-title-growth"
+            data={report.growth}
+            columns={[
+              { header: 'Title', accessor: 'titleNumber', sortable: true, mono: true },
+              { header: 'Name', accessor: 'titleName', sortable: true },
+              { header: 'From', accessor: 'fromDate', mono: true },
+              { header: 'To', accessor: 'toDate', mono: true },
+              { header: 'Words Then', accessor: (row) => row.fromWordCount.toLocaleString(), mono: true },
+              { header: 'Words Now', accessor: (row) => row.toWordCount.toLocaleString(), mono: true },
+              { header: 'Growth %', accessor: 'growthPercent', sortable: true, mono: true },
+              { header: 'RCI Change', accessor: (row) => row.rciChange.toFixed(2), mono: true },
+            ]}
+          />
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -5,20 +5,25 @@ interface ChartCardProps {
   title: string;
   description?: string;
   icon?: LucideIcon;
+  // Control shown next to the title, e.g. a series selector
+  action?: React.ReactNode;
   children: React.ReactNode;
 }
 
-export function ChartCard({ title, description, icon: Icon, children }: ChartCardProps) {
+export function ChartCard({ title, description, icon: Icon, action, children }: ChartCardProps) {
   return (
     <Card className="p-6">
-      <div className="mb-6">
-        <div className="flex items-center gap-2 mb-1">
-          {Icon && <Icon className="h-5 w-5 text-muted-foreground" />}
-          <h3 className="text-lg font-semibold">{title}</h3>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            {Icon && <Icon className="h-5 w-5 text-muted-foreground" />}
+            <h3 className="text-lg font-semibold">{title}</h3>
+          </div>
+          {description && (
+            <p className="text-sm text-muted-foreground">{description}</p>
+          )}
         </div>
-        {description && (
-          <p className="text-sm text-muted-foreground">{description}</p>
-        )}
+        {action}
       </div>
       <div className="w-full">
         {children}
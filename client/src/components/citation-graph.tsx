@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { createForceLayout, type ForceLayout } from "@/lib/force-layout";
+import type { CitationGraph, CitationGraphNode } from "@shared/schema";
+
+const WIDTH = 960;
+const HEIGHT = 640;
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 5;
+// Clusters named in the legend; the others are still coloured
+const LEGEND_CLUSTERS = 8;
+
+const CHART_COLORS = [1, 2, 3, 4, 5].map(index => `hsl(var(--chart-${index}))`);
+
+// The chart palette first, then hues spread by the golden angle
+function clusterColor(index: number): string {
+  return index < CHART_COLORS.length ? CHART_COLORS[index] : `hsl(${(index * 137.5) % 360} 60% 50%)`;
+}
+
+function nodeRadius(node: CitationGraphNode): number {
+  return Math.min(4 + Math.sqrt(node.inboundCount), 18);
+}
+
+interface Transform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+type PointerAction =
+  | { type: 'drag'; id: string; moved: boolean }
+  | { type: 'pan'; startX: number; startY: number; origin: Transform };
+
+interface CitationGraphViewProps {
+  graph: CitationGraph;
+  onNodeClick: (node: CitationGraphNode) => void;
+}
+
+/**
+ * Citation graph drawn as SVG: node size follows the citations a node receives, edge width
+ * their weight, colour the cluster. Scroll to zoom, drag the background to pan, drag a node
+ * to move it; hovering a node highlights its cross-references
+ */
+export function CitationGraphView({ graph, onNodeClick }: CitationGraphViewProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const layoutRef = useRef<ForceLayout | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const pointerRef = useRef<PointerAction | null>(null);
+  const [, setFrame] = useState(0);
+  const [transform, setTransform] = useState<Transform>({ x: 0, y: 0, k: 1 });
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const nodesById = useMemo(() => new Map(graph.nodes.map(node => [node.id, node])), [graph]);
+  const colors = useMemo(() => {
+    const clusters = Array.from(new Set(graph.nodes.map(node => node.cluster)));
+    return new Map(clusters.map((cluster, index) => [cluster, clusterColor(index)]));
+  }, [graph]);
+  const maxWeight = useMemo(() => Math.max(1, ...graph.edges.map(edge => edge.weight)), [graph]);
+
+  const animate = () => {
+    if (frameRef.current !== null) return;
+    const step = () => {
+      const running = layoutRef.current?.tick() ?? false;
+      setFrame(frame => frame + 1);
+      frameRef.current = running ? requestAnimationFrame(step) : null;
+    };
+    frameRef.current = requestAnimationFrame(step);
+  };
+
+  useEffect(() => {
+    layoutRef.current = createForceLayout(graph.nodes, graph.edges, WIDTH, HEIGHT);
+    setTransform({ x: 0, y: 0, k: 1 });
+    animate();
+    return () => {
+      if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    };
+  }, [graph]);
+
+  // Position of a pointer event in SVG coordinates
+  const toSvgPoint = (clientX: number, clientY: number) => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    return point.matrixTransform(svg.getScreenCTM()!.inverse());
+  };
+
+  // React registers wheel listeners as passive, so the page would scroll along with the zoom
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const point = toSvgPoint(event.clientX, event.clientY);
+      setTransform(current => {
+        const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.k * Math.exp(-event.deltaY * 0.001)));
+        // Keep the point under the cursor in place
+        return {
+          k,
+          x: point.x - ((point.x - current.x) / current.k) * k,
+          y: point.y - ((point.y - current.y) / current.k) * k,
+        };
+      });
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    const id = (event.target as Element).closest('[data-node-id]')?.getAttribute('data-node-id');
+    svgRef.current!.setPointerCapture(event.pointerId);
+    if (id) {
+      pointerRef.current = { type: 'drag', id, moved: false };
+    } else {
+      const point = toSvgPoint(event.clientX, event.clientY);
+      pointerRef.current = { type: 'pan', startX: point.x, startY: point.y, origin: transform };
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const action = pointerRef.current;
+    if (!action) return;
+    const point = toSvgPoint(event.clientX, event.clientY);
+    if (action.type === 'pan') {
+      setTransform({
+        ...action.origin,
+        x: action.origin.x + point.x - action.startX,
+        y: action.origin.y + point.y - action.startY,
+      });
+      return;
+    }
+    const node = layoutRef.current?.nodes.find(candidate => candidate.id === action.id);
+    if (!node) return;
+    action.moved = true;
+    node.pinned = true;
+    node.x = (point.x - transform.x) / transform.k;
+    node.y = (point.y - transform.y) / transform.k;
+    layoutRef.current!.reheat();
+    animate();
+  };
+
+  const handlePointerUp = () => {
+    const action = pointerRef.current;
+    pointerRef.current = null;
+    if (action?.type !== 'drag') return;
+    const node = layoutRef.current?.nodes.find(candidate => candidate.id === action.id);
+    if (node) node.pinned = false;
+    if (!action.moved) {
+      const clicked = nodesById.get(action.id);
+      if (clicked) onNodeClick(clicked);
+    }
+  };
+
+  const positions = new Map(layoutRef.current?.nodes.map(node => [node.id, node]) ?? []);
+  const hovered = hoveredId ? nodesById.get(hoveredId) : undefined;
+  const neighbours = new Set(
+    hoveredId
+      ? graph.edges.flatMap(edge => edge.source === hoveredId || edge.target === hoveredId ? [edge.source, edge.target] : [])
+      : [],
+  );
+  const legend = Array.from(colors.entries()).slice(0, LEGEND_CLUSTERS);
+
+  return (
+    <div className="relative">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-[640px] rounded-md border bg-muted/10 touch-none cursor-grab"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setHoveredId(null)}
+        data-testid="svg-citation-graph"
+      >
+        <defs>
+          <marker id="citation-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="5" markerHeight="5" orient="auto">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="hsl(var(--muted-foreground))" />
+          </marker>
+        </defs>
+        <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.k})`}>
+          {graph.edges.map(edge => {
+            const source = positions.get(edge.source);
+            const target = positions.get(edge.target);
+            if (!source || !target) return null;
+            // End the line at the rim of the target so the arrow stays visible
+            const dx = target.x - source.x;
+            const dy = target.y - source.y;
+            const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+            const inset = nodeRadius(nodesById.get(edge.target)!) + 2;
+            const highlighted = edge.source === hoveredId || edge.target === hoveredId;
+            return (
+              <line
+                key={`${edge.source}->${edge.target}`}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x - (dx / distance) * inset}
+                y2={target.y - (dy / distance) * inset}
+                stroke="hsl(var(--muted-foreground))"
+                strokeWidth={0.5 + 2.5 * (Math.log1p(edge.weight) / Math.log1p(maxWeight))}
+                strokeOpacity={hoveredId ? (highlighted ? 0.9 : 0.05) : 0.35}
+                markerEnd="url(#citation-arrow)"
+              />
+            );
+          })}
+          {graph.nodes.map(node => {
+            const position = positions.get(node.id);
+            if (!position) return null;
+            const dimmed = hoveredId !== null && node.id !== hoveredId && !neighbours.has(node.id);
+            return (
+              <circle
+                key={node.id}
+                data-node-id={node.id}
+                cx={position.x}
+                cy={position.y}
+                r={nodeRadius(node)}
+                fill={colors.get(node.cluster)}
+                fillOpacity={dimmed ? 0.15 : 0.9}
+                stroke="hsl(var(--background))"
+                strokeWidth={1.5}
+                className="cursor-pointer"
+                onPointerEnter={() => setHoveredId(node.id)}
+                onPointerLeave={() => setHoveredId(null)}
+              />
+            );
+          })}
+        </g>
+      </svg>
+
+      {hovered && (
+        <div
+          className="absolute top-3 left-3 rounded-md border bg-popover px-3 py-2 text-sm shadow-sm pointer-events-none"
+          data-testid="text-graph-hovered"
+        >
+          <div className="font-mono font-semibold">{hovered.id}</div>
+          <div className="text-muted-foreground">{hovered.cluster}</div>
+          <div className="font-mono">
+            {hovered.inboundCount.toLocaleString()} in · {hovered.outboundCount.toLocaleString()} out
+          </div>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap gap-x-4 gap-y-2 text-sm text-muted-foreground" data-testid="legend-citation-graph">
+        {legend.map(([cluster, color]) => (
+          <span key={cluster} className="flex items-center gap-2">
+            <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+            {cluster}
+          </span>
+        ))}
+        {colors.size > LEGEND_CLUSTERS && <span>+{colors.size - LEGEND_CLUSTERS} more</span>}
+      </div>
+    </div>
+  );
+}
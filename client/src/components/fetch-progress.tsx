@@ -0,0 +1,68 @@
+import { Link } from "wouter";
+import { Progress } from "@/components/ui/progress";
+import type { FetchProgress } from "@/hooks/use-fetch-progress";
+
+interface FetchProgressIndicatorProps {
+  progress: FetchProgress;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${bytes} B`;
+}
+
+export function FetchProgressIndicator({ progress }: FetchProgressIndicatorProps) {
+  if (!progress.jobId) return null;
+
+  const lastTask = progress.lastTask;
+  const jobLink = (
+    <Link
+      href={`/jobs/${progress.jobId}`}
+      className="text-sm text-primary hover:underline"
+      data-testid="link-running-job"
+    >
+      View running job
+    </Link>
+  );
+
+  // Progress of a job running in another server process is not streamed
+  if (progress.progressTotal === 0) {
+    return (
+      <div className="mt-6 flex items-center justify-between text-sm" data-testid="progress-indicator">
+        <span className="text-muted-foreground">A refresh is in progress.</span>
+        {jobLink}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-6 space-y-2" data-testid="progress-indicator">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">
+          {progress.currentTitle || 'Loading...'}
+        </span>
+        <span className="font-medium">
+          {progress.progressCurrent} / {progress.progressTotal}
+        </span>
+      </div>
+      <Progress
+        value={(progress.progressCurrent / progress.progressTotal) * 100}
+        className="h-2"
+      />
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span data-testid="text-progress-download">
+          {progress.bytesRead > 0
+            ? `${formatBytes(progress.bytesRead)} downloaded, ${progress.wordCount.toLocaleString()} words analyzed`
+            : 'Waiting for data...'}
+        </span>
+        {lastTask && (
+          <span data-testid="text-progress-last-task">
+            Title {lastTask.titleNumber}: {lastTask.status}{lastTask.reason ? ` (${lastTask.reason})` : ''}
+          </span>
+        )}
+        {jobLink}
+      </div>
+    </div>
+  );
+}
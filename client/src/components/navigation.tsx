@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { BarChart3, FileText, List, TrendingUp } from "lucide-react";
+import { BarChart3, FileText, GitCompare, List, Network, TrendingUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 export function Navigation() {
@@ -54,6 +54,26 @@ export function Navigation() {
                   Historical Trends
                 </Button>
               </Link>
+              <Link href="/diff">
+                <Button
+                  variant={location === '/diff' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  data-testid="link-diff"
+                >
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Compare
+                </Button>
+              </Link>
+              <Link href="/citations">
+                <Button
+                  variant={location === '/citations' ? 'secondary' : 'ghost'}
+                  size="sm"
+                  data-testid="link-citations"
+                >
+                  <Network className="h-4 w-4 mr-2" />
+                  Citations
+                </Button>
+              </Link>
             </div>
           </div>
         </div>
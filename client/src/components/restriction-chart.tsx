@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { Gavel } from "lucide-react";
+import { ChartCard } from "@/components/chart-card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { AgencyAnalysis } from "@shared/schema";
+
+type RestrictionRanking = 'restrictionCount' | 'restrictionsPerThousandWords';
+
+const RANKINGS: Record<RestrictionRanking, { label: string; description: string }> = {
+  restrictionCount: {
+    label: 'Restrictions',
+    description: 'Top 10 agencies by number of restrictive terms',
+  },
+  restrictionsPerThousandWords: {
+    label: 'Restrictions / 1,000 Words',
+    description: 'Top 10 agencies by restrictive terms per 1,000 words',
+  },
+};
+
+interface RestrictionChartProps {
+  agencies: AgencyAnalysis[];
+}
+
+/**
+ * Ranks agencies by binding obligations, either in total or relative to their word count
+ */
+export function RestrictionChart({ agencies }: RestrictionChartProps) {
+  const [ranking, setRanking] = useState<RestrictionRanking>('restrictionCount');
+  const top = agencies.slice().sort((a, b) => b[ranking] - a[ranking]).slice(0, 10);
+
+  return (
+    <ChartCard
+      title={RANKINGS[ranking].label}
+      description={RANKINGS[ranking].description}
+      icon={Gavel}
+      action={
+        <Select value={ranking} onValueChange={(value) => setRanking(value as RestrictionRanking)}>
+          <SelectTrigger className="w-56" data-testid="select-restriction-ranking">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(RANKINGS) as RestrictionRanking[]).map(key => (
+              <SelectItem key={key} value={key}>{RANKINGS[key].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      }
+    >
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={top}>
+          <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.2} />
+          <XAxis
+            dataKey="agency"
+            tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }}
+            angle={-45}
+            textAnchor="end"
+            height={100}
+          />
+          <YAxis tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--popover))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '6px',
+            }}
+          />
+          <Bar dataKey={ranking} fill="hsl(var(--chart-5))" name={RANKINGS[ranking].label} />
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  );
+}
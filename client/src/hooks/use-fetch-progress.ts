@@ -0,0 +1,118 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import type { FetchEvent, FetchLockStatus, FetchTask } from "@shared/schema";
+
+export type FetchJobEvent = Extract<FetchEvent, { type: 'job' }>;
+
+export interface FetchProgress {
+  // Job currently running (holding the fetch lock), if any
+  jobId: string | null;
+  currentTitle: string | null;
+  progressCurrent: number;
+  progressTotal: number;
+  // Download and analysis progress of the current title
+  bytesRead: number;
+  wordCount: number;
+  // Outcome of the most recently finished title
+  lastTask: FetchTask | null;
+}
+
+const FINISHED_JOB_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+const IDLE: FetchProgress = {
+  jobId: null,
+  currentTitle: null,
+  progressCurrent: 0,
+  progressTotal: 0,
+  bytesRead: 0,
+  wordCount: 0,
+  lastTask: null,
+};
+
+// Queries whose data changes when a fetch job finishes
+const REFRESHED_QUERY_KEYS = [
+  ['/api/metadata'],
+  ['/api/analysis/agencies'],
+  ['/api/analysis/wordcount'],
+  ['/api/analysis/checksums'],
+  ['/api/stored-titles'],
+  ['/api/snapshots'],
+  ['/api/jobs'],
+  ['/api/fetch/lock'],
+];
+
+/**
+ * Follows fetch job progress pushed by the server over GET /api/fetch/events.
+ * When a job finishes, the affected queries are invalidated and onFinished is called.
+ * A job started by another server process is picked up from the fetch lock
+ */
+export function useFetchProgress(options: { onFinished?: (event: FetchJobEvent) => void } = {}): FetchProgress {
+  const [progress, setProgress] = useState<FetchProgress>(IDLE);
+  const { data: lock } = useQuery<FetchLockStatus>({
+    queryKey: ['/api/fetch/lock'],
+  });
+  const onFinishedRef = useRef(options.onFinished);
+  onFinishedRef.current = options.onFinished;
+
+  useEffect(() => {
+    const source = new EventSource('/api/fetch/events');
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as FetchEvent;
+
+      // Keep an open job page in sync
+      if (event.type !== 'progress') {
+        queryClient.invalidateQueries({ queryKey: ['/api/jobs', event.jobId] });
+      }
+
+      switch (event.type) {
+        case 'job':
+          if (FINISHED_JOB_STATUSES.includes(event.status)) {
+            setProgress(IDLE);
+            Promise.all(
+              REFRESHED_QUERY_KEYS.map(queryKey => queryClient.invalidateQueries({ queryKey })),
+            ).then(() => onFinishedRef.current?.(event));
+          } else {
+            setProgress(current => ({
+              ...current,
+              jobId: event.jobId,
+              currentTitle: current.jobId === event.jobId ? current.currentTitle : 'Starting fetch...',
+              progressCurrent: event.progressCurrent,
+              progressTotal: event.progressTotal,
+            }));
+          }
+          break;
+        case 'title':
+          setProgress(current => ({
+            ...current,
+            jobId: event.jobId,
+            currentTitle: `Title ${event.titleNumber}: ${event.titleName}`,
+            progressCurrent: event.progressCurrent,
+            progressTotal: event.progressTotal,
+            bytesRead: 0,
+            wordCount: 0,
+          }));
+          break;
+        case 'progress':
+          setProgress(current => ({
+            ...current,
+            jobId: event.jobId,
+            bytesRead: event.bytesRead,
+            wordCount: event.wordCount,
+          }));
+          break;
+        case 'task':
+          setProgress(current => ({ ...current, jobId: event.jobId, lastTask: event.task }));
+          break;
+      }
+    };
+
+    return () => source.close();
+  }, []);
+
+  if (!progress.jobId && lock?.locked && lock.jobId) {
+    return { ...progress, jobId: lock.jobId };
+  }
+  return progress;
+}
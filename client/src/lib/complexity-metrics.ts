@@ -0,0 +1,31 @@
+import type { AgencyAnalysis } from "@shared/schema";
+
+export type ComplexityMetricKey =
+  | 'rci'
+  | 'fleschReadingEase'
+  | 'fleschKincaidGrade'
+  | 'gunningFog'
+  | 'smog'
+  | 'colemanLiau';
+
+export interface ComplexityMetric {
+  key: ComplexityMetricKey & keyof AgencyAnalysis;
+  label: string;
+  description: string;
+  // Flesch Reading Ease falls as text gets harder; every other index rises
+  higherIsHarder: boolean;
+}
+
+// Complexity measures an agency can be ranked by, RCI first
+export const COMPLEXITY_METRICS: ComplexityMetric[] = [
+  { key: 'rci', label: 'RCI', description: 'sentence length × vocabulary diversity', higherIsHarder: true },
+  { key: 'fleschReadingEase', label: 'Flesch Reading Ease', description: '0-100, lower is harder to read', higherIsHarder: false },
+  { key: 'fleschKincaidGrade', label: 'Flesch-Kincaid Grade', description: 'U.S. school grade needed to read the text', higherIsHarder: true },
+  { key: 'gunningFog', label: 'Gunning Fog', description: 'years of schooling needed to read the text', higherIsHarder: true },
+  { key: 'smog', label: 'SMOG', description: 'years of schooling, from words of three or more syllables', higherIsHarder: true },
+  { key: 'colemanLiau', label: 'Coleman-Liau', description: 'U.S. school grade, from letters per word', higherIsHarder: true },
+];
+
+export function getComplexityMetric(key: ComplexityMetricKey): ComplexityMetric {
+  return COMPLEXITY_METRICS.find(metric => metric.key === key) ?? COMPLEXITY_METRICS[0];
+}
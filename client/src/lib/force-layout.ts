@@ -0,0 +1,159 @@
+/**
+ * A small force-directed layout: nodes repel each other, edges pull their ends together
+ * and each node is drawn towards the anchor of its cluster, so clusters form visible groups.
+ * The simulation cools down over time; call tick() once per animation frame until it stops
+ */
+
+export interface LayoutNode {
+  id: string;
+  cluster: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  pinned: boolean; // held in place while dragged
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+export interface ForceLayout {
+  nodes: LayoutNode[];
+  // Advances the simulation one step; false once it has cooled down
+  tick(): boolean;
+  // Restarts a cooled simulation, e.g. after a node was dragged
+  reheat(): void;
+}
+
+const REPULSION = 900;
+const LINK_DISTANCE = 50;
+const LINK_STRENGTH = 0.06;
+const CLUSTER_STRENGTH = 0.04;
+const CENTER_STRENGTH = 0.01;
+const VELOCITY_DECAY = 0.6;
+const ALPHA_DECAY = 0.985;
+const ALPHA_MIN = 0.005;
+
+export function createForceLayout(
+  nodes: { id: string; cluster: string }[],
+  edges: LayoutEdge[],
+  width: number,
+  height: number,
+): ForceLayout {
+  const centerX = width / 2;
+  const centerY = height / 2;
+
+  // Cluster anchors on a circle around the center, largest cluster first
+  const clusterSizes = new Map<string, number>();
+  for (const node of nodes) {
+    clusterSizes.set(node.cluster, (clusterSizes.get(node.cluster) ?? 0) + 1);
+  }
+  const clusters = Array.from(clusterSizes.keys()).sort((a, b) => clusterSizes.get(b)! - clusterSizes.get(a)!);
+  const radius = clusters.length > 1 ? Math.min(width, height) * 0.35 : 0;
+  const anchors = new Map(clusters.map((cluster, index) => {
+    const angle = (2 * Math.PI * index) / clusters.length;
+    return [cluster, { x: centerX + radius * Math.cos(angle), y: centerY + radius * Math.sin(angle) }];
+  }));
+
+  // Start every node near its anchor
+  const layoutNodes: LayoutNode[] = nodes.map(node => {
+    const anchor = anchors.get(node.cluster)!;
+    return {
+      id: node.id,
+      cluster: node.cluster,
+      x: anchor.x + (Math.random() - 0.5) * 60,
+      y: anchor.y + (Math.random() - 0.5) * 60,
+      vx: 0,
+      vy: 0,
+      pinned: false,
+    };
+  });
+  const byId = new Map(layoutNodes.map(node => [node.id, node]));
+  const maxWeight = Math.max(1, ...edges.map(edge => edge.weight));
+  const links = edges
+    .map(edge => ({
+      source: byId.get(edge.source),
+      target: byId.get(edge.target),
+      // Heavier edges pull harder, on a log scale so one dominant edge does not collapse the graph
+      strength: LINK_STRENGTH * (0.5 + Math.log1p(edge.weight) / Math.log1p(maxWeight)),
+    }))
+    .filter((link): link is { source: LayoutNode; target: LayoutNode; strength: number } =>
+      !!link.source && !!link.target);
+
+  let alpha = 1;
+
+  const tick = (): boolean => {
+    if (alpha < ALPHA_MIN) return false;
+
+    // Repulsion between every pair of nodes
+    for (let i = 0; i < layoutNodes.length; i++) {
+      const a = layoutNodes[i];
+      for (let j = i + 1; j < layoutNodes.length; j++) {
+        const b = layoutNodes[j];
+        let dx = b.x - a.x;
+        let dy = b.y - a.y;
+        let distanceSquared = dx * dx + dy * dy;
+        if (distanceSquared === 0) {
+          dx = Math.random() - 0.5;
+          dy = Math.random() - 0.5;
+          distanceSquared = dx * dx + dy * dy;
+        }
+        const force = (REPULSION * alpha) / Math.max(distanceSquared, 25);
+        const distance = Math.sqrt(distanceSquared);
+        const fx = (dx / distance) * force;
+        const fy = (dy / distance) * force;
+        a.vx -= fx;
+        a.vy -= fy;
+        b.vx += fx;
+        b.vy += fy;
+      }
+    }
+
+    // Springs along the edges
+    for (const { source, target, strength } of links) {
+      const dx = target.x - source.x;
+      const dy = target.y - source.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      const force = (distance - LINK_DISTANCE) * strength * alpha;
+      const fx = (dx / distance) * force;
+      const fy = (dy / distance) * force;
+      source.vx += fx;
+      source.vy += fy;
+      target.vx -= fx;
+      target.vy -= fy;
+    }
+
+    // Cluster anchors and the center
+    for (const node of layoutNodes) {
+      const anchor = anchors.get(node.cluster)!;
+      node.vx += ((anchor.x - node.x) * CLUSTER_STRENGTH + (centerX - node.x) * CENTER_STRENGTH) * alpha;
+      node.vy += ((anchor.y - node.y) * CLUSTER_STRENGTH + (centerY - node.y) * CENTER_STRENGTH) * alpha;
+    }
+
+    for (const node of layoutNodes) {
+      if (node.pinned) {
+        node.vx = 0;
+        node.vy = 0;
+        continue;
+      }
+      node.vx *= VELOCITY_DECAY;
+      node.vy *= VELOCITY_DECAY;
+      node.x += node.vx;
+      node.y += node.vy;
+    }
+
+    alpha *= ALPHA_DECAY;
+    return true;
+  };
+
+  return {
+    nodes: layoutNodes,
+    tick,
+    reheat: () => {
+      alpha = Math.max(alpha, 0.3);
+    },
+  };
+}
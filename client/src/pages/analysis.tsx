@@ -1,15 +1,22 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card } from "@/components/ui/card";
-import { DataTable } from "@/components/data-table";
+import { AgencyTreeTable } from "@/components/agency-tree-table";
 import { ExportButtons } from "@/components/export-buttons";
+import { AmendmentActivity } from "@/components/amendment-activity";
+import { RestrictionChart } from "@/components/restriction-chart";
 import { TableSkeleton } from "@/components/loading-skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Footer } from "@/components/footer";
+import { COMPLEXITY_METRICS, getComplexityMetric, type ComplexityMetricKey } from "@/lib/complexity-metrics";
 import type { AgencyAnalysis } from "@shared/schema";
 
 export default function Analysis() {
   const { toast } = useToast();
+  const [readabilityKey, setReadabilityKey] = useState<ComplexityMetricKey>('fleschKincaidGrade');
+  const readabilityMetric = getComplexityMetric(readabilityKey);
 
   const { data: agencies, isLoading } = useQuery<AgencyAnalysis[]>({
     queryKey: ['/api/analysis/agencies'],
@@ -25,15 +32,28 @@ export default function Analysis() {
       return;
     }
 
-    const headers = ['Agency', 'Total Words', 'Avg Words', 'Regulations', 'RCI', 'Avg Sentence Length', 'Vocabulary Diversity', 'Checksum'];
+    const agencyNames = new Map(agencies.map(a => [a.slug, a.agency]));
+    const headers = ['Agency', 'Short Name', 'Parent Agency', 'Titles', 'Own Words', 'Total Words', 'Avg Words per Section', 'Sections', 'Parts', 'RCI', 'Avg Sentence Length', 'Vocabulary Diversity', 'Flesch Reading Ease', 'Flesch-Kincaid Grade', 'Gunning Fog', 'SMOG', 'Coleman-Liau', 'Restrictions', 'Restrictions per 1000 Words', 'Checksum'];
     const rows = agencies.map(a => [
-      a.agency,
+      `"${a.agency.replace(/"/g, '""')}"`,
+      a.shortName ?? '',
+      `"${(a.parentSlug && agencyNames.get(a.parentSlug) || '').replace(/"/g, '""')}"`,
+      `"${a.titleNumbers.join(' ')}"`,
+      a.ownWordCount,
       a.totalWordCount,
       a.averageWordCount,
       a.regulationCount,
+      a.partCount,
       a.rci.toFixed(2),
       a.avgSentenceLength.toFixed(2),
       a.vocabularyDiversity.toFixed(4),
+      a.fleschReadingEase.toFixed(2),
+      a.fleschKincaidGrade.toFixed(2),
+      a.gunningFog.toFixed(2),
+      a.smog.toFixed(2),
+      a.colemanLiau.toFixed(2),
+      a.restrictionCount,
+      a.restrictionsPerThousandWords.toFixed(2),
       a.checksum,
     ]);
 
@@ -103,7 +123,9 @@ export default function Analysis() {
             <TabsTrigger value="overview" data-testid="tab-overview">Overview</TabsTrigger>
             <TabsTrigger value="wordcount" data-testid="tab-wordcount">Word Count</TabsTrigger>
             <TabsTrigger value="complexity" data-testid="tab-complexity">Complexity</TabsTrigger>
+            <TabsTrigger value="restrictions" data-testid="tab-restrictions">Restrictions</TabsTrigger>
             <TabsTrigger value="checksums" data-testid="tab-checksums">Checksums</TabsTrigger>
+            <TabsTrigger value="amendments" data-testid="tab-amendments">Amendments</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
@@ -111,13 +133,17 @@ export default function Analysis() {
               <TableSkeleton rows={10} />
             ) : (
               <Card className="p-6">
-                <h2 className="text-xl font-semibold mb-6">All Agencies - Complete Analysis</h2>
-                <DataTable
+                <h2 className="text-xl font-semibold mb-2">All Agencies - Complete Analysis</h2>
+                <p className="text-sm text-muted-foreground mb-6">
+                  Departments include their sub-agencies; expand a department to see each one
+                </p>
+                <AgencyTreeTable
                   columns={[
-                    { header: 'Agency', accessor: 'agency', sortable: true },
-                    { header: 'Regulations', accessor: 'regulationCount', sortable: true, mono: true },
+                    { header: 'Titles', accessor: (row) => row.titleNumbers.join(', '), mono: true },
+                    { header: 'Parts', accessor: 'partCount', sortable: true, mono: true },
+                    { header: 'Sections', accessor: 'regulationCount', sortable: true, mono: true },
                     { header: 'Total Words', accessor: (row) => row.totalWordCount.toLocaleString(), sortable: true },
-                    { header: 'Avg Words', accessor: (row) => Math.round(row.averageWordCount).toLocaleString(), sortable: true },
+                    { header: 'Avg Words / Section', accessor: (row) => Math.round(row.averageWordCount).toLocaleString(), sortable: true },
                     { header: 'RCI', accessor: (row) => row.rci.toFixed(2), sortable: true, mono: true },
                   ]}
                   data={agencies || []}
@@ -133,12 +159,12 @@ export default function Analysis() {
             ) : (
               <Card className="p-6">
                 <h2 className="text-xl font-semibold mb-6">Word Count Analysis</h2>
-                <DataTable
+                <AgencyTreeTable
                   columns={[
-                    { header: 'Agency', accessor: 'agency', sortable: true },
                     { header: 'Total Words', accessor: (row) => row.totalWordCount.toLocaleString(), sortable: true },
-                    { header: 'Average Words', accessor: (row) => Math.round(row.averageWordCount).toLocaleString(), sortable: true },
-                    { header: 'Regulations', accessor: 'regulationCount', sortable: true, mono: true },
+                    { header: 'Own Words', accessor: (row) => row.ownWordCount.toLocaleString() },
+                    { header: 'Average Words / Section', accessor: (row) => Math.round(row.averageWordCount).toLocaleString(), sortable: true },
+                    { header: 'Sections', accessor: 'regulationCount', sortable: true, mono: true },
                   ]}
                   data={agencies || []}
                   testId="table-wordcount"
@@ -152,16 +178,31 @@ export default function Analysis() {
               <TableSkeleton rows={10} />
             ) : (
               <Card className="p-6">
-                <h2 className="text-xl font-semibold mb-6">Regulatory Complexity Index</h2>
-                <p className="text-sm text-muted-foreground mb-6">
-                  RCI = Average Sentence Length × Vocabulary Diversity (unique words / total words)
-                </p>
-                <DataTable
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+                  <div>
+                    <h2 className="text-xl font-semibold mb-2">Regulatory Complexity Index</h2>
+                    <p className="text-sm text-muted-foreground">
+                      RCI = Average Sentence Length × Vocabulary Diversity (unique words / total words).
+                      The last column shows a standard readability index: {readabilityMetric.description}
+                    </p>
+                  </div>
+                  <Select value={readabilityKey} onValueChange={(value) => setReadabilityKey(value as ComplexityMetricKey)}>
+                    <SelectTrigger className="w-52" data-testid="select-readability-index">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {COMPLEXITY_METRICS.filter(metric => metric.key !== 'rci').map(metric => (
+                        <SelectItem key={metric.key} value={metric.key}>{metric.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <AgencyTreeTable
                   columns={[
-                    { header: 'Agency', accessor: 'agency', sortable: true },
                     { header: 'RCI Score', accessor: (row) => row.rci.toFixed(2), sortable: true, mono: true },
                     { header: 'Avg Sentence Length', accessor: (row) => row.avgSentenceLength.toFixed(2), sortable: true, mono: true },
                     { header: 'Vocabulary Diversity', accessor: (row) => row.vocabularyDiversity.toFixed(4), sortable: true, mono: true },
+                    { header: readabilityMetric.label, accessor: (row) => row[readabilityKey].toFixed(1), sortable: true, mono: true },
                   ]}
                   data={agencies || []}
                   testId="table-complexity"
@@ -170,6 +211,32 @@ export default function Analysis() {
             )}
           </TabsContent>
 
+          <TabsContent value="restrictions">
+            {isLoading ? (
+              <TableSkeleton rows={10} />
+            ) : (
+              <div className="space-y-8">
+                <RestrictionChart agencies={agencies || []} />
+                <Card className="p-6">
+                  <h2 className="text-xl font-semibold mb-2">Restriction Counts</h2>
+                  <p className="text-sm text-muted-foreground mb-6">
+                    Binding obligations, counted as the restrictive terms "shall", "must", "may not", "prohibited" and "required"
+                  </p>
+                  <AgencyTreeTable
+                    columns={[
+                      { header: 'Restrictions', accessor: (row) => row.restrictionCount.toLocaleString(), sortable: true, mono: true },
+                      { header: 'Per 1,000 Words', accessor: (row) => row.restrictionsPerThousandWords.toFixed(2), sortable: true, mono: true },
+                      { header: 'Total Words', accessor: (row) => row.totalWordCount.toLocaleString(), sortable: true },
+                      { header: 'Sections', accessor: 'regulationCount', sortable: true, mono: true },
+                    ]}
+                    data={agencies || []}
+                    testId="table-restrictions"
+                  />
+                </Card>
+              </div>
+            )}
+          </TabsContent>
+
           <TabsContent value="checksums">
             {isLoading ? (
               <TableSkeleton rows={10} />
@@ -179,11 +246,10 @@ export default function Analysis() {
                 <p className="text-sm text-muted-foreground mb-6">
                   SHA-256 checksums for detecting content changes
                 </p>
-                <DataTable
+                <AgencyTreeTable
                   columns={[
-                    { header: 'Agency', accessor: 'agency', sortable: true },
                     { header: 'Checksum', accessor: 'checksum', mono: true },
-                    { header: 'Regulations', accessor: 'regulationCount', sortable: true, mono: true },
+                    { header: 'Sections', accessor: 'regulationCount', sortable: true, mono: true },
                   ]}
                   data={agencies || []}
                   testId="table-checksums"
@@ -191,6 +257,10 @@ export default function Analysis() {
               </Card>
             )}
           </TabsContent>
+
+          <TabsContent value="amendments">
+            <AmendmentActivity agencies={(agencies || []).map(a => a.agency)} />
+          </TabsContent>
         </Tabs>
       </div>
       <Footer />
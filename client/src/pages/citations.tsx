@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BrokenCitations } from "@/components/broken-citations";
+import { ChartCard } from "@/components/chart-card";
+import { CitationGraphView } from "@/components/citation-graph";
+import { MetricCard } from "@/components/metric-card";
+import { ChartSkeleton } from "@/components/loading-skeleton";
+import { Footer } from "@/components/footer";
+import { Boxes, Network, Share2, Waypoints, X } from "lucide-react";
+import type { AgencyAnalysis, CitationGraph, CitationGraphLevel, CitationGraphNode } from "@shared/schema";
+
+const ALL = '__all__';
+
+const LEVEL_LABELS: Record<CitationGraphLevel, string> = {
+  part: 'Parts',
+  section: 'Sections',
+};
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(value < 0.01 ? 2 : 1)}%`;
+}
+
+export default function Citations() {
+  const [, navigate] = useLocation();
+  const [level, setLevel] = useState<CitationGraphLevel>('part');
+  const [titleNumber, setTitleNumber] = useState<number | null>(null);
+  const [agency, setAgency] = useState<string | null>(null);
+  const [part, setPart] = useState<string | null>(null);
+
+  const { data: titles } = useQuery<{ number: number; name: string; reserved: boolean }[]>({
+    queryKey: ['/api/ecfr/titles'],
+  });
+  const { data: agencies } = useQuery<AgencyAnalysis[]>({
+    queryKey: ['/api/analysis/agencies'],
+  });
+
+  const params = new URLSearchParams({
+    level,
+    ...(titleNumber ? { title: titleNumber.toString() } : {}),
+    ...(part ? { part } : {}),
+    ...(agency ? { agency } : {}),
+  });
+  const { data: graph, isLoading, error } = useQuery<CitationGraph>({
+    queryKey: [`/api/citations/graph?${params}`],
+  });
+
+  // A title and an agency scope exclude each other; a part only narrows a title
+  const handleTitleChange = (value: string) => {
+    setTitleNumber(value === ALL ? null : parseInt(value));
+    setAgency(null);
+    setPart(null);
+  };
+  const handleAgencyChange = (value: string) => {
+    setAgency(value === ALL ? null : value);
+    setTitleNumber(null);
+    setPart(null);
+  };
+
+  // Parts drill down into their sections, sections open their detail page
+  const handleNodeClick = (node: CitationGraphNode) => {
+    if (node.section) {
+      navigate(`/section/${node.titleNumber}/${encodeURIComponent(node.section)}`);
+      return;
+    }
+    setLevel('section');
+    setTitleNumber(node.titleNumber);
+    setAgency(null);
+    setPart(node.part);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-gradient-to-b from-background to-muted/20">
+        <div className="max-w-7xl mx-auto px-6 py-12">
+          <h1 className="text-4xl font-bold mb-2">Citation Network</h1>
+          <p className="text-lg text-muted-foreground">
+            How CFR parts and sections reference each other, and how tightly coupled a body of regulations is
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-12 space-y-8">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col lg:flex-row gap-4">
+              <Select value={level} onValueChange={(value) => setLevel(value as CitationGraphLevel)}>
+                <SelectTrigger className="lg:w-40" data-testid="select-graph-level">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LEVEL_LABELS) as CitationGraphLevel[]).map(key => (
+                    <SelectItem key={key} value={key}>{LEVEL_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex-1">
+                <Select value={titleNumber?.toString() ?? ALL} onValueChange={handleTitleChange}>
+                  <SelectTrigger data-testid="select-graph-title">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All titles</SelectItem>
+                    {titles?.filter(title => !title.reserved).map(title => (
+                      <SelectItem key={title.number} value={title.number.toString()}>
+                        Title {title.number}: {title.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex-1">
+                <Select value={agency ?? ALL} onValueChange={handleAgencyChange}>
+                  <SelectTrigger data-testid="select-graph-agency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All agencies</SelectItem>
+                    {agencies?.slice().sort((a, b) => a.agency.localeCompare(b.agency)).map(a => (
+                      <SelectItem key={a.slug} value={a.agency}>{a.agency}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {part && (
+              <div className="mt-4 flex items-center gap-2">
+                <Badge variant="secondary" data-testid="badge-graph-part">
+                  Title {titleNumber}, Part {part}
+                </Badge>
+                <Button variant="ghost" size="sm" onClick={() => setPart(null)} data-testid="button-clear-part">
+                  <X className="h-4 w-4 mr-1" />
+                  All parts
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <ChartSkeleton />
+        ) : error ? (
+          <Card className="p-6 text-sm text-destructive" data-testid="text-graph-error">
+            Failed to load the citation graph. Please try again later.
+          </Card>
+        ) : graph && graph.edges.length > 0 ? (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <MetricCard
+                title={LEVEL_LABELS[graph.level]}
+                value={graph.nodes.length.toLocaleString()}
+                icon={Boxes}
+                color="border-t-chart-1"
+              />
+              <MetricCard
+                title="Cross-References"
+                value={`${graph.edges.length.toLocaleString()}${graph.truncated ? '+' : ''}`}
+                icon={Share2}
+                color="border-t-chart-2"
+              />
+              <MetricCard
+                title="Density"
+                value={formatPercent(graph.density)}
+                icon={Network}
+                color="border-t-chart-3"
+              />
+              <MetricCard
+                title="Within Cluster"
+                value={formatPercent(graph.internalEdgeShare)}
+                icon={Waypoints}
+                color="border-t-chart-4"
+              />
+            </div>
+
+            <ChartCard
+              title={`${LEVEL_LABELS[graph.level]} and Their Cross-References`}
+              description={
+                (graph.level === 'part' ? 'Coloured by title. Click a part to see its sections. ' : 'Coloured by part. Click a section to open it. ')
+                + (graph.truncated ? `Showing the ${graph.edges.length} heaviest cross-references.` : '')
+              }
+              icon={Network}
+            >
+              <CitationGraphView graph={graph} onNodeClick={handleNodeClick} />
+            </ChartCard>
+          </>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Network className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-lg text-muted-foreground" data-testid="text-graph-empty">
+                No cross-references found. Fetch data or widen the filters.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <BrokenCitations />
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -1,21 +1,44 @@
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { MetricCard } from "@/components/metric-card";
 import { ChartCard } from "@/components/chart-card";
 import { MetricSkeleton, ChartSkeleton } from "@/components/loading-skeleton";
 import { Building2, FileText, Clock, Hash, RefreshCw, BarChart3, TrendingUp, PieChart, Activity } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, PieChart as RePieChart, Pie, Cell } from "recharts";
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Progress } from "@/components/ui/progress";
+import { useFetchProgress } from "@/hooks/use-fetch-progress";
+import { FetchProgressIndicator } from "@/components/fetch-progress";
 import { Footer } from "@/components/footer";
+import { COMPLEXITY_METRICS, getComplexityMetric, type ComplexityMetricKey } from "@/lib/complexity-metrics";
 import type { AgencyAnalysis, FetchMetadata } from "@shared/schema";
 
 export default function Dashboard() {
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [complexityKey, setComplexityKey] = useState<ComplexityMetricKey>('rci');
   const { toast } = useToast();
 
+  // Progress is pushed by the server; queries are refreshed when the job finishes
+  const progress = useFetchProgress({
+    onFinished: (event) => {
+      if (event.status === 'succeeded') {
+        toast({
+          title: "Data Refreshed",
+          description: `Successfully loaded ${(event.totalRegulations ?? 0).toLocaleString()} CFR sections.`,
+        });
+      } else {
+        toast({
+          title: "Refresh Failed",
+          description: event.errorMessage || "An error occurred during fetch.",
+          variant: "destructive",
+        });
+      }
+    },
+  });
+  const isRefreshing = isStarting || progress.jobId !== null;
+
   const { data: metadata, isLoading: metadataLoading, refetch: refetchMetadata } = useQuery<FetchMetadata>({
     queryKey: ['/api/metadata'],
   });
@@ -25,56 +48,39 @@ export default function Dashboard() {
   });
 
   const handleRefresh = async () => {
-    setIsRefreshing(true);
+    setIsStarting(true);
     try {
       await apiRequest('POST', '/api/fetch', {});
       toast({
         title: "Data Refresh Started",
-        description: "Fetching all CFR titles from the eCFR API. This will take several minutes.",
+        description: "Fetching CFR titles whose issue date changed since the last refresh.",
       });
     } catch (error) {
-      setIsRefreshing(false);
+      // 409: another refresh holds the fetch lock; the progress area links to it
+      if (error instanceof Error && error.message.startsWith('409')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/fetch/lock'] });
+        toast({
+          title: "Refresh Already Running",
+          description: "Another refresh is in progress. Follow it from the running job page.",
+        });
+        return;
+      }
       toast({
         title: "Refresh Failed",
         description: "Failed to start eCFR data fetch. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsStarting(false);
     }
   };
 
-  // Poll for progress updates when refreshing
-  useEffect(() => {
-    if (!isRefreshing) return;
-
-    const pollInterval = setInterval(async () => {
-      await queryClient.invalidateQueries({ queryKey: ['/api/metadata'] });
-      const currentMetadata = queryClient.getQueryData<FetchMetadata>(['/api/metadata']);
-      
-      if (currentMetadata?.status === 'success' || currentMetadata?.status === 'error') {
-        setIsRefreshing(false);
-        await queryClient.invalidateQueries({ queryKey: ['/api/analysis/agencies'] });
-        
-        if (currentMetadata.status === 'success') {
-          toast({
-            title: "Data Refreshed",
-            description: `Successfully loaded ${currentMetadata.totalRegulations} CFR titles.`,
-          });
-        } else {
-          toast({
-            title: "Refresh Failed",
-            description: currentMetadata.errorMessage || "An error occurred during fetch.",
-            variant: "destructive",
-          });
-        }
-        clearInterval(pollInterval);
-      }
-    }, 2000);
-
-    return () => clearInterval(pollInterval);
-  }, [isRefreshing, toast]);
-
   const totalAgencies = agencies?.length || 0;
-  const totalWords = agencies?.reduce((sum, a) => sum + a.totalWordCount, 0) || 0;
+  // Departments already include their sub-agencies' words
+  const agencySlugs = new Set(agencies?.map(a => a.slug));
+  const totalWords = agencies
+    ?.filter(a => !a.parentSlug || !agencySlugs.has(a.parentSlug))
+    .reduce((sum, a) => sum + a.totalWordCount, 0) || 0;
   const avgRCI = agencies && agencies.length > 0
     ? (agencies.reduce((sum, a) => sum + a.rci, 0) / agencies.length).toFixed(2)
     : '0.00';
@@ -83,6 +89,11 @@ export default function Dashboard() {
 
   const topAgenciesByWords = agencies?.slice().sort((a, b) => b.totalWordCount - a.totalWordCount).slice(0, 10) || [];
   const topAgenciesByRCI = agencies?.slice().sort((a, b) => b.rci - a.rci).slice(0, 10) || [];
+  // Hardest to read first, whichever direction the selected index runs
+  const complexityMetric = getComplexityMetric(complexityKey);
+  const topAgenciesByComplexity = agencies?.slice().sort((a, b) =>
+    complexityMetric.higherIsHarder ? b[complexityKey] - a[complexityKey] : a[complexityKey] - b[complexityKey]
+  ).slice(0, 10) || [];
   
   const pieData = agencies?.slice().sort((a, b) => b.regulationCount - a.regulationCount).slice(0, 5).map(a => ({
     name: a.agency,
@@ -123,22 +134,7 @@ export default function Dashboard() {
           </div>
           
           {/* Progress Indicator */}
-          {metadata?.status === 'in_progress' && metadata.progressTotal && metadata.progressTotal > 0 && (
-            <div className="mt-6 space-y-2" data-testid="progress-indicator">
-              <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">
-                  {metadata.currentTitle || 'Loading...'}
-                </span>
-                <span className="font-medium">
-                  {metadata.progressCurrent || 0} / {metadata.progressTotal}
-                </span>
-              </div>
-              <Progress 
-                value={((metadata.progressCurrent || 0) / metadata.progressTotal) * 100} 
-                className="h-2"
-              />
-            </div>
-          )}
+          <FetchProgressIndicator progress={progress} />
         </div>
       </div>
 
@@ -162,7 +158,7 @@ export default function Dashboard() {
                 color="border-t-chart-1"
               />
               <MetricCard
-                title="Total Regulations"
+                title="Total Sections"
                 value={metadata?.totalRegulations.toLocaleString() || '0'}
                 icon={FileText}
                 color="border-t-chart-2"
@@ -218,17 +214,29 @@ export default function Dashboard() {
             </ChartCard>
           )}
 
-          {/* RCI Chart */}
+          {/* Complexity Chart */}
           {agenciesLoading ? (
             <ChartSkeleton />
           ) : (
             <ChartCard
-              title="Regulatory Complexity Index"
-              description="Top 10 agencies by RCI (sentence length × vocabulary diversity)"
+              title={complexityMetric.label}
+              description={`10 hardest-to-read agencies (${complexityMetric.description})`}
               icon={TrendingUp}
+              action={
+                <Select value={complexityKey} onValueChange={(value) => setComplexityKey(value as ComplexityMetricKey)}>
+                  <SelectTrigger className="w-48" data-testid="select-complexity-metric">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPLEXITY_METRICS.map(metric => (
+                      <SelectItem key={metric.key} value={metric.key}>{metric.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              }
             >
               <ResponsiveContainer width="100%" height={300}>
-                <BarChart data={topAgenciesByRCI}>
+                <BarChart data={topAgenciesByComplexity}>
                   <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" opacity={0.2} />
                   <XAxis
                     dataKey="agency"
@@ -245,7 +253,7 @@ export default function Dashboard() {
                       borderRadius: '6px',
                     }}
                   />
-                  <Bar dataKey="rci" fill="hsl(var(--chart-2))" name="RCI Score" />
+                  <Bar dataKey={complexityKey} fill="hsl(var(--chart-2))" name={complexityMetric.label} />
                 </BarChart>
               </ResponsiveContainer>
             </ChartCard>
@@ -256,8 +264,8 @@ export default function Dashboard() {
             <ChartSkeleton />
           ) : (
             <ChartCard
-              title="Regulation Distribution"
-              description="Top 5 agencies by number of regulations"
+              title="Section Distribution"
+              description="Top 5 agencies by number of sections"
               icon={PieChart}
             >
               <ResponsiveContainer width="100%" height={300}>
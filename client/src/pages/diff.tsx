@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MetricCard } from "@/components/metric-card";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { Footer } from "@/components/footer";
+import { Brain, FileDiff, GitCompare, Hash } from "lucide-react";
+import type { DiffSegment, SectionChange, SectionChangeStatus, TitleDiff } from "@shared/schema";
+
+const ALL_STATUSES = '__all__';
+
+const STATUS_VARIANTS: Record<SectionChangeStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  added: 'default',
+  removed: 'destructive',
+  modified: 'secondary',
+};
+
+const SEGMENT_CLASSES: Record<DiffSegment['type'], string> = {
+  equal: '',
+  insert: 'bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-200',
+  delete: 'bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-200',
+};
+
+interface DiffRequest {
+  titleNumber: number;
+  from: string;
+  to: string;
+  part: string;
+}
+
+function yearsAgo(years: number): string {
+  const date = new Date();
+  date.setFullYear(date.getFullYear() - years);
+  return date.toISOString().slice(0, 10);
+}
+
+function formatDelta(value: number, digits = 0): string {
+  const formatted = digits > 0 ? value.toFixed(digits) : value.toLocaleString();
+  return value > 0 ? `+${formatted}` : formatted;
+}
+
+/**
+ * Word-level diff of one section, with removed words struck through and added words highlighted
+ */
+function SectionDiffText({ segments }: { segments: DiffSegment[] }) {
+  return (
+    <p className="text-sm leading-relaxed whitespace-pre-wrap">
+      {segments.map((segment, index) => (
+        <span key={index} className={SEGMENT_CLASSES[segment.type]}>
+          {segment.text}{' '}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+function SectionChangeCard({ change }: { change: SectionChange }) {
+  const label = change.type === 'section' ? `§ ${change.identifier}` : change.identifier;
+  return (
+    <Card className="p-6 space-y-4" data-testid={`card-change-${change.type}-${change.identifier}`}>
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <Badge variant={STATUS_VARIANTS[change.status]}>{change.status}</Badge>
+            <span className="font-mono font-semibold">{label}</span>
+            {change.part && <span className="text-sm text-muted-foreground">Part {change.part}</span>}
+          </div>
+          {change.heading && <p className="text-sm text-muted-foreground mt-1">{change.heading}</p>}
+        </div>
+        <div className="flex gap-4 text-sm font-mono">
+          <span>words {formatDelta(change.delta.wordCount)}</span>
+          <span>sentences {formatDelta(change.delta.sentenceCount)}</span>
+          <span>RCI {formatDelta(change.delta.rci, 2)}</span>
+        </div>
+      </div>
+      {change.diff ? (
+        <SectionDiffText segments={change.diff} />
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Text diff not included. Narrow the comparison to a part to see it.
+        </p>
+      )}
+    </Card>
+  );
+}
+
+export default function Diff() {
+  const [titleNumber, setTitleNumber] = useState<number | null>(null);
+  const [from, setFrom] = useState(() => yearsAgo(1));
+  const [to, setTo] = useState(() => new Date().toISOString().slice(0, 10));
+  const [part, setPart] = useState('');
+  const [request, setRequest] = useState<DiffRequest | null>(null);
+  const [statusFilter, setStatusFilter] = useState(ALL_STATUSES);
+
+  const { data: titles } = useQuery<{ number: number; name: string; reserved: boolean }[]>({
+    queryKey: ['/api/ecfr/titles'],
+  });
+
+  const params = request
+    ? new URLSearchParams({ from: request.from, to: request.to, ...(request.part ? { part: request.part } : {}) })
+    : null;
+  const { data: diff, isFetching, error } = useQuery<TitleDiff>({
+    queryKey: ['/api/diff/title', `${request?.titleNumber}?${params}`],
+    enabled: !!request,
+  });
+
+  const handleCompare = () => {
+    if (!titleNumber) return;
+    setStatusFilter(ALL_STATUSES);
+    setRequest({ titleNumber, from, to, part: part.trim() });
+  };
+
+  const changes = diff?.changes.filter(change => statusFilter === ALL_STATUSES || change.status === statusFilter) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-gradient-to-b from-background to-muted/20">
+        <div className="max-w-7xl mx-auto px-6 py-12">
+          <h1 className="text-4xl font-bold mb-2">Compare Versions</h1>
+          <p className="text-lg text-muted-foreground">
+            See which sections of a title were added, removed or reworded between two dates
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-12 space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Select Title and Dates</CardTitle>
+            <CardDescription>
+              Both versions are downloaded and analyzed section by section, which takes a few seconds for small
+              titles and several minutes for the largest. Restrict the comparison to a part to speed it up.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col lg:flex-row gap-4">
+              <div className="flex-1">
+                <Select
+                  value={titleNumber?.toString() || ""}
+                  onValueChange={(value) => setTitleNumber(parseInt(value))}
+                >
+                  <SelectTrigger data-testid="select-diff-title">
+                    <SelectValue placeholder="Select a title..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {titles?.filter(title => !title.reserved).map(title => (
+                      <SelectItem key={title.number} value={title.number.toString()}>
+                        Title {title.number}: {title.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Input
+                type="date"
+                className="lg:w-44"
+                value={from}
+                min="2017-01-01"
+                onChange={(event) => setFrom(event.target.value)}
+                data-testid="input-diff-from"
+              />
+              <Input
+                type="date"
+                className="lg:w-44"
+                value={to}
+                min="2017-01-01"
+                onChange={(event) => setTo(event.target.value)}
+                data-testid="input-diff-to"
+              />
+              <Input
+                className="lg:w-32"
+                placeholder="Part (optional)"
+                value={part}
+                onChange={(event) => setPart(event.target.value)}
+                data-testid="input-diff-part"
+              />
+              <Button
+                onClick={handleCompare}
+                disabled={!titleNumber || !from || !to || isFetching}
+                size="lg"
+                data-testid="button-compare"
+              >
+                <GitCompare className={`h-4 w-4 mr-2 ${isFetching ? 'animate-pulse' : ''}`} />
+                Compare
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isFetching ? (
+          <TableSkeleton rows={8} />
+        ) : error ? (
+          <Card className="p-6 text-sm text-destructive" data-testid="text-diff-error">
+            {error.message.startsWith('400')
+              ? 'Pick two dates between January 1, 2017 and today, the first before the second.'
+              : error.message.startsWith('404')
+                ? 'eCFR has no content for this title on one of the dates.'
+                : 'The comparison failed. The eCFR API may be unavailable; please try again later.'}
+          </Card>
+        ) : diff ? (
+          <>
+            <div>
+              <h2 className="text-2xl font-bold mb-2">
+                Title {diff.titleNumber}: {diff.titleName}{diff.part ? `, Part ${diff.part}` : ''}
+              </h2>
+              <p className="text-muted-foreground">
+                {diff.from} → {diff.to}: {diff.summary.added} added, {diff.summary.removed} removed,{' '}
+                {diff.summary.modified} modified, {diff.summary.unchanged} unchanged
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <MetricCard
+                title="Changed Sections"
+                value={(diff.summary.added + diff.summary.removed + diff.summary.modified).toLocaleString()}
+                icon={FileDiff}
+                color="border-t-chart-1"
+              />
+              <MetricCard
+                title="Word Count Change"
+                value={formatDelta(diff.delta.wordCount)}
+                icon={Hash}
+                color="border-t-chart-2"
+              />
+              <MetricCard
+                title="RCI Change"
+                value={formatDelta(diff.delta.rci, 2)}
+                icon={Brain}
+                color="border-t-chart-3"
+              />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="text-lg font-semibold">Changed Sections</h3>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-44" data-testid="select-change-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATUSES}>All changes</SelectItem>
+                  <SelectItem value="added">Added</SelectItem>
+                  <SelectItem value="removed">Removed</SelectItem>
+                  <SelectItem value="modified">Modified</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {changes.length === 0 ? (
+              <Card className="p-6 text-sm text-muted-foreground" data-testid="text-no-changes">
+                No sections changed between these dates.
+              </Card>
+            ) : (
+              <div className="space-y-4">
+                {changes.map(change => (
+                  <SectionChangeCard key={`${change.type}:${change.identifier}`} change={change} />
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <GitCompare className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-lg text-muted-foreground">
+                Select a title and two dates and click "Compare" to see what changed
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+      <Footer />
+    </div>
+  );
+}
@@ -1,33 +1,38 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { TrendingUp, BarChart3, Hash, Type, Brain } from "lucide-react";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TrendingUp, BarChart3, Hash, Type, Brain, CalendarIcon } from "lucide-react";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { ChartCard } from "@/components/chart-card";
+import { CfrHistory } from "@/components/cfr-history";
+import { ExportButtons } from "@/components/export-buttons";
 import { ChartSkeleton } from "@/components/loading-skeleton";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
 import { Footer } from "@/components/footer";
+import { apiRequest } from "@/lib/queryClient";
+import { format } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import type { HistoricalGranularity, HistoricalJobReport } from "@shared/schema";
 
-interface TrendData {
-  year: number;
-  date: string;
-  wordCount: number;
-  sentenceCount: number;
-  avgSentenceLength: number;
-  vocabularyDiversity: number;
-  uniqueWords: number;
-  rci: number;
-}
+const FINISHED_JOB_STATUSES = ['succeeded', 'failed'];
+// How often a running job is polled for progress and new results
+const JOB_POLL_INTERVAL_MS = 1000;
+// eCFR point-in-time history starts here
+const EARLIEST_SNAPSHOT_DATE = new Date(2017, 0, 1);
+
+const GRANULARITIES: { value: HistoricalGranularity; label: string }[] = [
+  { value: 'yearly', label: 'Yearly' },
+  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'monthly', label: 'Monthly' },
+];
 
-interface HistoricalResponse {
-  titleNumber: number;
-  titleName: string;
-  trends: TrendData[];
-  startYear: number;
-  endYear: number;
+function toIsoDate(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
 }
 
 // All CFR title numbers (excluding 35 which doesn't exist)
@@ -86,71 +91,93 @@ const ALL_TITLES = [
 export default function HistoricalTrends() {
   const { toast } = useToast();
   const [selectedTitle, setSelectedTitle] = useState<number | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [processingYear, setProcessingYear] = useState<number | null>(null);
-  const [totalYears, setTotalYears] = useState<number>(0);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  // Job whose outcome has already been reported, so each job is announced once
+  const notifiedJobId = useRef<string | null>(null);
 
-  const currentYearValue = new Date().getFullYear();
-  // Default to last 5 years for faster loading (user can adjust if needed)
-  const startYear = currentYearValue - 4; // Last 5 years including current
+  const [granularity, setGranularity] = useState<HistoricalGranularity>('yearly');
+  // Default to January 15th of the last 5 years for faster loading (user can adjust if needed)
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: new Date(new Date().getFullYear() - 4, 0, 15),
+    to: new Date(),
+  }));
 
-  const { data: historicalData, refetch } = useQuery<HistoricalResponse>({
-    queryKey: ['/api/historical/title', selectedTitle, startYear, currentYearValue],
-    queryFn: async () => {
-      if (!selectedTitle) throw new Error("No title selected");
-      const response = await fetch(`/api/historical/title/${selectedTitle}?start_year=${startYear}&end_year=${currentYearValue}`);
-      if (!response.ok) throw new Error("Failed to fetch historical data");
-      return response.json();
+  // Results arrive date by date while the job runs
+  const { data: job } = useQuery<HistoricalJobReport>({
+    queryKey: ['/api/historical/jobs', jobId],
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status && FINISHED_JOB_STATUSES.includes(status) ? false : JOB_POLL_INTERVAL_MS;
     },
-    enabled: false, // Don't auto-fetch, only on button click
   });
 
-  const handleLoadTrends = async () => {
-    if (!selectedTitle) return;
+  const isRunning = isStarting || (!!jobId && (!job || !FINISHED_JOB_STATUSES.includes(job.status)));
 
-    setIsLoading(true);
-    setProcessingYear(null);
-    setTotalYears(currentYearValue - startYear + 1);
+  useEffect(() => {
+    if (!job || !FINISHED_JOB_STATUSES.includes(job.status) || notifiedJobId.current === job.id) return;
+    notifiedJobId.current = job.id;
 
-    // Simulate progress updates (since we can't get real-time progress from backend)
-    const progressInterval = setInterval(() => {
-      setProcessingYear(prev => {
-        if (prev === null) return startYear;
-        if (prev >= currentYearValue) return prev;
-        return prev + 1;
+    if (job.trends.length === 0) {
+      toast({
+        title: "Historical Data Unavailable",
+        description: job.errorMessage
+          ? `The eCFR API's historical data service is experiencing issues (${job.errorMessage}). Please try again later or select a different title.`
+          : "No historical content was found for this title.",
+        variant: "destructive",
       });
-    }, 2000);
+    } else if (job.trends.length < job.dates.length) {
+      toast({
+        title: "Partial Data Retrieved",
+        description: `Only ${job.trends.length} of ${job.dates.length} dates could be fetched.${job.errorMessage ? ' The eCFR API may be experiencing issues.' : ''}`,
+      });
+    }
+  }, [job, toast]);
+
+  // Exports every stored result of the title, not only the years shown
+  const handleExport = (format: 'csv' | 'json') => {
+    if (!job) return;
+    const link = document.createElement('a');
+    link.href = `/api/historical/export?title=${job.titleNumber}&format=${format}`;
+    link.click();
+  };
+
+  const handleLoadTrends = async () => {
+    if (!selectedTitle) return;
 
+    setIsStarting(true);
     try {
-      const result = await refetch();
-      
-      // Check if we got any data back
-      if (!result.data || result.data.trends.length === 0) {
+      const response = await apiRequest('POST', '/api/historical/jobs', {
+        titleNumber: selectedTitle,
+        granularity,
+        from: range?.from ? toIsoDate(range.from) : undefined,
+        to: range?.to ? toIsoDate(range.to) : undefined,
+      });
+      const result: { jobId: string } = await response.json();
+      setJobId(result.jobId);
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith('400')) {
         toast({
-          title: "Historical Data Unavailable",
-          description: "The eCFR API's historical data service is experiencing issues. Please try again later or select a different title.",
+          title: "Invalid Date Range",
+          description: "Pick a range between January 1, 2017 and today that covers at most 120 dates.",
           variant: "destructive",
         });
-      } else if (result.data.trends.length < (currentYearValue - startYear + 1)) {
-        toast({
-          title: "Partial Data Retrieved",
-          description: `Only ${result.data.trends.length} of ${currentYearValue - startYear + 1} years could be fetched. The eCFR API may be experiencing issues.`,
-        });
+        return;
       }
-    } catch (error) {
       toast({
         title: "Failed to Load Historical Data",
-        description: "The eCFR API is not responding. This service may be temporarily unavailable.",
+        description: "The historical analysis could not be started. Please try again.",
         variant: "destructive",
       });
     } finally {
-      clearInterval(progressInterval);
-      setIsLoading(false);
-      setProcessingYear(null);
+      setIsStarting(false);
     }
   };
 
-  const trends = historicalData?.trends || [];
+  const trends = job?.trends || [];
+  // One point per year is labelled by year, finer granularities by date
+  const xAxisKey = new Set(trends.map(trend => trend.year)).size === trends.length ? 'year' : 'date';
   
   // Calculate growth rate with guards against division by zero
   const growthData = trends.map((trend, idx) => {
@@ -177,7 +204,7 @@ export default function HistoricalTrends() {
         <div className="max-w-7xl mx-auto px-6 py-12">
           <h1 className="text-4xl font-bold mb-2">Historical Trends</h1>
           <p className="text-lg text-muted-foreground">
-            View annual changes in CFR regulations over the last 5 years
+            View how CFR regulations changed over any period since 2017
           </p>
         </div>
       </div>
@@ -189,7 +216,7 @@ export default function HistoricalTrends() {
           <CardHeader>
             <CardTitle>Select CFR Title</CardTitle>
             <CardDescription>
-              Choose a title to view annual trends from the last 5 years. Processing time: 5-15 seconds for small titles, 1-2 minutes for Title 40.
+              Choose a title, a date range and how often to sample it (the last 5 years, yearly, by default). Each date is charted as soon as it is analyzed (5-15 seconds for small titles, 1-2 minutes for Title 40); dates analyzed before load instantly.
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -198,7 +225,7 @@ export default function HistoricalTrends() {
                 <Select
                   value={selectedTitle?.toString() || ""}
                   onValueChange={(value) => setSelectedTitle(parseInt(value))}
-                  disabled={isLoading}
+                  disabled={isRunning}
                 >
                   <SelectTrigger data-testid="select-title">
                     <SelectValue placeholder="Select a title..." />
@@ -212,30 +239,70 @@ export default function HistoricalTrends() {
                   </SelectContent>
                 </Select>
               </div>
+              <Select
+                value={granularity}
+                onValueChange={(value) => setGranularity(value as HistoricalGranularity)}
+                disabled={isRunning}
+              >
+                <SelectTrigger className="sm:w-36" data-testid="select-granularity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GRANULARITIES.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="sm:w-64 justify-start font-normal"
+                    disabled={isRunning}
+                    data-testid="button-date-range"
+                  >
+                    <CalendarIcon className="h-4 w-4 mr-2" />
+                    {range?.from
+                      ? `${format(range.from, 'MMM d, yyyy')} – ${range.to ? format(range.to, 'MMM d, yyyy') : 'today'}`
+                      : 'Pick a date range'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0" align="end">
+                  <Calendar
+                    mode="range"
+                    selected={range}
+                    onSelect={setRange}
+                    defaultMonth={range?.from}
+                    numberOfMonths={2}
+                    disabled={{ before: EARLIEST_SNAPSHOT_DATE, after: new Date() }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
               <Button
                 onClick={handleLoadTrends}
-                disabled={!selectedTitle || isLoading}
+                disabled={!selectedTitle || isRunning}
                 size="lg"
                 data-testid="button-load-trends"
               >
-                <TrendingUp className={`h-4 w-4 mr-2 ${isLoading ? 'animate-pulse' : ''}`} />
+                <TrendingUp className={`h-4 w-4 mr-2 ${isRunning ? 'animate-pulse' : ''}`} />
                 Load Trends
               </Button>
             </div>
 
             {/* Progress Indicator */}
-            {isLoading && processingYear && (
+            {isRunning && job && (
               <div className="mt-6 space-y-2" data-testid="progress-indicator">
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-muted-foreground">
-                    Processing year {processingYear}...
+                    {job.currentDate ? `Processing ${job.currentDate}...` : 'Waiting to start...'}
                   </span>
                   <span className="font-medium">
-                    {processingYear - startYear + 1} / {totalYears}
+                    {job.progressCurrent} / {job.dates.length}
                   </span>
                 </div>
                 <Progress 
-                  value={((processingYear - startYear + 1) / totalYears) * 100} 
+                  value={(job.progressCurrent / job.dates.length) * 100} 
                   className="h-2"
                 />
               </div>
@@ -244,7 +311,7 @@ export default function HistoricalTrends() {
         </Card>
 
         {/* Results */}
-        {isLoading ? (
+        {isRunning && trends.length === 0 ? (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <ChartSkeleton />
             <ChartSkeleton />
@@ -253,13 +320,20 @@ export default function HistoricalTrends() {
           </div>
         ) : trends.length > 0 ? (
           <>
-            <div className="mb-8">
-              <h2 className="text-2xl font-bold mb-2">
-                {historicalData?.titleName}
-              </h2>
-              <p className="text-muted-foreground">
-                Showing trends from {historicalData?.startYear} to {historicalData?.endYear} ({trends.length} data points)
-              </p>
+            <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold mb-2">
+                  {job?.titleName}
+                </h2>
+                <p className="text-muted-foreground">
+                  Showing trends from {job?.dates[0]} to {job?.dates[job.dates.length - 1]} ({trends.length} data points)
+                </p>
+              </div>
+              <ExportButtons
+                onExportCSV={() => handleExport('csv')}
+                onExportJSON={() => handleExport('json')}
+                disabled={isRunning}
+              />
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -273,7 +347,7 @@ export default function HistoricalTrends() {
                   <LineChart data={trends}>
                     <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                     <XAxis 
-                      dataKey="year" 
+                      dataKey={xAxisKey} 
                       className="text-xs"
                     />
                     <YAxis 
@@ -311,7 +385,7 @@ export default function HistoricalTrends() {
                   <LineChart data={trends}>
                     <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                     <XAxis 
-                      dataKey="year" 
+                      dataKey={xAxisKey} 
                       className="text-xs"
                     />
                     <YAxis 
@@ -349,7 +423,7 @@ export default function HistoricalTrends() {
                   <LineChart data={trends}>
                     <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                     <XAxis 
-                      dataKey="year" 
+                      dataKey={xAxisKey} 
                       className="text-xs"
                     />
                     <YAxis 
@@ -377,17 +451,17 @@ export default function HistoricalTrends() {
                 </ResponsiveContainer>
               </ChartCard>
 
-              {/* Annual Growth Rate */}
+              {/* Growth Rate */}
               <ChartCard
-                title="Annual Growth Rate"
-                description="Year-over-year percentage change"
+                title="Growth Rate"
+                description="Percentage change in word count from the previous date"
                 icon={BarChart3}
               >
                 <ResponsiveContainer width="100%" height={300}>
                   <LineChart data={growthData}>
                     <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
                     <XAxis 
-                      dataKey="year" 
+                      dataKey={xAxisKey} 
                       className="text-xs"
                     />
                     <YAxis 
@@ -426,6 +500,15 @@ export default function HistoricalTrends() {
             </CardContent>
           </Card>
         )}
+
+        {/* Entire CFR */}
+        <div className="mt-12">
+          <h2 className="text-2xl font-bold mb-2">Entire CFR</h2>
+          <p className="text-muted-foreground mb-6">
+            Yearly size and complexity of all titles, and which titles grew fastest
+          </p>
+          <CfrHistory />
+        </div>
       </div>
       <Footer />
     </div>
@@ -0,0 +1,156 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DataTable } from "@/components/data-table";
+import { Footer } from "@/components/footer";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useFetchProgress } from "@/hooks/use-fetch-progress";
+import { XCircle } from "lucide-react";
+import type { FetchJobReport, FetchTask, FetchTaskStatus } from "@shared/schema";
+
+const FINISHED_JOB_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+const TASK_STATUS_VARIANTS: Record<FetchTaskStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: 'outline',
+  running: 'default',
+  succeeded: 'secondary',
+  skipped: 'outline',
+  failed: 'destructive',
+};
+
+function formatTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function Job() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  // The progress stream invalidates this job's query whenever one of its titles starts or finishes
+  useFetchProgress();
+  const { data: job, isLoading, error } = useQuery<FetchJobReport>({
+    queryKey: ['/api/jobs', id],
+  });
+
+  const handleCancel = async () => {
+    setIsCancelling(true);
+    try {
+      await apiRequest('POST', `/api/jobs/${id}/cancel`);
+      await queryClient.invalidateQueries({ queryKey: ['/api/jobs', id] });
+      toast({
+        title: "Cancellation Requested",
+        description: "The job stops after the title currently being downloaded.",
+      });
+    } catch (error) {
+      toast({
+        title: "Cancel Failed",
+        description: "Failed to cancel the job. It may have already finished.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const isFinished = job ? FINISHED_JOB_STATUSES.includes(job.status) : true;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-gradient-to-b from-background to-muted/20">
+        <div className="max-w-7xl mx-auto px-6 py-12">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+            <div>
+              <h1 className="text-4xl font-bold mb-2">
+                {job?.kind === 'reanalyze' ? 'Re-analysis Job' : 'Fetch Job'}
+              </h1>
+              <p className="text-sm text-muted-foreground font-mono" data-testid="text-job-id">{id}</p>
+            </div>
+            {job && !isFinished && (
+              <Button
+                variant="destructive"
+                onClick={handleCancel}
+                disabled={isCancelling || job.cancelRequested}
+                data-testid="button-cancel-job"
+              >
+                <XCircle className="h-4 w-4 mr-2" />
+                {job.cancelRequested ? 'Cancelling...' : 'Cancel Job'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-12 space-y-6">
+        {isLoading ? (
+          <div className="text-center py-12 text-muted-foreground">Loading job...</div>
+        ) : error || !job ? (
+          <div className="text-center py-12 text-muted-foreground" data-testid="text-job-not-found">
+            Job not found.
+          </div>
+        ) : (
+          <>
+            <Card className="p-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-6 text-sm">
+                <div>
+                  <div className="text-muted-foreground mb-1">Status</div>
+                  <Badge data-testid="badge-job-status">{job.status}</Badge>
+                </div>
+                <div>
+                  <div className="text-muted-foreground mb-1">Created</div>
+                  <div>{formatTime(job.createdAt)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground mb-1">Started</div>
+                  <div>{formatTime(job.startedAt)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground mb-1">Finished</div>
+                  <div>{formatTime(job.finishedAt)}</div>
+                </div>
+              </div>
+              {job.errorMessage && (
+                <p className="mt-4 text-sm text-destructive" data-testid="text-job-error">{job.errorMessage}</p>
+              )}
+              <div className="mt-4 flex flex-wrap gap-2">
+                {(Object.keys(job.summary) as FetchTaskStatus[]).map(status => (
+                  <Badge key={status} variant={TASK_STATUS_VARIANTS[status]} data-testid={`badge-summary-${status}`}>
+                    {status}: {job.summary[status]}
+                  </Badge>
+                ))}
+              </div>
+            </Card>
+
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4">Titles</h2>
+              <DataTable<FetchTask>
+                testId="table-job-tasks"
+                data={job.tasks}
+                columns={[
+                  { header: 'Title', accessor: 'titleNumber', sortable: true, mono: true },
+                  { header: 'Name', accessor: 'titleName', sortable: true },
+                  { header: 'Issue Date', accessor: 'issueDate', sortable: true, mono: true },
+                  {
+                    header: 'Status',
+                    accessor: (task) => (
+                      <Badge variant={TASK_STATUS_VARIANTS[task.status as FetchTaskStatus]}>{task.status}</Badge>
+                    ),
+                  },
+                  { header: 'Reason', accessor: (task) => task.reason || '' },
+                  { header: 'Sections', accessor: (task) => task.sectionCount?.toLocaleString() ?? '', mono: true },
+                  { header: 'Words', accessor: (task) => task.wordCount?.toLocaleString() ?? '', mono: true },
+                ]}
+              />
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
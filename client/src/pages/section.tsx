@@ -0,0 +1,133 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/data-table";
+import { MetricCard } from "@/components/metric-card";
+import { MetricSkeleton } from "@/components/loading-skeleton";
+import { Footer } from "@/components/footer";
+import { ArrowLeft, BookOpen, Gavel, GraduationCap, Hash } from "lucide-react";
+import type { Citation, ReadabilityScores, Regulation } from "@shared/schema";
+
+// A section of another title, or of the same, that has a detail page
+function sectionLink(titleNumber: number, section: string, label: string) {
+  return (
+    <Link
+      href={`/section/${titleNumber}/${encodeURIComponent(section)}`}
+      className="font-mono text-primary hover:underline"
+    >
+      {label}
+    </Link>
+  );
+}
+
+export default function Section() {
+  const { title, identifier } = useParams<{ title: string; identifier: string }>();
+  const section = decodeURIComponent(identifier);
+
+  const { data: node, isLoading, error } = useQuery<Regulation & ReadabilityScores>({
+    queryKey: ['/api/title', title, 'nodes/section', encodeURIComponent(section)],
+  });
+  const { data: outbound } = useQuery<Citation[]>({
+    queryKey: ['/api/citations/outbound', title, encodeURIComponent(section)],
+  });
+  const { data: inbound } = useQuery<Citation[]>({
+    queryKey: ['/api/citations/inbound', title, encodeURIComponent(section)],
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <div className="border-b bg-gradient-to-b from-background to-muted/20">
+        <div className="max-w-7xl mx-auto px-6 py-12">
+          <Link href="/citations">
+            <Button variant="ghost" size="sm" className="mb-4" data-testid="link-back-citations">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Citation Network
+            </Button>
+          </Link>
+          <h1 className="text-4xl font-bold mb-2 font-mono" data-testid="text-section-label">
+            {title} CFR {section}
+          </h1>
+          <p className="text-lg text-muted-foreground">
+            {node?.heading ?? (node?.part ? `Part ${node.part}` : '')}
+          </p>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-6 py-12 space-y-8">
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {Array.from({ length: 4 }).map((_, index) => <MetricSkeleton key={index} />)}
+          </div>
+        ) : error || !node ? (
+          <Card className="p-6 text-sm text-muted-foreground" data-testid="text-section-missing">
+            {error?.message.startsWith('404')
+              ? 'This section is not in the stored data. It may be reserved, removed or in a title that was not fetched.'
+              : 'Failed to load the section. Please try again later.'}
+          </Card>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+              <MetricCard title="Words" value={node.wordCount.toLocaleString()} icon={Hash} color="border-t-chart-1" />
+              <MetricCard title="Sentences" value={node.sentenceCount.toLocaleString()} icon={BookOpen} color="border-t-chart-2" />
+              <MetricCard title="Restrictions" value={node.restrictionCount.toLocaleString()} icon={Gavel} color="border-t-chart-3" />
+              <MetricCard
+                title="Flesch-Kincaid Grade"
+                value={node.fleschKincaidGrade.toFixed(1)}
+                icon={GraduationCap}
+                color="border-t-chart-4"
+              />
+            </div>
+
+            <Card className="p-6">
+              <h3 className="text-lg font-semibold mb-4">Text</h3>
+              <p className="text-sm leading-relaxed whitespace-pre-wrap" data-testid="text-section-content">
+                {node.textContent}
+              </p>
+            </Card>
+          </>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-1">Cites</h3>
+            <p className="text-sm text-muted-foreground mb-4">References in the text of this section</p>
+            <DataTable<Citation>
+              testId="table-outbound-citations"
+              data={outbound ?? []}
+              columns={[
+                {
+                  header: 'Target',
+                  accessor: (citation) => citation.targetKind === 'cfr' && citation.targetSection
+                    ? sectionLink(citation.targetTitle, citation.targetSection, citation.targetLabel)
+                    : <span className="font-mono">{citation.targetLabel}</span>,
+                },
+                { header: 'Count', accessor: 'count', sortable: true, mono: true },
+              ]}
+            />
+          </Card>
+
+          <Card className="p-6">
+            <h3 className="text-lg font-semibold mb-1">Cited By</h3>
+            <p className="text-sm text-muted-foreground mb-4">Sections, appendices and parts that reference this section</p>
+            <DataTable<Citation>
+              testId="table-inbound-citations"
+              data={inbound ?? []}
+              columns={[
+                {
+                  header: 'Source',
+                  accessor: (citation) => citation.sourceType === 'section'
+                    ? sectionLink(citation.titleNumber, citation.sourceIdentifier, `${citation.titleNumber} CFR ${citation.sourceIdentifier}`)
+                    : <span className="font-mono">{citation.titleNumber} CFR {citation.sourceType} {citation.sourceIdentifier}</span>,
+                },
+                { header: 'Count', accessor: 'count', sortable: true, mono: true },
+              ]}
+            />
+          </Card>
+        </div>
+      </div>
+      <Footer />
+    </div>
+  );
+}
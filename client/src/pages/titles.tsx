@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useState, useEffect } from "react";
+import { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -7,9 +7,10 @@ import { Badge } from "@/components/ui/badge";
 import { RefreshCw, CheckSquare, Square } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Progress } from "@/components/ui/progress";
+import { useFetchProgress } from "@/hooks/use-fetch-progress";
+import { FetchProgressIndicator } from "@/components/fetch-progress";
 import { Footer } from "@/components/footer";
-import type { FetchMetadata, AgencyAnalysis } from "@shared/schema";
+import type { TitleVersion } from "@shared/schema";
 
 interface CFRTitle {
   number: number;
@@ -21,62 +22,37 @@ interface CFRTitle {
 export default function Titles() {
   const { toast } = useToast();
   const [selectedTitles, setSelectedTitles] = useState<Set<number>>(new Set());
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [forceRefresh, setForceRefresh] = useState(false);
 
-  const { data: agencies = [] } = useQuery<AgencyAnalysis[]>({
-    queryKey: ['/api/analysis/agencies'],
-  });
-
-  const { data: metadata } = useQuery<FetchMetadata>({
-    queryKey: ['/api/metadata'],
+  const { data: storedTitles = [] } = useQuery<TitleVersion[]>({
+    queryKey: ['/api/stored-titles'],
   });
 
+  // Served by our backend from the configured eCFR source (live API or local mirror)
   const { data: allTitles = [], isLoading } = useQuery<CFRTitle[]>({
     queryKey: ['/api/ecfr/titles'],
-    queryFn: async () => {
-      const response = await fetch('https://www.ecfr.gov/api/versioner/v1/titles');
-      if (!response.ok) throw new Error('Failed to fetch titles');
-      const data = await response.json();
-      return data.titles || [];
-    },
   });
 
-  // Poll for progress updates when refreshing
-  useEffect(() => {
-    if (!isRefreshing) return;
-
-    const pollInterval = setInterval(async () => {
-      await queryClient.invalidateQueries({ queryKey: ['/api/metadata'] });
-      const currentMetadata = queryClient.getQueryData<FetchMetadata>(['/api/metadata']);
-      
-      if (currentMetadata?.status === 'success' || currentMetadata?.status === 'error') {
-        setIsRefreshing(false);
-        // Invalidate all relevant queries to ensure all pages show updated data
-        await Promise.all([
-          queryClient.invalidateQueries({ queryKey: ['/api/analysis/agencies'] }),
-          queryClient.invalidateQueries({ queryKey: ['/api/analysis/wordcount'] }),
-          queryClient.invalidateQueries({ queryKey: ['/api/analysis/checksums'] }),
-        ]);
-        
-        if (currentMetadata.status === 'success') {
-          toast({
-            title: "Titles Refreshed",
-            description: `Successfully refreshed ${selectedTitles.size} title(s).`,
-          });
-          setSelectedTitles(new Set());
-        } else {
-          toast({
-            title: "Refresh Failed",
-            description: currentMetadata.errorMessage || "An error occurred during fetch.",
-            variant: "destructive",
-          });
-        }
-        clearInterval(pollInterval);
+  // Progress is pushed by the server; all pages' queries are refreshed when the job finishes
+  const progress = useFetchProgress({
+    onFinished: (event) => {
+      if (event.status === 'succeeded') {
+        toast({
+          title: "Titles Refreshed",
+          description: `Successfully refreshed ${selectedTitles.size} title(s).`,
+        });
+        setSelectedTitles(new Set());
+      } else {
+        toast({
+          title: "Refresh Failed",
+          description: event.errorMessage || "An error occurred during fetch.",
+          variant: "destructive",
+        });
       }
-    }, 2000);
-
-    return () => clearInterval(pollInterval);
-  }, [isRefreshing, selectedTitles.size, toast]);
+    },
+  });
+  const isRefreshing = isStarting || progress.jobId !== null;
 
   const handleToggleTitle = (titleNumber: number) => {
     const newSelected = new Set(selectedTitles);
@@ -107,27 +83,39 @@ export default function Titles() {
       return;
     }
 
-    setIsRefreshing(true);
+    setIsStarting(true);
     try {
       await apiRequest('POST', '/api/fetch', {
         titleNumbers: Array.from(selectedTitles),
+        force: forceRefresh,
       });
       toast({
         title: "Refresh Started",
-        description: `Refreshing ${selectedTitles.size} selected title(s). This may take a few minutes.`,
+        description: forceRefresh
+          ? `Re-downloading ${selectedTitles.size} selected title(s). This may take a few minutes.`
+          : `Refreshing ${selectedTitles.size} selected title(s). Titles with an unchanged issue date are skipped.`,
       });
     } catch (error) {
-      setIsRefreshing(false);
+      // 409: another refresh holds the fetch lock; the progress area links to it
+      if (error instanceof Error && error.message.startsWith('409')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/fetch/lock'] });
+        toast({
+          title: "Refresh Already Running",
+          description: "Another refresh is in progress. Follow it from the running job page.",
+        });
+        return;
+      }
       toast({
         title: "Refresh Failed",
         description: "Failed to start title refresh. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsStarting(false);
     }
   };
 
-  // Map agency names to loaded titles
-  const loadedTitleNames = new Set(agencies.map(a => a.agency));
+  const storedIssueDates = new Map(storedTitles.map(t => [t.titleNumber, t.issueDate]));
 
   const validTitles = allTitles.filter(t => !t.reserved);
 
@@ -143,7 +131,16 @@ export default function Titles() {
                 Select specific titles to refresh from the eCFR database
               </p>
             </div>
-            <div className="flex gap-2">
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-2 text-sm text-muted-foreground mr-2">
+                <Checkbox
+                  checked={forceRefresh}
+                  onCheckedChange={(checked) => setForceRefresh(checked === true)}
+                  disabled={isRefreshing}
+                  data-testid="checkbox-force-refresh"
+                />
+                Force re-download
+              </label>
               <Button
                 variant="outline"
                 onClick={handleSelectAll}
@@ -174,22 +171,7 @@ export default function Titles() {
           </div>
 
           {/* Progress Indicator */}
-          {metadata?.status === 'in_progress' && metadata.progressTotal && metadata.progressTotal > 0 && (
-            <div className="mt-6 space-y-2" data-testid="progress-indicator">
-              <div className="flex items-center justify-between text-sm">
-                <span className="text-muted-foreground">
-                  {metadata.currentTitle || 'Loading...'}
-                </span>
-                <span className="font-medium">
-                  {metadata.progressCurrent || 0} / {metadata.progressTotal}
-                </span>
-              </div>
-              <Progress 
-                value={((metadata.progressCurrent || 0) / metadata.progressTotal) * 100} 
-                className="h-2"
-              />
-            </div>
-          )}
+          <FetchProgressIndicator progress={progress} />
         </div>
       </div>
 
@@ -198,19 +180,21 @@ export default function Titles() {
         <Card className="p-6">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-xl font-semibold">
-              Available Titles ({validTitles.length} total, {loadedTitleNames.size} loaded)
+              Available Titles ({validTitles.length} total, {storedIssueDates.size} loaded)
             </h2>
           </div>
 
           {isLoading ? (
             <div className="text-center py-12 text-muted-foreground">
-              Loading titles from eCFR API...
+              Loading titles from eCFR...
             </div>
           ) : (
             <div className="space-y-2">
               {validTitles.map((title) => {
-                const isLoaded = loadedTitleNames.has(title.name);
+                const isLoaded = storedIssueDates.has(title.number);
                 const isSelected = selectedTitles.has(title.number);
+                const storedIssueDate = storedIssueDates.get(title.number);
+                const hasUpdate = storedIssueDate !== undefined && storedIssueDate !== title.latest_issue_date;
 
                 return (
                   <div
@@ -233,9 +217,15 @@ export default function Titles() {
                             Loaded
                           </Badge>
                         )}
+                        {hasUpdate && (
+                          <Badge variant="outline" data-testid={`badge-update-${title.number}`}>
+                            Update available
+                          </Badge>
+                        )}
                       </div>
                       <div className="text-sm text-muted-foreground mt-1">
                         Latest issue: {new Date(title.latest_issue_date).toLocaleDateString()}
+                        {storedIssueDate && ` · Stored issue: ${new Date(storedIssueDate).toLocaleDateString()}`}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,110 @@
+import { storage } from "./storage";
+import { ecfrSource, type ECFRAgency } from "./ecfr-source";
+import { calculateRCI } from "./ecfr-service";
+import { calculateReadability } from "./readability";
+import { restrictionsPerThousandWords } from "./restrictions";
+import { buildAgencyContents, type AgencyContentEntry } from "./agency-content";
+import type { Agency, AgencyAnalysis, InsertAgency, InsertAgencyReference } from "@shared/schema";
+
+/**
+ * Downloads the eCFR agencies catalog (agencies, child agencies and the titles, chapters and
+ * parts they are responsible for) and replaces the stored one. An empty catalog is not stored,
+ * so a broken response keeps the previous agencies
+ */
+export async function syncAgencies(): Promise<{ agencyCount: number; referenceCount: number }> {
+  const catalog = await ecfrSource.getAgencies();
+  const rows: InsertAgency[] = [];
+  const references: InsertAgencyReference[] = [];
+  const seen = new Set<string>();
+
+  const visit = (agency: ECFRAgency, parentSlug: string | null) => {
+    // An agency listed twice keeps its first position in the hierarchy
+    if (!agency.slug || seen.has(agency.slug)) return;
+    seen.add(agency.slug);
+    rows.push({
+      slug: agency.slug,
+      name: agency.name,
+      shortName: agency.short_name || null,
+      displayName: agency.display_name || null,
+      sortableName: agency.sortable_name || null,
+      parentSlug,
+    });
+    for (const reference of agency.cfr_references ?? []) {
+      if (!reference.title) continue;
+      references.push({
+        agencySlug: agency.slug,
+        titleNumber: reference.title,
+        subtitle: reference.subtitle || null,
+        chapter: reference.chapter || null,
+        subchapter: reference.subchapter || null,
+        part: reference.part || null,
+      });
+    }
+    for (const child of agency.children ?? []) {
+      visit(child, agency.slug);
+    }
+  };
+  for (const agency of catalog) {
+    visit(agency, null);
+  }
+
+  if (rows.length === 0) {
+    console.log("eCFR returned no agencies; keeping the stored catalog");
+    return { agencyCount: 0, referenceCount: 0 };
+  }
+  await storage.replaceAgencies(rows, references);
+  console.log(`Synced ${rows.length} agencies with ${references.length} CFR references`);
+  return { agencyCount: rows.length, referenceCount: references.length };
+}
+
+/**
+ * Metrics of each agency over the titles, chapters and parts it and its sub-agencies are
+ * responsible for in the current snapshot, ordered by sortable name. Agencies without content
+ * in their whole subtree are left out
+ */
+export async function getAgencyAnalysis(): Promise<AgencyAnalysis[]> {
+  return (await getAgencyContents()).map(({ agency, own, content, childCount }) => {
+    const avgSentenceLength = content.sentenceCount > 0 ? content.wordCount / content.sentenceCount : 0;
+    const vocabularyDiversity = content.uniqueWords / content.wordCount;
+    return {
+      agency: agency.name,
+      slug: agency.slug,
+      shortName: agency.shortName,
+      parentSlug: agency.parentSlug,
+      childCount,
+      titleNumbers: content.titleNumbers,
+      ownWordCount: own.wordCount,
+      totalWordCount: content.wordCount,
+      averageWordCount: content.sectionCount > 0 ? content.wordCount / content.sectionCount : content.wordCount,
+      regulationCount: content.sectionCount,
+      partCount: content.partCount,
+      checksum: content.checksum,
+      rci: calculateRCI(avgSentenceLength, vocabularyDiversity),
+      avgSentenceLength,
+      vocabularyDiversity,
+      restrictionCount: content.restrictionCount,
+      restrictionsPerThousandWords: restrictionsPerThousandWords(content.restrictionCount, content.wordCount),
+      ...calculateReadability(content),
+    };
+  });
+}
+
+/**
+ * Combined checksum of each agency's content (sub-agencies included) and when it was last stored
+ */
+export async function getAgencyChecksums(): Promise<{ agency: string; checksum: string; lastUpdated: string }[]> {
+  return (await getAgencyContents()).map(({ agency, content }) => ({
+    agency: agency.name,
+    checksum: content.checksum,
+    lastUpdated: content.lastUpdated.toISOString(),
+  }));
+}
+
+// Agencies with their own and rolled-up content in the current snapshot
+async function getAgencyContents(): Promise<AgencyContentEntry[]> {
+  const [agencies, nodes] = await Promise.all([
+    storage.getAgencies(),
+    storage.getAgencyReferencedNodes(),
+  ]);
+  return buildAgencyContents(agencies, nodes);
+}
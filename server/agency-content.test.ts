@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildAgencyContents } from "./agency-content";
+import type { AgencyReferencedNode } from "./storage";
+import type { Agency } from "@shared/schema";
+
+function agency(slug: string, parentSlug: string | null = null): Agency {
+  return {
+    slug,
+    name: slug,
+    shortName: null,
+    displayName: null,
+    sortableName: null,
+    parentSlug,
+    syncedAt: new Date("2024-01-01"),
+  };
+}
+
+function node(slug: string, regulationId: string, path: string, wordCount: number, sectionCount: number): AgencyReferencedNode {
+  return {
+    slug,
+    regulationId,
+    titleNumber: 40,
+    path,
+    wordCount,
+    sentenceCount: wordCount / 10,
+    uniqueWords: wordCount / 2,
+    syllableCount: wordCount * 2,
+    polysyllableCount: 0,
+    letterCount: wordCount * 5,
+    restrictionCount: 1,
+    sectionCount,
+    partCount: path.includes('part:') ? 1 : 2,
+    checksum: regulationId,
+    createdAt: new Date("2024-01-15"),
+  };
+}
+
+test("buildAgencyContents counts a sub-agency's part within its department's chapter once", () => {
+  const contents = buildAgencyContents(
+    [agency("department"), agency("office", "department")],
+    [
+      node("department", "chapter-I", "chapter:I", 1000, 20),
+      node("office", "part-60", "chapter:I/subchap:C/part:60", 300, 5),
+    ],
+  );
+  const bySlug = new Map(contents.map(entry => [entry.agency.slug, entry]));
+
+  const department = bySlug.get("department")!;
+  assert.equal(department.content.wordCount, 1000);
+  assert.equal(department.content.sectionCount, 20);
+  assert.equal(department.content.restrictionCount, 1);
+  assert.equal(department.content.partCount, 2);
+  assert.equal(department.own.wordCount, 1000);
+  assert.equal(department.childCount, 1);
+  assert.equal(bySlug.get("office")!.content.wordCount, 300);
+});
+
+test("buildAgencyContents counts an agency's part within its own chapter once", () => {
+  const [entry] = buildAgencyContents(
+    [agency("agency")],
+    [
+      node("agency", "chapter-I", "chapter:I", 1000, 20),
+      node("agency", "part-60", "chapter:I/part:60", 300, 5),
+      // A sibling chapter whose identifier starts the same is not nested
+      node("agency", "chapter-II", "chapter:II", 50, 1),
+    ],
+  );
+  assert.equal(entry.own.wordCount, 1050);
+  assert.equal(entry.content.wordCount, 1050);
+  assert.equal(entry.content.sectionCount, 21);
+});
+
+test("buildAgencyContents lets a whole title cover every node of that title only", () => {
+  const [entry] = buildAgencyContents(
+    [agency("agency")],
+    [
+      node("agency", "title-40", "", 5000, 100),
+      node("agency", "chapter-I", "chapter:I", 1000, 20),
+      { ...node("agency", "title-41-part-1", "chapter:1/part:1", 70, 3), titleNumber: 41 },
+    ],
+  );
+  assert.equal(entry.content.wordCount, 5070);
+  assert.deepEqual(entry.content.titleNumbers, [40, 41]);
+});
+
+test("buildAgencyContents counts a node referenced by a department and its sub-agency once", () => {
+  const contents = buildAgencyContents(
+    [agency("department"), agency("office", "department")],
+    [
+      node("department", "part-60", "chapter:I/part:60", 300, 5),
+      node("office", "part-60", "chapter:I/part:60", 300, 5),
+    ],
+  );
+  assert.equal(contents.find(entry => entry.agency.slug === "department")!.content.wordCount, 300);
+});
@@ -0,0 +1,110 @@
+import { calculateChecksum } from "./ecfr-service";
+import type { AgencyReferencedNode } from "./storage";
+import type { Agency } from "@shared/schema";
+
+export interface AgencyContent {
+  wordCount: number;
+  sentenceCount: number;
+  uniqueWords: number;
+  syllableCount: number;
+  polysyllableCount: number;
+  letterCount: number;
+  restrictionCount: number;
+  sectionCount: number;
+  partCount: number;
+  checksum: string;
+  titleNumbers: number[];
+  lastUpdated: Date;
+}
+
+export interface AgencyContentEntry {
+  agency: Agency;
+  own: AgencyContent; // the agency's own references
+  content: AgencyContent; // rolled up over the agency and its sub-agencies
+  childCount: number;
+}
+
+/**
+ * Own and rolled-up content of each agency that has content in its subtree. Each CFR node is
+ * counted once: a node referenced twice, or nested in another referenced node (a sub-agency's
+ * part within its department's chapter, or a chapter and one of its parts), only counts through
+ * the outermost one
+ */
+export function buildAgencyContents(agencies: Agency[], nodes: AgencyReferencedNode[]): AgencyContentEntry[] {
+  const nodesBySlug = new Map<string, AgencyReferencedNode[]>();
+  for (const node of nodes) {
+    nodesBySlug.set(node.slug, [...(nodesBySlug.get(node.slug) ?? []), node]);
+  }
+  const childrenBySlug = new Map<string, Agency[]>();
+  for (const agency of agencies) {
+    if (!agency.parentSlug) continue;
+    childrenBySlug.set(agency.parentSlug, [...(childrenBySlug.get(agency.parentSlug) ?? []), agency]);
+  }
+
+  // Nodes of an agency and all of its descendants
+  const subtreeNodes = (agency: Agency, visited = new Set<string>()): AgencyReferencedNode[] => {
+    if (visited.has(agency.slug)) return []; // guards against a cyclic catalog
+    visited.add(agency.slug);
+    return [
+      ...(nodesBySlug.get(agency.slug) ?? []),
+      ...(childrenBySlug.get(agency.slug) ?? []).flatMap(child => subtreeNodes(child, visited)),
+    ];
+  };
+
+  const entries = new Map<string, AgencyContentEntry>();
+  for (const agency of agencies) {
+    const content = summarize(outermostNodes(subtreeNodes(agency)));
+    if (content.wordCount === 0) continue;
+    entries.set(agency.slug, {
+      agency,
+      own: summarize(outermostNodes(nodesBySlug.get(agency.slug) ?? [])),
+      content,
+      childCount: 0,
+    });
+  }
+  for (const entry of Array.from(entries.values())) {
+    const parent = entry.agency.parentSlug ? entries.get(entry.agency.parentSlug) : undefined;
+    if (parent) parent.childCount++;
+  }
+  return Array.from(entries.values());
+}
+
+// Drops repeated nodes and nodes within another of the given nodes (whose metrics already cover them)
+function outermostNodes(nodes: AgencyReferencedNode[]): AgencyReferencedNode[] {
+  const unique = new Map(nodes.map(node => [node.regulationId, node]));
+  const pathsByTitle = new Map<number, string[]>();
+  for (const node of Array.from(unique.values())) {
+    pathsByTitle.set(node.titleNumber, [...(pathsByTitle.get(node.titleNumber) ?? []), node.path]);
+  }
+  return Array.from(unique.values()).filter(node =>
+    !pathsByTitle.get(node.titleNumber)!.some(path => path !== node.path && isAncestorPath(path, node.path)),
+  );
+}
+
+// The title node has the empty path and contains every other node of the title
+function isAncestorPath(ancestor: string, path: string): boolean {
+  return ancestor === '' || path.startsWith(`${ancestor}/`);
+}
+
+type SummedField =
+  | 'wordCount' | 'sentenceCount' | 'uniqueWords' | 'syllableCount' | 'polysyllableCount' | 'letterCount'
+  | 'restrictionCount' | 'sectionCount' | 'partCount';
+
+function summarize(nodes: AgencyReferencedNode[]): AgencyContent {
+  const sum = (field: SummedField) => nodes.reduce((total, node) => total + node[field], 0);
+  return {
+    wordCount: sum('wordCount'),
+    sentenceCount: sum('sentenceCount'),
+    uniqueWords: sum('uniqueWords'),
+    syllableCount: sum('syllableCount'),
+    polysyllableCount: sum('polysyllableCount'),
+    letterCount: sum('letterCount'),
+    restrictionCount: sum('restrictionCount'),
+    sectionCount: sum('sectionCount'),
+    partCount: sum('partCount'),
+    // Combined from the node checksums (not from truncated text)
+    checksum: calculateChecksum(nodes.map(node => node.checksum).sort().join('')),
+    titleNumbers: Array.from(new Set(nodes.map(node => node.titleNumber))).sort((a, b) => a - b),
+    lastUpdated: new Date(Math.max(0, ...nodes.map(node => new Date(node.createdAt).getTime()))),
+  };
+}
@@ -0,0 +1,100 @@
+import { storage, type AmendmentScope } from "./storage";
+import { ecfrSource, type ECFRVersion } from "./ecfr-source";
+import type { AmendmentSummary, InsertAmendment, PartVolatility } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Parts listed in an amendment summary
+export const DEFAULT_VOLATILE_PART_LIMIT = 20;
+
+export interface AmendmentSyncOptions {
+  // Re-sync titles even when their issue date is unchanged
+  force?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Downloads the amendment history (eCFR versions API) of the given titles and replaces the stored
+ * one. Titles already synced for their issue date are skipped. A failing title is logged and left
+ * as it was; the others are still synced
+ */
+export async function syncAmendments(
+  titles: { titleNumber: number; issueDate: string }[],
+  { force = false, signal }: AmendmentSyncOptions = {},
+): Promise<{ synced: number; failed: number }> {
+  const syncedIssueDates = new Map(
+    (await storage.getAmendmentSyncs()).map(sync => [sync.titleNumber, sync.issueDate]),
+  );
+  let synced = 0;
+  let failed = 0;
+
+  for (const { titleNumber, issueDate } of titles) {
+    if (signal?.aborted) break;
+    if (!force && syncedIssueDates.get(titleNumber) === issueDate) continue;
+
+    try {
+      const versions = await ecfrSource.getVersions(titleNumber);
+      const rows = toAmendmentRows(titleNumber, versions);
+      await storage.replaceTitleAmendments(titleNumber, issueDate, rows);
+      console.log(`Synced ${rows.length} amendments of title ${titleNumber}`);
+      synced++;
+    } catch (error) {
+      console.error(`Error syncing amendments of title ${titleNumber}:`, error);
+      failed++;
+    }
+  }
+  return { synced, failed };
+}
+
+// Versions without a part (e.g. title-level entries) cannot be attributed and are dropped
+function toAmendmentRows(titleNumber: number, versions: ECFRVersion[]): InsertAmendment[] {
+  return versions
+    .filter(version => version.part && version.identifier && version.date)
+    .map(version => ({
+      titleNumber,
+      identifier: version.identifier,
+      nodeType: version.type,
+      name: version.name || null,
+      part: version.part,
+      subpart: version.subpart,
+      date: version.date,
+      amendmentDate: version.amendment_date || null,
+      issueDate: version.issue_date || null,
+      substantive: version.substantive !== false,
+      removed: version.removed === true,
+    }));
+}
+
+/**
+ * Amendment events per year, recency of the last change and the most amended parts of a title,
+ * an agency or (with an empty scope) the whole CFR
+ */
+export async function getAmendmentSummary(
+  scope: AmendmentScope,
+  limit = DEFAULT_VOLATILE_PART_LIMIT,
+  today = new Date(),
+): Promise<AmendmentSummary> {
+  const [perYear, partStats, lastAmendedOn] = await Promise.all([
+    storage.getAmendmentsPerYear(scope),
+    storage.getPartAmendmentStats(scope, limit),
+    storage.getLastAmendmentDate(scope),
+  ]);
+
+  const volatileParts: PartVolatility[] = partStats.map(part => ({
+    ...part,
+    daysSinceLastChange: daysSince(part.lastAmendedOn, today),
+  }));
+
+  return {
+    amendmentCount: perYear.reduce((sum, year) => sum + year.count, 0),
+    perYear,
+    lastAmendedOn,
+    daysSinceLastChange: lastAmendedOn ? daysSince(lastAmendedOn, today) : null,
+    volatileParts,
+  };
+}
+
+// Whole days from a YYYY-MM-DD date to today
+function daysSince(date: string, today: Date): number {
+  const start = new Date(`${date}T00:00:00Z`).getTime();
+  return Math.max(0, Math.floor((today.getTime() - start) / DAY_MS));
+}
@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildBrokenCitationReport } from "./broken-citations";
+import type { BrokenCitationRow } from "./storage";
+
+function row(citationId: string, agency: string | null, targetSection: string, reason: BrokenCitationRow['reason']): BrokenCitationRow {
+  return {
+    citationId,
+    agency,
+    titleNumber: 40,
+    sourceType: 'section',
+    sourceIdentifier: '60.1',
+    sourcePart: '60',
+    targetLabel: `40 CFR ${targetSection}`,
+    targetTitle: 40,
+    targetSection,
+    reason,
+    count: 1,
+  };
+}
+
+test("buildBrokenCitationReport groups citations by agency, most broken first", () => {
+  const report = buildBrokenCitationReport("snapshot-1", [
+    row("a", "Department of Labor", "1910.9", 'missing'),
+    row("b", "Environmental Protection Agency", "60.8", 'reserved'),
+    row("c", "Environmental Protection Agency", "60.99", 'missing'),
+    row("d", null, "61.5", 'missing'),
+  ]);
+
+  assert.deepEqual(report.agencies.map(group => [group.agency, group.missingCount, group.reservedCount]), [
+    ["Environmental Protection Agency", 1, 1],
+    ["Department of Labor", 1, 0],
+    [null, 1, 0],
+  ]);
+  assert.equal(report.agencies[0].citations[0].targetLabel, "40 CFR 60.8");
+  assert.equal("citationId" in report.agencies[0].citations[0], false);
+});
+
+test("buildBrokenCitationReport counts a citation shared by agencies once", () => {
+  const report = buildBrokenCitationReport("snapshot-1", [
+    row("a", "Department of Labor", "1910.9", 'missing'),
+    row("a", "Occupational Safety and Health Administration", "1910.9", 'missing'),
+    row("b", "Department of Labor", "1910.8", 'reserved'),
+  ]);
+
+  assert.equal(report.agencies.length, 2);
+  assert.equal(report.missingCount, 1);
+  assert.equal(report.reservedCount, 1);
+});
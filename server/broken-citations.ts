@@ -0,0 +1,39 @@
+import type { BrokenCitationRow } from "./storage";
+import type { BrokenCitation, BrokenCitationGroup, BrokenCitationReport } from "@shared/schema";
+
+/**
+ * Groups broken citations by the agency responsible for the citing node, most broken citations
+ * first and citations of no agency last. A citation shared by several agencies is listed under
+ * each of them but counted once in the report totals
+ */
+export function buildBrokenCitationReport(snapshotId: string | null, rows: BrokenCitationRow[]): BrokenCitationReport {
+  const groups = new Map<string | null, BrokenCitationGroup>();
+  const reasons = new Map<string, BrokenCitation['reason']>();
+
+  for (const { citationId, ...citation } of rows) {
+    reasons.set(citationId, citation.reason);
+    let group = groups.get(citation.agency);
+    if (!group) {
+      group = { agency: citation.agency, missingCount: 0, reservedCount: 0, citations: [] };
+      groups.set(citation.agency, group);
+    }
+    group.citations.push(citation);
+    if (citation.reason === 'reserved') {
+      group.reservedCount++;
+    } else {
+      group.missingCount++;
+    }
+  }
+
+  const reasonValues = Array.from(reasons.values());
+  return {
+    snapshotId,
+    missingCount: reasonValues.filter(reason => reason === 'missing').length,
+    reservedCount: reasonValues.filter(reason => reason === 'reserved').length,
+    agencies: Array.from(groups.values()).sort((a, b) =>
+      (a.agency === null ? 1 : 0) - (b.agency === null ? 1 : 0)
+      || (b.missingCount + b.reservedCount) - (a.missingCount + a.reservedCount)
+      || (a.agency ?? '').localeCompare(b.agency ?? ''),
+    ),
+  };
+}
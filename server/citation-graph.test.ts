@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildCitationGraph } from "./citation-graph";
+import type { CitationEdgeRow } from "./storage";
+
+function partEdge(sourceTitle: number, sourcePart: string, targetTitle: number, targetPart: string, weight: number): CitationEdgeRow {
+  return { sourceTitle, sourcePart, sourceSection: null, targetTitle, targetPart, targetSection: null, weight };
+}
+
+test("buildCitationGraph collects the nodes of part edges, clustered by title", () => {
+  const graph = buildCitationGraph('part', [
+    partEdge(40, "60", 40, "63", 5),
+    partEdge(40, "63", 40, "60", 2),
+    partEdge(40, "60", 29, "1910", 1),
+  ], 10);
+
+  assert.deepEqual(graph.nodes.map(node => [node.id, node.cluster, node.inboundCount, node.outboundCount]), [
+    ["40 CFR part 60", "Title 40", 2, 6],
+    ["40 CFR part 63", "Title 40", 5, 2],
+    ["29 CFR part 1910", "Title 29", 1, 0],
+  ]);
+  assert.deepEqual(graph.edges[0], { source: "40 CFR part 60", target: "40 CFR part 63", weight: 5 });
+  assert.equal(graph.truncated, false);
+  assert.equal(graph.density, 3 / 6);
+  assert.equal(graph.internalEdgeShare, 7 / 8);
+});
+
+test("buildCitationGraph clusters sections by part", () => {
+  const graph = buildCitationGraph('section', [
+    { sourceTitle: 40, sourcePart: "60", sourceSection: "60.13", targetTitle: 40, targetPart: "60", targetSection: "60.7", weight: 3 },
+  ], 10);
+
+  assert.deepEqual(graph.nodes.map(node => [node.id, node.cluster]), [
+    ["40 CFR 60.13", "40 CFR part 60"],
+    ["40 CFR 60.7", "40 CFR part 60"],
+  ]);
+});
+
+test("buildCitationGraph keeps the heaviest edges up to the limit", () => {
+  const graph = buildCitationGraph('part', [
+    partEdge(40, "60", 40, "63", 5),
+    partEdge(40, "61", 40, "63", 4),
+    partEdge(40, "62", 40, "63", 3),
+  ], 2);
+
+  assert.equal(graph.edges.length, 2);
+  assert.equal(graph.nodes.length, 3);
+  assert.equal(graph.truncated, true);
+});
+
+test("buildCitationGraph of no edges", () => {
+  const graph = buildCitationGraph('part', [], 10);
+  assert.deepEqual(graph, { level: 'part', nodes: [], edges: [], truncated: false, density: 0, internalEdgeShare: 0 });
+});
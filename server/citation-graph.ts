@@ -0,0 +1,57 @@
+import type { CitationEdgeRow } from "./storage";
+import type { CitationGraph, CitationGraphEdge, CitationGraphLevel, CitationGraphNode } from "@shared/schema";
+
+// Edges in a citation graph unless the request asks for another limit
+export const DEFAULT_GRAPH_EDGE_LIMIT = 300;
+// Upper bound on requested edges: the client lays the graph out in the browser
+export const MAX_GRAPH_EDGE_LIMIT = 2000;
+
+export const CITATION_GRAPH_LEVELS: readonly CitationGraphLevel[] = ['part', 'section'];
+
+/**
+ * Builds the graph of the heaviest cross-references from aggregated edge rows, heaviest first,
+ * and the nodes they connect. Rows beyond the limit only mark the graph as truncated
+ */
+export function buildCitationGraph(level: CitationGraphLevel, rows: CitationEdgeRow[], limit: number): CitationGraph {
+  const nodes = new Map<string, CitationGraphNode>();
+  const node = (titleNumber: number, part: string, section: string | null): CitationGraphNode => {
+    const id = section !== null ? `${titleNumber} CFR ${section}` : `${titleNumber} CFR part ${part}`;
+    let existing = nodes.get(id);
+    if (!existing) {
+      existing = {
+        id,
+        titleNumber,
+        part,
+        section,
+        cluster: level === 'section' ? `${titleNumber} CFR part ${part}` : `Title ${titleNumber}`,
+        inboundCount: 0,
+        outboundCount: 0,
+      };
+      nodes.set(id, existing);
+    }
+    return existing;
+  };
+
+  const edges: CitationGraphEdge[] = [];
+  let totalWeight = 0;
+  let internalWeight = 0;
+  for (const row of rows.slice(0, limit)) {
+    const source = node(row.sourceTitle, row.sourcePart, row.sourceSection);
+    const target = node(row.targetTitle, row.targetPart, row.targetSection);
+    source.outboundCount += row.weight;
+    target.inboundCount += row.weight;
+    edges.push({ source: source.id, target: target.id, weight: row.weight });
+    totalWeight += row.weight;
+    if (source.cluster === target.cluster) internalWeight += row.weight;
+  }
+
+  const possibleEdges = nodes.size * (nodes.size - 1);
+  return {
+    level,
+    nodes: Array.from(nodes.values()),
+    edges,
+    truncated: rows.length > limit,
+    density: possibleEdges > 0 ? edges.length / possibleEdges : 0,
+    internalEdgeShare: totalWeight > 0 ? internalWeight / totalWeight : 0,
+  };
+}
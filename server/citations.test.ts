@@ -0,0 +1,43 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { extractCitations } from "./citations";
+
+function labels(text: string, citingTitle = 40): string[] {
+  return extractCitations(text, citingTitle).map(citation => citation.label);
+}
+
+test("extractCitations finds CFR sections and parts with explicit titles", () => {
+  assert.deepEqual(labels("as required by 40 CFR 60.13(a) and 29 CFR 1910.1200."), [
+    "40 CFR 60.13",
+    "29 CFR 1910.1200",
+  ]);
+  assert.deepEqual(labels("subject to 40 CFR part 63, subpart A"), ["40 CFR part 63"]);
+  assert.deepEqual(labels("see 40 CFR parts 60 and 61"), ["40 CFR part 60", "40 CFR part 61"]);
+  assert.deepEqual(labels("listed in 40 CFR 63 and in 40 CFR 60.7"), ["40 CFR part 63", "40 CFR 60.7"]);
+  assert.deepEqual(labels("under 40 C.F.R. § 52.21"), ["40 CFR 52.21"]);
+});
+
+test("extractCitations resolves bare references against the citing title", () => {
+  assert.deepEqual(labels("as described in § 60.7.", 40), ["40 CFR 60.7"]);
+  assert.deepEqual(labels("under §§ 60.13, 60.14, and 60.19", 40), ["40 CFR 60.13", "40 CFR 60.14", "40 CFR 60.19"]);
+  assert.deepEqual(labels("as provided in part 63 of this chapter", 40), ["40 CFR part 63"]);
+  assert.deepEqual(labels("parts 60 and 61 of this title", 49), ["49 CFR part 60", "49 CFR part 61"]);
+});
+
+test("extractCitations finds U.S. Code sections", () => {
+  assert.deepEqual(labels("Authority: 42 U.S.C. 7401-7671q; 42 USC § 7411(d)."), [
+    "42 U.S.C. 7401-7671q",
+    "42 U.S.C. 7411",
+  ]);
+});
+
+test("extractCitations keeps the parts of a section citation", () => {
+  assert.deepEqual(extractCitations("See § 63.7500a.", 40), [
+    { kind: "cfr", titleNumber: 40, part: "63", section: "63.7500a", label: "40 CFR 63.7500a" },
+  ]);
+});
+
+test("extractCitations ignores numbers that are not citations", () => {
+  assert.deepEqual(labels("The limit is 0.5 percent over 30 days in part of the year."), []);
+  assert.deepEqual(labels("[36 FR 24877, Dec. 23, 1971]"), []);
+});
@@ -0,0 +1,125 @@
+import type { CitationLevel } from "@shared/schema";
+
+/**
+ * Extracts cross-references from regulatory text and normalizes them: CFR sections
+ * ("§ 60.13", "40 CFR 60.13"), CFR parts ("40 CFR part 63", "part 63 of this chapter") and
+ * U.S. Code sections ("42 U.S.C. 7411")
+ */
+
+export type CitationKind = 'cfr' | 'usc';
+
+// Targets returned by most-cited rankings unless the request asks for another limit
+export const DEFAULT_MOST_CITED_LIMIT = 25;
+
+// Most-cited ranking levels
+export const CITATION_LEVELS: readonly CitationLevel[] = ['section', 'part', 'usc'];
+
+export interface ExtractedCitation {
+  kind: CitationKind;
+  titleNumber: number; // CFR or U.S.C. title
+  part: string | null; // CFR part; null for the U.S. Code
+  section: string | null; // CFR section ("60.13") or U.S.C. section ("7411"); null for a whole part
+  label: string; // normalized form: "40 CFR 60.13", "40 CFR part 63", "42 U.S.C. 7411"
+}
+
+// A CFR section number: part, period, section ("60.13", "1910.1200", "63.7500a", "52.21-1")
+const SECTION_NUMBER = String.raw`\d+[a-z]?\.\d+[a-z]?(?:-\d+)?`;
+// A list of section numbers or parts: "60.13, 60.14 and 60.19", "60 through 63"
+const LIST_SEPARATOR = String.raw`(?:\s*,\s*(?:and|or|through)?\s*|\s+(?:and|or|through|to)\s+)`;
+
+// A part number that is not the title of a following citation ("parts 60 and 40 CFR ...")
+const PART_NUMBER = String.raw`\d+[a-z]?(?![.\d])(?!\s+C\.?\s?F\.?\s?R)`;
+
+// "40 CFR 60.13", "40 CFR §§ 60.13 and 60.19", "40 CFR part 63", "40 CFR parts 60 and 63", "40 CFR 63"
+const CFR_PATTERN = new RegExp(
+  String.raw`\b(\d{1,2})\s+C\.?\s?F\.?\s?R\.?\s+(?:parts?\s+(${PART_NUMBER}(?:${LIST_SEPARATOR}${PART_NUMBER})*)|(?:§§?\s*)?(${SECTION_NUMBER}(?:${LIST_SEPARATOR}${SECTION_NUMBER})*)|(${PART_NUMBER}))`,
+  'gi',
+);
+// "42 U.S.C. 7411", "42 U.S.C. § 7411", "42 USC 7401-7671q"
+const USC_PATTERN = /\b(\d{1,2})\s+U\.?\s?S\.?\s?C\.?\s+(?:§§?\s*)?(\d+[a-z]*(?:-\d+[a-z]*)?)/gi;
+// "§ 60.13", "§§ 60.13 and 60.19" in the citing title
+const SECTION_SYMBOL_PATTERN = new RegExp(
+  String.raw`§§?\s*(${SECTION_NUMBER}(?:${LIST_SEPARATOR}${SECTION_NUMBER})*)`,
+  'g',
+);
+// "part 63 of this chapter", "parts 60 and 61 of this title" in the citing title
+const LOCAL_PART_PATTERN = new RegExp(
+  String.raw`\b[Pp]arts?\s+(${PART_NUMBER}(?:${LIST_SEPARATOR}${PART_NUMBER})*)\s+of\s+this\s+(?:title|chapter|subchapter)`,
+  'g',
+);
+
+/**
+ * Citations in a text, in order of appearance. References without a title ("§ 60.13",
+ * "part 63 of this chapter") are resolved against the title of the citing text
+ */
+export function extractCitations(text: string, citingTitle: number): ExtractedCitation[] {
+  const found: { index: number; end: number; citations: ExtractedCitation[] }[] = [];
+  const overlaps = (index: number, end: number) =>
+    found.some(match => index < match.end && end > match.index);
+
+  // Explicit titles first, so "40 CFR § 60.13" is not read again as a bare "§ 60.13"
+  for (const match of Array.from(text.matchAll(CFR_PATTERN))) {
+    const titleNumber = parseInt(match[1]);
+    const [, , parts, sections, part] = match;
+    const citations = sections
+      ? splitList(sections).map(item => cfrSection(titleNumber, item))
+      : splitList(parts ?? part).map(item => cfrPart(titleNumber, item));
+    found.push({ index: match.index!, end: match.index! + match[0].length, citations });
+  }
+  for (const match of Array.from(text.matchAll(USC_PATTERN))) {
+    const titleNumber = parseInt(match[1]);
+    const section = match[2].toLowerCase();
+    found.push({
+      index: match.index!,
+      end: match.index! + match[0].length,
+      citations: [{ kind: 'usc', titleNumber, part: null, section, label: `${titleNumber} U.S.C. ${section}` }],
+    });
+  }
+  for (const match of Array.from(text.matchAll(SECTION_SYMBOL_PATTERN))) {
+    const end = match.index! + match[0].length;
+    if (overlaps(match.index!, end)) continue;
+    found.push({
+      index: match.index!,
+      end,
+      citations: splitList(match[1]).map(item => cfrSection(citingTitle, item)),
+    });
+  }
+  for (const match of Array.from(text.matchAll(LOCAL_PART_PATTERN))) {
+    const end = match.index! + match[0].length;
+    if (overlaps(match.index!, end)) continue;
+    found.push({
+      index: match.index!,
+      end,
+      citations: splitList(match[1]).map(item => cfrPart(citingTitle, item)),
+    });
+  }
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .flatMap(match => match.citations);
+}
+
+/**
+ * Splits "60.13, 60.14 and 60.19" into its items. A range ("60.13 through 60.19") yields its
+ * two ends: the sections in between are not known from the text
+ */
+function splitList(list: string): string[] {
+  return list
+    .split(new RegExp(LIST_SEPARATOR, 'i'))
+    .map(item => item.trim().toLowerCase())
+    .filter(item => item.length > 0);
+}
+
+function cfrSection(titleNumber: number, section: string): ExtractedCitation {
+  return {
+    kind: 'cfr',
+    titleNumber,
+    part: section.split('.')[0],
+    section,
+    label: `${titleNumber} CFR ${section}`,
+  };
+}
+
+function cfrPart(titleNumber: number, part: string): ExtractedCitation {
+  return { kind: 'cfr', titleNumber, part, section: null, label: `${titleNumber} CFR part ${part}` };
+}
@@ -0,0 +1,17 @@
+/**
+ * Formats rows as RFC 4180 CSV with a header line. Values containing commas, quotes or
+ * line breaks are quoted; null and undefined become empty fields
+ */
+export function toCsv<T>(rows: T[], columns: { header: string; value: (row: T) => unknown }[]): string {
+  const lines = [columns.map(column => escapeCsvField(column.header)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeCsvField(column.value(row))).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
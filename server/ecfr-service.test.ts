@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { Readable } from "stream";
+import { analyzeTextIncremental, analyzeXmlStream, EcfrHttpClient } from "./ecfr-service";
+
+const TITLE_XML = `<ECFR><DIV1 N="40" TYPE="TITLE"><HEAD>Title 40—Protection of Environment</HEAD>
+<DIV3 N="I" TYPE="CHAPTER"><HEAD>CHAPTER I—ENVIRONMENTAL PROTECTION AGENCY</HEAD>
+<DIV5 N="60" TYPE="PART"><HEAD>PART 60—STANDARDS OF PERFORMANCE</HEAD>
+<DIV8 N="§ 60.1" TYPE="SECTION"><HEAD>§ 60.1 Applicability.</HEAD><P>The owner shall comply. The operator must report.</P></DIV8>
+<DIV8 N="§ 60.2" TYPE="SECTION"><HEAD>§ 60.2 Definitions.</HEAD><P>Terms are defined here.</P></DIV8>
+</DIV5>
+<DIV5 N="61" TYPE="PART"><HEAD>PART 61—RESERVED</HEAD></DIV5>
+</DIV3></DIV1></ECFR>`;
+
+test("analyzeXmlStream emits one node per DIV/SECTION with its place in the hierarchy", async () => {
+  // Chunks split inside an element, as an HTTP body would
+  const analysis = await analyzeXmlStream(Readable.from([TITLE_XML.slice(0, 200), TITLE_XML.slice(200)].map(chunk => Buffer.from(chunk))));
+
+  // Nodes are emitted when they close, so children come before their parents
+  assert.deepEqual(
+    analysis.nodes.map(node => [node.type, node.identifier, node.parentPath, node.depth, node.position, node.chapter, node.part, node.section]),
+    [
+      ['section', '60.1', 'chapter:I/part:60', 3, 3, 'I', '60', '60.1'],
+      ['section', '60.2', 'chapter:I/part:60', 3, 4, 'I', '60', '60.2'],
+      ['part', '60', 'chapter:I', 2, 2, 'I', '60', null],
+      ['part', '61', 'chapter:I', 2, 5, 'I', '61', null],
+      ['chapter', 'I', '', 1, 1, 'I', null, null],
+    ],
+  );
+  assert.deepEqual(analysis.nodes.map(node => node.heading), [
+    '§ 60.1 Applicability.',
+    '§ 60.2 Definitions.',
+    'PART 60—STANDARDS OF PERFORMANCE',
+    'PART 61—RESERVED',
+    'CHAPTER I—ENVIRONMENTAL PROTECTION AGENCY',
+  ]);
+});
+
+test("analyzeXmlStream counts each node's subtree and rolls the title up", async () => {
+  const analysis = await analyzeXmlStream(Readable.from([Buffer.from(TITLE_XML)]));
+  const node = (type: string, identifier: string) =>
+    analysis.nodes.find(candidate => candidate.type === type && candidate.identifier === identifier)!;
+
+  assert.deepEqual(
+    [node('section', '60.1'), node('section', '60.2'), node('part', '60'), node('part', '61'), node('chapter', 'I')]
+      .map(({ sectionCount, wordCount, sentenceCount, restrictionCount }) => [sectionCount, wordCount, sentenceCount, restrictionCount]),
+    [
+      [0, 10, 3, 2],
+      [0, 6, 2, 0],
+      [2, 20, 5, 2],
+      [0, 2, 1, 0],
+      [2, 26, 5, 2],
+    ],
+  );
+
+  assert.equal(analysis.heading, 'Title 40—Protection of Environment');
+  assert.equal(analysis.sectionCount, 2);
+  assert.equal(analysis.wordCount, 30);
+  assert.equal(analysis.restrictionCount, 2);
+  assert.equal(analysis.bytesRead, Buffer.byteLength(TITLE_XML));
+  assert.notEqual(node('section', '60.1').checksum, node('section', '60.2').checksum);
+});
+
+test("analyzeTextIncremental matches the streaming analysis", async () => {
+  const { bytesRead, ...streamed } = await analyzeXmlStream(Readable.from([Buffer.from(TITLE_XML)]));
+  assert.deepEqual(analyzeTextIncremental(TITLE_XML), streamed);
+});
+
+test("EcfrHttpClient fails a body that stalls for the timeout", async () => {
+  // Sends the headers and the start of the body, then nothing
+  const server = createServer((req, res) => {
+    res.writeHead(200, { "content-type": "application/xml" });
+    res.write("<ECFR>");
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const client = new EcfrHttpClient(`http://127.0.0.1:${port}`, { timeoutMs: 200, maxRetries: 0 });
+    const stream = await client.getStream("/title-40.xml");
+    await assert.rejects(async () => {
+      for await (const _chunk of stream) {
+        // drain
+      }
+    }, { name: "EcfrTimeoutError" });
+    await assert.rejects(client.getJson("/titles.json"), { name: "EcfrTimeoutError" });
+  } finally {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  }
+});
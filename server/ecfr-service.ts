@@ -1,60 +1,22 @@
 import { createHash } from "crypto";
+import { Readable } from "stream";
+import type { ReadableStream as WebReadableStream } from "stream/web";
 import sax from "sax";
-
-const ECFR_API_BASE = "https://www.ecfr.gov/api/versioner/v1";
-
-interface ECFRTitle {
-  number: number;
-  name: string;
-  reserved: boolean;
-  latest_issue_date: string;
-}
-
-interface ECFRStructure {
-  identifier: string;
-  label: string;
-  type: string;
-  children?: ECFRStructure[];
-  text?: string;
-}
+import { tokenize } from "./tokenizer";
+import { countReadability, type ReadabilityCounts } from "./readability";
+import { countRestrictions } from "./restrictions";
+import { extractCitations, type ExtractedCitation } from "./citations";
 
 /**
- * Fetches the list of all CFR titles from the eCFR API
+ * Version of the analysis below. Bump it whenever a metric changes, then run
+ * POST /api/reanalyze to recompute stored metrics from the archived source XML
+ *
+ * 2: words and sentences come from the regulation-aware tokenizer
+ * 3: syllable, polysyllable and letter counts for the readability indices
+ * 4: restriction counts
+ * 5: citations
  */
-export async function fetchTitles(): Promise<ECFRTitle[]> {
-  try {
-    const response = await fetch(`${ECFR_API_BASE}/titles`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch titles: ${response.statusText}`);
-    }
-    const data = await response.json();
-    return data.titles || [];
-  } catch (error) {
-    console.error("Error fetching eCFR titles:", error);
-    throw error;
-  }
-}
-
-/**
- * Fetches the full regulatory text content for a specific title on a specific date
- * Returns XML content as text
- */
-export async function fetchTitleContent(titleNumber: number, date: string): Promise<string | null> {
-  try {
-    const response = await fetch(`${ECFR_API_BASE}/full/${date}/title-${titleNumber}.xml`);
-    if (!response.ok) {
-      if (response.status === 404) {
-        return null;
-      }
-      throw new Error(`Failed to fetch title ${titleNumber}: ${response.statusText}`);
-    }
-    const xmlText = await response.text();
-    return xmlText;
-  } catch (error) {
-    console.error(`Error fetching title ${titleNumber} content:`, error);
-    return null;
-  }
-}
+export const ANALYZER_VERSION = 5;
 
 /**
  * Extracts plain text from XML regulatory content using streaming parser
@@ -108,116 +70,381 @@ export function extractTextFromXML(xmlContent: string): string {
   return textChunks.join('').replace(/\s+/g, ' ').trim();
 }
 
-/**
- * Analyzes XML content incrementally without building full text string in memory
- * Processes text in chunks during SAX parsing to handle extremely large documents
- * Calculates checksum incrementally to avoid memory issues
- */
-export function analyzeTextIncremental(xmlContent: string): {
+export interface TextMetrics extends ReadabilityCounts {
   wordCount: number;
   sentenceCount: number;
   avgSentenceLength: number;
   vocabularyDiversity: number;
   uniqueWords: number;
+  restrictionCount: number; // restrictive terms ("shall", "must", "may not", ...)
   checksum: string;
-} {
-  let wordCount = 0;
-  let sentenceCount = 0;
-  const uniqueWordsSet = new Set<string>();
-  let currentText = '';
-  
-  // Create incremental checksum hash
-  const hash = createHash('sha256');
-  
-  // Create a streaming SAX parser
+}
+
+/**
+ * A DIV/SECTION node of the CFR hierarchy.
+ * Metrics cover the node's full subtree (its own text plus all descendants).
+ */
+export interface HierarchyNode extends TextMetrics {
+  type: string;
+  identifier: string;
+  heading: string;
+  parentPath: string;
+  depth: number;
+  position: number;
+  chapter: string | null;
+  part: string | null;
+  section: string | null;
+  sectionCount: number;
+  // Plain text of the node, only for nodes selected with AnalyzeStreamOptions.captureText
+  text?: string;
+  // References in the node's own text (not its descendants'), only with AnalyzeStreamOptions.citations
+  citations?: NodeCitation[];
+}
+
+// A distinct reference in the text of a node and how often it occurs there
+export interface NodeCitation extends ExtractedCitation {
+  count: number;
+}
+
+export interface HierarchyAnalysis extends TextMetrics {
+  heading: string;
+  sectionCount: number;
+  nodes: HierarchyNode[];
+}
+
+/**
+ * Accumulates word, sentence and checksum state for one node of the hierarchy
+ */
+class MetricsAccumulator {
+  wordCount = 0;
+  sentenceCount = 0;
+  restrictionCount = 0;
+  private readability: ReadabilityCounts = { syllableCount: 0, polysyllableCount: 0, letterCount: 0 };
+  private uniqueWordsSet = new Set<string>();
+  private hash = createHash('sha256');
+
+  add(text: string, words: string[], sentences: number, readability: ReadabilityCounts, restrictions: number) {
+    this.hash.update(text);
+    this.wordCount += words.length;
+    this.sentenceCount += sentences;
+    this.restrictionCount += restrictions;
+    this.readability.syllableCount += readability.syllableCount;
+    this.readability.polysyllableCount += readability.polysyllableCount;
+    this.readability.letterCount += readability.letterCount;
+    for (const word of words) {
+      this.uniqueWordsSet.add(word);
+    }
+  }
+
+  finish(): TextMetrics {
+    // Ensure at least 1 sentence
+    const sentenceCount = this.sentenceCount || 1;
+    const uniqueWords = this.uniqueWordsSet.size;
+    return {
+      wordCount: this.wordCount,
+      sentenceCount,
+      avgSentenceLength: this.wordCount / sentenceCount,
+      vocabularyDiversity: this.wordCount > 0 ? uniqueWords / this.wordCount : 0,
+      uniqueWords,
+      restrictionCount: this.restrictionCount,
+      ...this.readability,
+      checksum: this.hash.digest('hex'),
+    };
+  }
+}
+
+interface NodeFrame {
+  type: string;
+  identifier: string;
+  heading: string;
+  path: string;
+  depth: number;
+  position: number;
+  chapter: string | null;
+  part: string | null;
+  sectionCount: number;
+  metrics: MetricsAccumulator;
+  // Text chunks of a section/appendix while text capture is enabled
+  text: string[] | null;
+  // References in the node's own text by label, while citation extraction is enabled
+  citations: Map<string, NodeCitation> | null;
+}
+
+// Marker for the DIV1 element of the title on the element stack
+const TITLE_ELEMENT = 'title' as const;
+
+// Node types whose text can be captured (the leaves that carry regulatory text)
+const TEXT_NODE_TYPES = ['section', 'appendix'];
+
+/**
+ * Selects the nodes whose plain text is returned, by type and normalized identifier
+ */
+export type CaptureTextFilter = (type: string, identifier: string) => boolean;
+
+/**
+ * Reads an attribute regardless of case (eCFR XML uses upper-case names)
+ */
+function getAttribute(tag: sax.Tag | sax.QualifiedTag, name: string): string {
+  const value = tag.attributes[name.toUpperCase()] ?? tag.attributes[name];
+  return typeof value === 'string' ? value : value?.value ?? '';
+}
+
+/**
+ * Normalizes a node identifier ("§ 1.1" -> "1.1")
+ */
+function normalizeIdentifier(value: string): string {
+  return value.replace(/^§+\s*/, '').trim();
+}
+
+/**
+ * SAX event handlers that build the hierarchy and metrics of a title.
+ * Shared by the string parser and the streaming parser
+ */
+interface HierarchyAnalyzer {
+  onOpenTag(tag: sax.Tag | sax.QualifiedTag): void;
+  onCloseTag(tagName: string): void;
+  onText(text: string): void;
+  // Words analyzed so far
+  wordCount(): number;
+  finish(): HierarchyAnalysis;
+}
+
+/**
+ * Creates the handlers that analyze XML incrementally without building the full text in memory.
+ * Emits one record per DIV/SECTION node (chapter, part, subpart, section, ...) with its
+ * identifier, heading, parent path and subtree metrics, plus totals for the whole title.
+ * Checksums are calculated incrementally as text arrives
+ */
+function createHierarchyAnalyzer(
+  { captureText, citations }: Pick<AnalyzeStreamOptions, 'captureText' | 'citations'> = {},
+): HierarchyAnalyzer {
+  const root = new MetricsAccumulator();
+  const nodes: HierarchyNode[] = [];
+  // One entry per open element; null for elements that are not hierarchy nodes
+  const elementStack: (NodeFrame | typeof TITLE_ELEMENT | null)[] = [];
+  const frames: NodeFrame[] = [];
+  let titleHeading = '';
+  let titleSectionCount = 0;
+  let position = 0;
+  // Where HEAD/SUBJECT or SECTNO text is currently being captured
+  let headingTarget: { frame: NodeFrame | typeof TITLE_ELEMENT; field: 'heading' | 'identifier' } | null = null;
+
+  return {
+    onOpenTag(tag) {
+      const name = tag.name.toLowerCase();
+      const parent = elementStack.length > 0 ? elementStack[elementStack.length - 1] : null;
+
+      if (/^div\d$/.test(name) || name === 'section') {
+        const type = (getAttribute(tag, 'type') || name).toLowerCase();
+
+        // The title itself is represented by the root accumulator
+        if (type === 'title') {
+          elementStack.push(TITLE_ELEMENT);
+          return;
+        }
+
+        const parentFrame = frames.length > 0 ? frames[frames.length - 1] : null;
+        const identifier = normalizeIdentifier(getAttribute(tag, 'n'));
+        const frame: NodeFrame = {
+          type,
+          identifier,
+          heading: '',
+          path: parentFrame
+            ? (parentFrame.path ? `${parentFrame.path}/` : '') + `${parentFrame.type}:${parentFrame.identifier}`
+            : '',
+          depth: frames.length + 1,
+          position: ++position, // the title row itself is position 0
+          chapter: type === 'chapter' ? identifier : parentFrame?.chapter ?? null,
+          part: type === 'part' ? identifier : parentFrame?.part ?? null,
+          sectionCount: 0,
+          metrics: new MetricsAccumulator(),
+          // The identifier may only be known after SECTNO, so text is kept until the node closes
+          text: captureText && TEXT_NODE_TYPES.includes(type) ? [] : null,
+          citations: citations ? new Map() : null,
+        };
+
+        if (type === 'section') {
+          titleSectionCount++;
+          for (const ancestor of frames) {
+            ancestor.sectionCount++;
+          }
+        }
+
+        frames.push(frame);
+        elementStack.push(frame);
+        return;
+      }
+
+      // Capture headings of the enclosing node (or of the title itself)
+      if ((name === 'head' || name === 'subject') && parent) {
+        headingTarget = { frame: parent, field: 'heading' };
+      } else if (name === 'sectno' && parent && parent !== TITLE_ELEMENT && !parent.identifier) {
+        headingTarget = { frame: parent, field: 'identifier' };
+      }
+      elementStack.push(null);
+    },
+
+    onCloseTag(tagName) {
+      const name = tagName.toLowerCase();
+      const frame = elementStack.pop();
+      if (name === 'head' || name === 'subject' || name === 'sectno') {
+        headingTarget = null;
+      }
+      if (!frame || frame === TITLE_ELEMENT) return;
+
+      frames.pop();
+      const identifier = normalizeIdentifier(frame.identifier);
+      const text = frame.text && captureText?.(frame.type, identifier) ? frame.text.join(' ') : undefined;
+      nodes.push({
+        type: frame.type,
+        identifier,
+        heading: frame.heading.trim(),
+        parentPath: frame.path,
+        depth: frame.depth,
+        position: frame.position,
+        chapter: frame.chapter,
+        part: frame.part,
+        section: frame.type === 'section' ? identifier : null,
+        sectionCount: frame.sectionCount,
+        ...frame.metrics.finish(),
+        ...(text !== undefined ? { text } : {}),
+        ...(frame.citations ? { citations: Array.from(frame.citations.values()) } : {}),
+      });
+    },
+
+    // Process text incrementally as we encounter it
+    onText(text) {
+      const trimmed = text.trim();
+      if (trimmed.length === 0) return;
+
+      if (headingTarget) {
+        if (headingTarget.frame === TITLE_ELEMENT) {
+          titleHeading += trimmed + ' ';
+        } else if (headingTarget.field === 'heading') {
+          headingTarget.frame.heading += trimmed + ' ';
+        } else {
+          headingTarget.frame.identifier += trimmed;
+        }
+      }
+
+      const chunk = trimmed + ' ';
+      // Sentences ended in this chunk; one without a terminal mark continues in the next chunk
+      const { words, sentenceCount: sentences } = tokenize(trimmed);
+      const readability = countReadability(words);
+      // Phrases split by inline markup ("may <E>not</E>") are not matched
+      const restrictions = countRestrictions(words);
+
+      root.add(chunk, words, sentences, readability, restrictions);
+      for (const frame of frames) {
+        frame.metrics.add(chunk, words, sentences, readability, restrictions);
+        frame.text?.push(trimmed);
+      }
+
+      // References belong to the innermost node; headings and section numbers are not references
+      const innermost = frames.length > 0 ? frames[frames.length - 1] : null;
+      if (citations && innermost?.citations && !headingTarget) {
+        for (const citation of extractCitations(trimmed, citations.titleNumber)) {
+          const existing = innermost.citations.get(citation.label);
+          if (existing) {
+            existing.count++;
+          } else {
+            innermost.citations.set(citation.label, { ...citation, count: 1 });
+          }
+        }
+      }
+    },
+
+    wordCount() {
+      return root.wordCount;
+    },
+
+    finish() {
+      return {
+        ...root.finish(),
+        heading: titleHeading.trim(),
+        sectionCount: titleSectionCount,
+        nodes,
+      };
+    },
+  };
+}
+
+/**
+ * Analyzes XML content that is already in memory.
+ * Prefer analyzeXmlStream for downloaded titles so the XML is never buffered
+ */
+export function analyzeTextIncremental(xmlContent: string): HierarchyAnalysis {
+  const analyzer = createHierarchyAnalyzer();
+
+  // Create a SAX parser
   const parser = sax.parser(true, {
     lowercase: true,
     normalize: true,
   });
-  
-  // Process text incrementally as we encounter it
-  parser.ontext = (text) => {
-    const trimmed = text.trim();
-    if (trimmed.length > 0) {
-      currentText += trimmed + ' ';
-      
-      // Process in 50KB chunks to balance memory and performance
-      if (currentText.length > 50000) {
-        processTextChunk(currentText);
-        currentText = '';
-        
-        // Trigger garbage collection if available
-        if (global.gc && wordCount % 100000 === 0) {
-          global.gc();
-        }
-      }
-    }
-  };
-  
-  // Helper function to process a chunk of text
-  function processTextChunk(chunk: string) {
-    // Update checksum incrementally (critical - avoids building full string)
-    hash.update(chunk);
-    
-    // Count words in this chunk
-    const words = chunk.split(/\s+/).filter(w => w.length > 0);
-    wordCount += words.length;
-    
-    // Track unique words
-    words.forEach(word => {
-      uniqueWordsSet.add(word.toLowerCase());
-    });
-    
-    // Count sentences (periods, exclamation marks, question marks)
-    const sentences = chunk.match(/[.!?]+/g);
-    if (sentences) {
-      sentenceCount += sentences.length;
-    }
-  }
-  
+  parser.onopentag = analyzer.onOpenTag;
+  parser.onclosetag = analyzer.onCloseTag;
+  parser.ontext = analyzer.onText;
+
   // Handle parser errors gracefully
   parser.onerror = (error) => {
     console.error('XML parsing error:', error);
     parser.resume();
   };
-  
-  // Process the XML in chunks
-  const chunkSize = 1000000; // 1MB chunks
-  for (let i = 0; i < xmlContent.length; i += chunkSize) {
-    const chunk = xmlContent.substring(i, i + chunkSize);
-    parser.write(chunk);
-    
-    // Periodic garbage collection for very large files
-    if (global.gc && i % 10000000 === 0) {
-      global.gc();
-    }
-  }
-  parser.close();
-  
-  // Process any remaining text
-  if (currentText.length > 0) {
-    processTextChunk(currentText);
+
+  parser.write(xmlContent).close();
+  return analyzer.finish();
+}
+
+export interface StreamProgress {
+  bytesRead: number;
+  wordCount: number;
+}
+
+export interface AnalyzeStreamOptions {
+  // Called after each chunk has been parsed
+  onProgress?: (progress: StreamProgress) => void;
+  // Return the plain text of the selected sections/appendices (HierarchyNode.text)
+  captureText?: CaptureTextFilter;
+  // Extract references from the text of every node (HierarchyNode.citations). References
+  // without a title ("§ 60.13") are resolved against titleNumber
+  citations?: { titleNumber: number };
+}
+
+/**
+ * Analyzes an XML byte stream (e.g. an HTTP response body) by piping it straight into a
+ * streaming SAX parser. Memory stays flat regardless of the size of the title
+ */
+export async function analyzeXmlStream(
+  input: Readable,
+  options: AnalyzeStreamOptions = {},
+): Promise<HierarchyAnalysis & { bytesRead: number }> {
+  const analyzer = createHierarchyAnalyzer(options);
+  let bytesRead = 0;
+
+  const saxStream = sax.createStream(true, {
+    lowercase: true,
+    normalize: true,
+  });
+  saxStream.on('opentag', analyzer.onOpenTag);
+  saxStream.on('closetag', analyzer.onCloseTag);
+  saxStream.on('text', analyzer.onText);
+
+  // Handle parser errors gracefully: clear the error and keep parsing
+  saxStream.on('error', function (this: { _parser: { error: Error | null; resume(): void } }, error: Error) {
+    console.error('XML parsing error:', error);
+    this._parser.error = null;
+    this._parser.resume();
+  });
+
+  // sax parses synchronously inside write(), so awaiting each chunk gives natural backpressure
+  for await (const chunk of input) {
+    bytesRead += chunk.length;
+    saxStream.write(chunk);
+    options.onProgress?.({ bytesRead, wordCount: analyzer.wordCount() });
   }
-  
-  // Ensure at least 1 sentence
-  if (sentenceCount === 0) sentenceCount = 1;
-  
-  // Calculate metrics
-  const avgSentenceLength = wordCount / sentenceCount;
-  const uniqueWords = uniqueWordsSet.size;
-  const vocabularyDiversity = wordCount > 0 ? uniqueWords / wordCount : 0;
-  
-  // Finalize checksum (no need to build full text!)
-  const checksum = hash.digest('hex');
-  
-  return {
-    wordCount,
-    sentenceCount,
-    avgSentenceLength,
-    vocabularyDiversity,
-    uniqueWords,
-    checksum,
-  };
+  saxStream.end();
+
+  return { ...analyzer.finish(), bytesRead };
 }
 
 /**
@@ -234,19 +461,16 @@ export function analyzeText(text: string): {
   // Clean the text
   const cleanText = text.replace(/\s+/g, ' ').trim();
   
-  // Word count
-  const words = cleanText.split(/\s+/).filter(w => w.length > 0);
+  // Words and sentences; trailing text without a terminal mark is a sentence too
+  const { words, sentenceCount: terminated, openSentence } = tokenize(cleanText);
   const wordCount = words.length;
-  
-  // Sentence count (split by .!?)
-  const sentences = cleanText.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  const sentenceCount = sentences.length || 1;
+  const sentenceCount = (terminated + (openSentence ? 1 : 0)) || 1;
   
   // Average sentence length
   const avgSentenceLength = wordCount / sentenceCount;
   
   // Vocabulary diversity (unique words / total words)
-  const uniqueWordsSet = new Set(words.map(w => w.toLowerCase()));
+  const uniqueWordsSet = new Set(words);
   const uniqueWords = uniqueWordsSet.size;
   const vocabularyDiversity = wordCount > 0 ? uniqueWords / wordCount : 0;
   
@@ -273,3 +497,253 @@ export function calculateChecksum(text: string): string {
 export function calculateRCI(avgSentenceLength: number, vocabularyDiversity: number): number {
   return avgSentenceLength * vocabularyDiversity;
 }
+
+/**
+ * Base class of the errors raised by EcfrHttpClient
+ */
+export class EcfrHttpError extends Error {
+  constructor(message: string, readonly url: string, readonly status?: number) {
+    super(message);
+    this.name = 'EcfrHttpError';
+  }
+}
+
+// The resource does not exist (HTTP 404); never retried
+export class EcfrNotFoundError extends EcfrHttpError {
+  constructor(url: string) {
+    super(`Not found: ${url}`, url, 404);
+    this.name = 'EcfrNotFoundError';
+  }
+}
+
+// Still rate limited (HTTP 429) after all retries
+export class EcfrRateLimitError extends EcfrHttpError {
+  constructor(url: string) {
+    super(`Rate limited by eCFR: ${url}`, url, 429);
+    this.name = 'EcfrRateLimitError';
+  }
+}
+
+// Server errors (HTTP 5xx) or network failures after all retries
+export class EcfrUnavailableError extends EcfrHttpError {
+  constructor(url: string, status?: number, cause?: unknown) {
+    super(`eCFR unavailable${status ? ` (HTTP ${status})` : ''}: ${url}`, url, status);
+    this.name = 'EcfrUnavailableError';
+    this.cause = cause;
+  }
+}
+
+// No response headers within the timeout on every attempt, or a body that stalled for as long
+export class EcfrTimeoutError extends EcfrHttpError {
+  constructor(url: string, timeoutMs: number) {
+    super(`eCFR request timed out after ${timeoutMs}ms: ${url}`, url);
+    this.name = 'EcfrTimeoutError';
+  }
+}
+
+export interface EcfrHttpClientOptions {
+  // Time allowed for the response headers of one attempt, and for each pause in its body
+  // (a streamed body may take longer overall)
+  timeoutMs: number;
+  // Retries after the first attempt for 429, 5xx, timeouts and network errors
+  maxRetries: number;
+  // Exponential backoff: base delay doubled per retry, capped, with full jitter
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+  // Budget shared by every request made through the client and its withBaseUrl() copies,
+  // retries included
+  requestsPerSecond: number;
+}
+
+export const DEFAULT_HTTP_CLIENT_OPTIONS: EcfrHttpClientOptions = {
+  timeoutMs: 60_000,
+  maxRetries: 4,
+  retryBaseDelayMs: 1_000,
+  retryMaxDelayMs: 30_000,
+  requestsPerSecond: 2,
+};
+
+// Longest Retry-After delay honored, so a server cannot stall the client indefinitely
+const MAX_RETRY_AFTER_MS = 5 * 60_000;
+
+/**
+ * Requests-per-second budget of one or more clients: hands out send slots one interval apart
+ */
+class RequestBudget {
+  // Earliest time the next request may be sent
+  private nextRequestAt = 0;
+
+  constructor(private readonly requestsPerSecond: number) {}
+
+  // Waits for the next free slot
+  async take(signal?: AbortSignal): Promise<void> {
+    const interval = 1000 / this.requestsPerSecond;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = slot + interval;
+    if (slot > now) {
+      await sleep(slot - now, signal);
+    }
+  }
+
+  // Holds every request back until `delayMs` from now
+  pause(delayMs: number): void {
+    this.nextRequestAt = Math.max(this.nextRequestAt, Date.now() + delayMs);
+  }
+}
+
+/**
+ * HTTP client for the eCFR API with timeouts, retries (exponential backoff with jitter,
+ * honoring Retry-After) and a requests-per-second budget shared with the clients made by
+ * withBaseUrl(). Failures are raised as typed EcfrHttpError subclasses instead of being swallowed
+ */
+export class EcfrHttpClient {
+  private readonly options: EcfrHttpClientOptions;
+  private readonly budget: RequestBudget;
+
+  constructor(private readonly baseUrl: string, options: Partial<EcfrHttpClientOptions> = {}, budget?: RequestBudget) {
+    this.options = { ...DEFAULT_HTTP_CLIENT_OPTIONS, ...options };
+    this.budget = budget ?? new RequestBudget(this.options.requestsPerSecond);
+  }
+
+  /**
+   * A client for another API of the same host, with the same options and request budget
+   */
+  withBaseUrl(baseUrl: string): EcfrHttpClient {
+    return new EcfrHttpClient(baseUrl, this.options, this.budget);
+  }
+
+  async getJson<T>(path: string, options: { signal?: AbortSignal } = {}): Promise<T> {
+    const response = await this.request(path, options);
+    return await response.json() as T;
+  }
+
+  /**
+   * Returns the response body as a byte stream (never buffered)
+   */
+  async getStream(path: string, options: { signal?: AbortSignal } = {}): Promise<Readable> {
+    const response = await this.request(path, options);
+    if (!response.body) {
+      throw new EcfrHttpError(`Empty response body: ${this.baseUrl}${path}`, `${this.baseUrl}${path}`, response.status);
+    }
+    return Readable.fromWeb(response.body as WebReadableStream<Uint8Array>);
+  }
+
+  /**
+   * Performs a GET request and returns the successful response. Its body fails with
+   * EcfrTimeoutError when no data arrives for the timeout.
+   * An abort of the caller's signal is rethrown as is and never retried
+   */
+  async request(path: string, { signal }: { signal?: AbortSignal } = {}): Promise<Response> {
+    const url = `${this.baseUrl}${path}`;
+    const { maxRetries, timeoutMs } = this.options;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.budget.take(signal);
+
+      const timeout = new AbortController();
+      const timer = setTimeout(() => timeout.abort(), timeoutMs);
+      let failure: EcfrHttpError;
+      let retryAfterMs: number | null = null;
+
+      try {
+        const response = await fetch(url, {
+          signal: signal ? AbortSignal.any([signal, timeout.signal]) : timeout.signal,
+        });
+        if (response.ok) {
+          return withIdleTimeout(response, timeoutMs, () => timeout.abort(new EcfrTimeoutError(url, timeoutMs)));
+        }
+
+        // Release the connection of a failed response
+        await response.body?.cancel().catch(() => undefined);
+        if (response.status === 404) {
+          throw new EcfrNotFoundError(url);
+        }
+        if (response.status === 429) {
+          failure = new EcfrRateLimitError(url);
+        } else if (response.status >= 500) {
+          failure = new EcfrUnavailableError(url, response.status);
+        } else {
+          throw new EcfrHttpError(`eCFR request failed (HTTP ${response.status}): ${url}`, url, response.status);
+        }
+        const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+        retryAfterMs = retryAfter === null ? null : Math.min(retryAfter, MAX_RETRY_AFTER_MS);
+      } catch (error) {
+        if (signal?.aborted || error instanceof EcfrHttpError) throw error;
+        failure = timeout.signal.aborted
+          ? new EcfrTimeoutError(url, timeoutMs)
+          : new EcfrUnavailableError(url, undefined, error);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (attempt >= maxRetries) {
+        throw failure;
+      }
+
+      const delayMs = retryAfterMs ?? this.backoffDelay(attempt);
+      if (retryAfterMs !== null) {
+        // The server asked every client to slow down, not just this request
+        this.budget.pause(retryAfterMs);
+      }
+      console.log(`${failure.message} - retrying in ${Math.round(delayMs)}ms (attempt ${attempt + 2}/${maxRetries + 1})`);
+      await sleep(delayMs, signal);
+    }
+  }
+
+  private backoffDelay(attempt: number): number {
+    const { retryBaseDelayMs, retryMaxDelayMs } = this.options;
+    const ceiling = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt);
+    return Math.random() * ceiling;
+  }
+}
+
+/**
+ * Copies a response with a body that calls `onIdle` when no chunk arrives for `timeoutMs`
+ */
+function withIdleTimeout(response: Response, timeoutMs: number, onIdle: () => void): Response {
+  if (!response.body) return response;
+  let timer = setTimeout(onIdle, timeoutMs);
+  const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      clearTimeout(timer);
+      timer = setTimeout(onIdle, timeoutMs);
+      controller.enqueue(chunk);
+    },
+    flush() {
+      clearTimeout(timer);
+    },
+  }));
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import type { Readable } from "stream";
+import { createEcfrSource, HttpEcfrSource, LocalMirrorEcfrSource } from "./ecfr-source";
+import { CachingEcfrSource, XmlCache } from "./xml-cache";
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString();
+}
+
+async function withMirror(run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(path.join(tmpdir(), "ecfr-mirror-test-"));
+  try {
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test("LocalMirrorEcfrSource reads titles, XML, versions and agencies from the mirror", async () => {
+  await withMirror(async directory => {
+    const title = { number: 40, name: "Protection of Environment", reserved: false, latest_issue_date: "2024-01-15" };
+    await writeFile(path.join(directory, "titles.json"), JSON.stringify({ titles: [title] }));
+    await writeFile(path.join(directory, "title-40.xml"), "<ECFR>latest</ECFR>");
+    await mkdir(path.join(directory, "2020-01-15"));
+    await writeFile(path.join(directory, "2020-01-15", "title-40.xml"), "<ECFR>2020</ECFR>");
+    await mkdir(path.join(directory, "versions"));
+    await writeFile(path.join(directory, "versions", "title-40.json"), JSON.stringify({ content_versions: [{ date: "2024-01-10" }] }));
+    await writeFile(path.join(directory, "agencies.json"), JSON.stringify({ agencies: [{ name: "Environmental Protection Agency" }] }));
+
+    const source = new LocalMirrorEcfrSource(directory);
+    assert.deepEqual(await source.getTitles(), [title]);
+    // A point-in-time copy is preferred over the undated one
+    assert.equal(await readAll((await source.getTitleXml(40, "2020-01-15"))!), "<ECFR>2020</ECFR>");
+    assert.equal(await readAll((await source.getTitleXml(40, "2024-01-15"))!), "<ECFR>latest</ECFR>");
+    assert.deepEqual((await source.getVersions(40)).map(version => version.date), ["2024-01-10"]);
+    assert.deepEqual((await source.getAgencies()).map(agency => agency.name), ["Environmental Protection Agency"]);
+  });
+});
+
+test("LocalMirrorEcfrSource reports missing files as not found", async () => {
+  await withMirror(async directory => {
+    const source = new LocalMirrorEcfrSource(directory);
+    assert.equal(await source.getTitleXml(40, "2024-01-15"), null);
+    assert.deepEqual(await source.getVersions(40), []);
+    assert.equal(await source.getStructure(40, "2024-01-15"), null);
+    assert.deepEqual(await source.getAgencies(), []);
+    await assert.rejects(source.getTitles(), /No titles\.json/);
+  });
+});
+
+test("createEcfrSource selects the source from the environment", () => {
+  const local = createEcfrSource({ ECFR_SOURCE: "local", ECFR_MIRROR_DIR: "mirror" }, null);
+  assert.ok(local instanceof LocalMirrorEcfrSource);
+  assert.equal(local.kind, "local");
+
+  assert.ok(createEcfrSource({}, null) instanceof HttpEcfrSource);
+  const cached = createEcfrSource({ ECFR_SOURCE: "http" }, new XmlCache(path.join(tmpdir(), "unused-xml-cache"), 0));
+  assert.ok(cached instanceof CachingEcfrSource);
+  assert.equal(cached.kind, "http");
+
+  assert.throws(() => createEcfrSource({ ECFR_SOURCE: "local" }, null), /ECFR_MIRROR_DIR/);
+  assert.throws(() => createEcfrSource({ ECFR_SOURCE: "ftp" }, null), /Unknown ECFR_SOURCE/);
+  assert.throws(() => createEcfrSource({ ECFR_TIMEOUT_MS: "soon" }, null), /ECFR_TIMEOUT_MS/);
+});
@@ -0,0 +1,262 @@
+import { createReadStream } from "fs";
+import { access, readFile } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import {
+  EcfrHttpClient,
+  EcfrNotFoundError,
+  DEFAULT_HTTP_CLIENT_OPTIONS,
+  type EcfrHttpClientOptions,
+} from "./ecfr-service";
+import { CachingEcfrSource, xmlCache, type XmlCache } from "./xml-cache";
+
+const ECFR_API_BASE = "https://www.ecfr.gov/api/versioner/v1";
+const ECFR_ADMIN_API_BASE = "https://www.ecfr.gov/api/admin/v1";
+
+export interface ECFRTitle {
+  number: number;
+  name: string;
+  reserved: boolean;
+  latest_issue_date: string;
+}
+
+export interface ECFRStructure {
+  identifier: string;
+  label: string;
+  type: string;
+  children?: ECFRStructure[];
+  text?: string;
+}
+
+export interface ECFRVersion {
+  date: string;
+  amendment_date: string;
+  issue_date: string;
+  identifier: string;
+  name: string;
+  part: string;
+  substantive: boolean;
+  removed: boolean;
+  subpart: string | null;
+  title: string;
+  type: string;
+}
+
+// Portion of the CFR an agency is responsible for: a whole title or one of its subdivisions
+export interface ECFRCfrReference {
+  title: number;
+  subtitle?: string;
+  chapter?: string;
+  subchapter?: string;
+  part?: string;
+}
+
+export interface ECFRAgency {
+  name: string;
+  short_name: string | null;
+  display_name: string | null;
+  sortable_name: string | null;
+  slug: string;
+  children?: ECFRAgency[];
+  cfr_references?: ECFRCfrReference[];
+}
+
+export interface FetchOptions {
+  // Aborts the download (including a stream that is already being read)
+  signal?: AbortSignal;
+}
+
+/**
+ * Where eCFR data comes from: the live ecfr.gov API or an offline mirror
+ */
+export interface EcfrSource {
+  readonly kind: 'http' | 'local';
+  // List of all CFR titles with their latest issue dates
+  getTitles(): Promise<ECFRTitle[]>;
+  // Full XML of a title as of a date, as a byte stream; null when the source has no copy
+  // (other failures are thrown)
+  getTitleXml(titleNumber: number, date: string, options?: FetchOptions): Promise<Readable | null>;
+  // Amendment history of a title
+  getVersions(titleNumber: number): Promise<ECFRVersion[]>;
+  // Hierarchy (structure) of a title as of a date; null when not available
+  getStructure(titleNumber: number, date: string): Promise<ECFRStructure | null>;
+  // Agencies (with their child agencies) and the portions of the CFR they are responsible for
+  getAgencies(): Promise<ECFRAgency[]>;
+}
+
+/**
+ * Reads eCFR data from the ecfr.gov versioner API (and the agencies list from the admin API)
+ * through the resilient HTTP client
+ */
+export class HttpEcfrSource implements EcfrSource {
+  readonly kind = 'http';
+
+  constructor(
+    private readonly client: EcfrHttpClient = new EcfrHttpClient(ECFR_API_BASE),
+    private readonly adminClient: EcfrHttpClient = client.withBaseUrl(ECFR_ADMIN_API_BASE),
+  ) {}
+
+  /**
+   * Fetches the list of all CFR titles from the eCFR API
+   */
+  async getTitles(): Promise<ECFRTitle[]> {
+    const data = await this.client.getJson<{ titles?: ECFRTitle[] }>('/titles');
+    return data.titles || [];
+  }
+
+  /**
+   * Fetches the full regulatory text content for a specific title on a specific date
+   * Returns the XML as a byte stream straight from the HTTP response (never buffered)
+   */
+  async getTitleXml(titleNumber: number, date: string, options: FetchOptions = {}): Promise<Readable | null> {
+    try {
+      return await this.client.getStream(`/full/${date}/title-${titleNumber}.xml`, options);
+    } catch (error) {
+      if (error instanceof EcfrNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  async getVersions(titleNumber: number): Promise<ECFRVersion[]> {
+    try {
+      const data = await this.client.getJson<{ content_versions?: ECFRVersion[] }>(`/versions/title-${titleNumber}.json`);
+      return data.content_versions || [];
+    } catch (error) {
+      if (error instanceof EcfrNotFoundError) return [];
+      throw error;
+    }
+  }
+
+  async getStructure(titleNumber: number, date: string): Promise<ECFRStructure | null> {
+    try {
+      return await this.client.getJson<ECFRStructure>(`/structure/${date}/title-${titleNumber}.json`);
+    } catch (error) {
+      if (error instanceof EcfrNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  async getAgencies(): Promise<ECFRAgency[]> {
+    const data = await this.adminClient.getJson<{ agencies?: ECFRAgency[] }>('/agencies.json');
+    return data.agencies || [];
+  }
+}
+
+/**
+ * Reads eCFR data from a local mirror directory so the analyzer can run air-gapped.
+ *
+ * Layout:
+ *   titles.json                   - same shape as the API /titles response
+ *   title-N.xml                   - full XML of title N (used for any date)
+ *   YYYY-MM-DD/title-N.xml        - optional point-in-time copy, preferred when present
+ *   versions/title-N.json         - same shape as the API /versions response
+ *   structure/title-N.json        - same shape as the API /structure response
+ *   agencies.json                 - same shape as the admin API /agencies.json response
+ */
+export class LocalMirrorEcfrSource implements EcfrSource {
+  readonly kind = 'local';
+
+  constructor(private readonly directory: string) {}
+
+  async getTitles(): Promise<ECFRTitle[]> {
+    const data = await this.readJson<{ titles?: ECFRTitle[] } | ECFRTitle[]>('titles.json');
+    if (!data) {
+      throw new Error(`No titles.json in eCFR mirror ${this.directory}`);
+    }
+    return Array.isArray(data) ? data : data.titles || [];
+  }
+
+  async getTitleXml(titleNumber: number, date: string, options: FetchOptions = {}): Promise<Readable | null> {
+    for (const candidate of [path.join(date, `title-${titleNumber}.xml`), `title-${titleNumber}.xml`]) {
+      const filePath = path.join(this.directory, candidate);
+      if (await fileExists(filePath)) {
+        return createReadStream(filePath, { signal: options.signal });
+      }
+    }
+    return null;
+  }
+
+  async getVersions(titleNumber: number): Promise<ECFRVersion[]> {
+    const data = await this.readJson<{ content_versions?: ECFRVersion[] }>(
+      path.join('versions', `title-${titleNumber}.json`),
+    );
+    return data?.content_versions || [];
+  }
+
+  async getStructure(titleNumber: number, _date: string): Promise<ECFRStructure | null> {
+    return await this.readJson<ECFRStructure>(path.join('structure', `title-${titleNumber}.json`));
+  }
+
+  async getAgencies(): Promise<ECFRAgency[]> {
+    const data = await this.readJson<{ agencies?: ECFRAgency[] }>('agencies.json');
+    return data?.agencies || [];
+  }
+
+  private async readJson<T>(relativePath: string): Promise<T | null> {
+    const filePath = path.join(this.directory, relativePath);
+    if (!(await fileExists(filePath))) {
+      return null;
+    }
+    return JSON.parse(await readFile(filePath, 'utf8')) as T;
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Selects the eCFR source from the environment:
+ *   ECFR_SOURCE=http (default)  - live API, base URLs overridable with ECFR_API_BASE (versioner)
+ *                                 and ECFR_ADMIN_API_BASE (agencies)
+ *   ECFR_SOURCE=local           - mirror directory given by ECFR_MIRROR_DIR
+ * The HTTP client is tuned with ECFR_TIMEOUT_MS, ECFR_MAX_RETRIES, ECFR_RETRY_BASE_MS,
+ * ECFR_RETRY_MAX_MS and ECFR_REQUESTS_PER_SECOND. Downloads from the API go through the
+ * XML disk cache when one is given
+ */
+export function createEcfrSource(
+  env: NodeJS.ProcessEnv = process.env,
+  cache: XmlCache | null = xmlCache,
+): EcfrSource {
+  const kind = env.ECFR_SOURCE || 'http';
+  if (kind === 'local') {
+    if (!env.ECFR_MIRROR_DIR) {
+      throw new Error("ECFR_MIRROR_DIR must be set when ECFR_SOURCE=local");
+    }
+    return new LocalMirrorEcfrSource(path.resolve(env.ECFR_MIRROR_DIR));
+  }
+  if (kind !== 'http') {
+    throw new Error(`Unknown ECFR_SOURCE "${kind}" (expected "http" or "local")`);
+  }
+  // Both APIs are on ecfr.gov, so they share one request budget
+  const client = new EcfrHttpClient(env.ECFR_API_BASE || ECFR_API_BASE, httpClientOptions(env));
+  const source = new HttpEcfrSource(client, client.withBaseUrl(env.ECFR_ADMIN_API_BASE || ECFR_ADMIN_API_BASE));
+  return cache ? new CachingEcfrSource(source, cache) : source;
+}
+
+function httpClientOptions(env: NodeJS.ProcessEnv): EcfrHttpClientOptions {
+  const number = (name: string, fallback: number) => {
+    const value = env[name];
+    if (value === undefined || value === '') return fallback;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a non-negative number`);
+    }
+    return parsed;
+  };
+  const defaults = DEFAULT_HTTP_CLIENT_OPTIONS;
+  return {
+    timeoutMs: number('ECFR_TIMEOUT_MS', defaults.timeoutMs),
+    maxRetries: number('ECFR_MAX_RETRIES', defaults.maxRetries),
+    retryBaseDelayMs: number('ECFR_RETRY_BASE_MS', defaults.retryBaseDelayMs),
+    retryMaxDelayMs: number('ECFR_RETRY_MAX_MS', defaults.retryMaxDelayMs),
+    requestsPerSecond: number('ECFR_REQUESTS_PER_SECOND', defaults.requestsPerSecond) || defaults.requestsPerSecond,
+  };
+}
+
+export const ecfrSource = createEcfrSource();
@@ -0,0 +1,35 @@
+import { EventEmitter } from "events";
+import type { FetchEvent } from "@shared/schema";
+
+const FINISHED_JOB_STATUSES = ['succeeded', 'failed', 'cancelled'];
+
+// In-process broadcast of fetch job progress to the connected SSE clients
+const emitter = new EventEmitter();
+// One listener per connected client
+emitter.setMaxListeners(0);
+
+// Latest state of each running job, replayed to clients that connect mid-job
+const activeJobs = new Map<string, FetchEvent>();
+
+export function publishFetchEvent(event: FetchEvent): void {
+  if (event.type === 'job' && FINISHED_JOB_STATUSES.includes(event.status)) {
+    activeJobs.delete(event.jobId);
+  } else if (event.type === 'job' || event.type === 'title') {
+    activeJobs.set(event.jobId, event);
+  }
+  emitter.emit('event', event);
+}
+
+/**
+ * Registers a listener for fetch events; returns a function that removes it
+ */
+export function subscribeFetchEvents(listener: (event: FetchEvent) => void): () => void {
+  emitter.on('event', listener);
+  return () => {
+    emitter.off('event', listener);
+  };
+}
+
+export function getActiveFetchEvents(): FetchEvent[] {
+  return Array.from(activeJobs.values());
+}
@@ -0,0 +1,728 @@
+import type { Readable } from "stream";
+import { storage, type FetchLock } from "./storage";
+import { ecfrSource } from "./ecfr-source";
+import { publishFetchEvent } from "./fetch-events";
+import { sourceArchive } from "./source-archive";
+import { syncAmendments } from "./amendments";
+import { syncAgencies } from "./agencies";
+import {
+  analyzeXmlStream,
+  ANALYZER_VERSION,
+  type HierarchyAnalysis,
+  type HierarchyNode,
+} from "./ecfr-service";
+import type {
+  FetchJob,
+  FetchJobKind,
+  FetchJobReport,
+  FetchLockStatus,
+  FetchTask,
+  FetchTaskStatus,
+  InsertCitation,
+  InsertRegulation,
+  Snapshot,
+  TitleVersion,
+} from "@shared/schema";
+
+const FINISHED_JOB_STATUSES = ['succeeded', 'failed', 'cancelled'];
+const CANCELLED_REASON = 'Cancelled';
+// Minimum time between download progress events of a title
+const PROGRESS_EVENT_INTERVAL_MS = 1000;
+
+// Abort controllers of the jobs running in this process, by job id
+const runningJobs = new Map<string, AbortController>();
+
+/**
+ * Raised when a fetch job is requested while another one holds the fetch lock
+ */
+export class FetchInProgressError extends Error {
+  constructor(readonly jobId: string | null) {
+    super(jobId ? `Fetch job ${jobId} is already running` : 'A fetch job is already running');
+    this.name = 'FetchInProgressError';
+  }
+}
+
+export interface FetchJobOptions {
+  // 'fetch' downloads from eCFR; 'reanalyze' replays the analyzer over archived source XML
+  kind?: FetchJobKind;
+  // Specific title numbers to fetch (all titles when omitted)
+  titleNumbers?: number[];
+  // Re-fetch titles even when their eCFR issue date is unchanged
+  force?: boolean;
+}
+
+/**
+ * Creates a fetch job (and its progress metadata) and starts it in the background.
+ * Throws FetchInProgressError when another job holds the fetch lock
+ */
+export async function startFetchJob({
+  kind = 'fetch',
+  titleNumbers,
+  force = false,
+}: FetchJobOptions = {}): Promise<FetchJob> {
+  const lock = await storage.tryAcquireFetchLock();
+  if (!lock) {
+    throw new FetchInProgressError((await getFetchLockStatus()).jobId);
+  }
+
+  let job: FetchJob;
+  try {
+    job = await createFetchJob(kind, titleNumbers, force);
+  } catch (error) {
+    await lock.release();
+    throw error;
+  }
+
+  // Fetch in background (don't block the caller)
+  performECFRFetch(job, lock).catch(err => {
+    console.error("Background fetch failed:", err);
+  });
+
+  return job;
+}
+
+/**
+ * Makes a complete snapshot current again (a rollback) while holding the fetch lock, so a job
+ * cannot activate its own snapshot over it. Throws FetchInProgressError while a job holds the
+ * lock or an unfinished job is waiting to be resumed
+ */
+export async function rollBackToSnapshot(snapshotId: string): Promise<Snapshot> {
+  const lock = runningJobs.size === 0 ? await storage.tryAcquireFetchLock() : null;
+  if (!lock) {
+    throw new FetchInProgressError((await getFetchLockStatus()).jobId);
+  }
+
+  try {
+    const [unfinished] = await storage.getUnfinishedFetchJobs();
+    if (unfinished) {
+      throw new FetchInProgressError(unfinished.id);
+    }
+
+    const activated = await storage.activateSnapshot(snapshotId);
+    // No job is running, so the latest metadata belongs to a finished job
+    const metadata = await storage.getLatestMetadata();
+    if (metadata) {
+      await storage.updateMetadata(metadata.id, { totalRegulations: activated.sectionCount });
+    }
+    return activated;
+  } finally {
+    await lock.release();
+  }
+}
+
+async function createFetchJob(
+  kind: FetchJobKind,
+  titleNumbers: number[] | undefined,
+  force: boolean,
+): Promise<FetchJob> {
+  const metadata = await storage.createMetadata({
+    lastFetchAt: new Date(),
+    status: 'in_progress',
+    // The current snapshot stays visible while the job builds the next one
+    totalRegulations: await storage.countRegulationsByType('section'),
+    progressCurrent: 0,
+    progressTotal: 0,
+    currentTitle: 'Initializing...',
+  });
+
+  return await storage.createFetchJob({
+    metadataId: metadata.id,
+    kind,
+    status: 'pending',
+    titleNumbers: titleNumbers && titleNumbers.length > 0 ? titleNumbers : null,
+    force,
+  });
+}
+
+/**
+ * Reports whether a fetch job holds the fetch lock, and which one
+ */
+export async function getFetchLockStatus(): Promise<FetchLockStatus> {
+  const localJobId = runningJobs.keys().next().value;
+  if (localJobId) {
+    return { locked: true, jobId: localJobId };
+  }
+  if (!(await storage.isFetchLocked())) {
+    return { locked: false, jobId: null };
+  }
+
+  // Held by another process: report its job (a running one first)
+  const jobs = await storage.getUnfinishedFetchJobs();
+  const job = jobs.find(j => j.status === 'running') ?? jobs[0];
+  return { locked: true, jobId: job?.id ?? null };
+}
+
+/**
+ * Returns a job with its per-title task outcomes
+ */
+export async function getFetchJobReport(jobId: string): Promise<FetchJobReport | undefined> {
+  const job = await storage.getFetchJob(jobId);
+  if (!job) return undefined;
+
+  const tasks = await storage.getFetchTasks(jobId);
+  const summary: Record<FetchTaskStatus, number> = {
+    pending: 0,
+    running: 0,
+    succeeded: 0,
+    skipped: 0,
+    failed: 0,
+  };
+  for (const task of tasks) {
+    summary[task.status as FetchTaskStatus]++;
+  }
+
+  return { ...job, tasks, summary };
+}
+
+/**
+ * Requests cancellation of a job. A job running in this process is aborted (including
+ * the download in flight) and finalizes itself; any other unfinished job is finalized here
+ */
+export async function cancelFetchJob(jobId: string): Promise<FetchJob | undefined> {
+  const job = await storage.getFetchJob(jobId);
+  if (!job || FINISHED_JOB_STATUSES.includes(job.status)) return job;
+
+  const updated = await storage.updateFetchJob(jobId, { cancelRequested: true });
+  const controller = runningJobs.get(jobId);
+  if (controller) {
+    controller.abort();
+    return updated;
+  }
+
+  return await finalizeCancelledJob(updated);
+}
+
+/**
+ * Resumes jobs left unfinished by a previous process (e.g. after a restart).
+ * Tasks that were running when the process stopped are retried; finished tasks are kept.
+ * Jobs are left alone while another process holds the fetch lock
+ */
+export async function resumeFetchJobs(): Promise<void> {
+  const jobs = await storage.getUnfinishedFetchJobs();
+  for (const job of jobs) {
+    if (runningJobs.has(job.id)) continue;
+
+    if (job.cancelRequested) {
+      await finalizeCancelledJob(job);
+      continue;
+    }
+
+    const lock = await storage.tryAcquireFetchLock();
+    if (!lock) {
+      console.log(`Not resuming fetch job ${job.id}: another process holds the fetch lock`);
+      return;
+    }
+
+    console.log(`Resuming fetch job ${job.id}`);
+    await storage.resetRunningFetchTasks(job.id);
+    await performECFRFetch(job, lock);
+  }
+}
+
+async function finalizeCancelledJob(job: FetchJob): Promise<FetchJob> {
+  await storage.skipPendingFetchTasks(job.id, CANCELLED_REASON);
+  await discardSnapshot(job.id);
+  const metadata = await storage.updateMetadata(job.metadataId, {
+    status: 'cancelled',
+    errorMessage: CANCELLED_REASON,
+    currentTitle: null,
+  });
+  const cancelled = await storage.updateFetchJob(job.id, {
+    status: 'cancelled',
+    finishedAt: new Date(),
+  });
+  publishFetchEvent({
+    type: 'job',
+    jobId: job.id,
+    status: 'cancelled',
+    progressCurrent: metadata.progressCurrent ?? 0,
+    progressTotal: metadata.progressTotal ?? 0,
+    totalRegulations: metadata.totalRegulations,
+    errorMessage: CANCELLED_REASON,
+  });
+  return cancelled;
+}
+
+// A snapshot that was never completed is kept for inspection but can never be activated
+async function discardSnapshot(jobId: string): Promise<void> {
+  const snapshot = await storage.getSnapshotByJob(jobId);
+  if (snapshot && snapshot.status === 'building') {
+    await storage.updateSnapshot(snapshot.id, { status: 'discarded' });
+  }
+}
+
+/**
+ * Creates one task per title. Unless the job is forced, titles whose eCFR issue date
+ * matches the current snapshot are recorded as skipped without being downloaded
+ */
+async function createFetchTasks(job: FetchJob): Promise<FetchTask[]> {
+  if (job.kind === 'reanalyze') {
+    return await createReanalyzeTasks(job);
+  }
+
+  // Fetch titles
+  const titles = await ecfrSource.getTitles();
+  console.log(`Found ${titles.length} titles`);
+
+  // Filter non-reserved titles
+  let validTitles = titles.filter(t => !t.reserved);
+
+  // Further filter by specific title numbers if provided
+  const titleNumbers = job.titleNumbers;
+  if (titleNumbers && titleNumbers.length > 0) {
+    validTitles = validTitles.filter(t => titleNumbers.includes(t.number));
+    console.log(`Filtering to ${validTitles.length} requested titles: ${titleNumbers.join(', ')}`);
+  }
+
+  const storedIssueDates = new Map(
+    (await storage.getSnapshotTitleVersions()).map(version => [version.titleNumber, version.issueDate]),
+  );
+
+  return await storage.createFetchTasks(validTitles.map(title => {
+    const unchanged = !job.force && storedIssueDates.get(title.number) === title.latest_issue_date;
+    return {
+      jobId: job.id,
+      titleNumber: title.number,
+      titleName: title.name,
+      issueDate: title.latest_issue_date,
+      status: unchanged ? 'skipped' : 'pending',
+      reason: unchanged ? `Unchanged since ${title.latest_issue_date}` : null,
+      finishedAt: unchanged ? new Date() : null,
+    };
+  }));
+}
+
+/**
+ * Creates one task per title of the current snapshot; titles whose source XML was never
+ * archived cannot be re-analyzed and are recorded as skipped
+ */
+async function createReanalyzeTasks(job: FetchJob): Promise<FetchTask[]> {
+  const titleNumbers = job.titleNumbers;
+  const versions = (await storage.getSnapshotTitleVersions())
+    .filter(version => !titleNumbers || titleNumbers.includes(version.titleNumber));
+
+  return await storage.createFetchTasks(versions.map(version => ({
+    jobId: job.id,
+    titleNumber: version.titleNumber,
+    titleName: version.titleName,
+    issueDate: version.issueDate,
+    status: version.sourceHash ? 'pending' : 'skipped',
+    reason: version.sourceHash ? null : 'No archived source XML',
+    finishedAt: version.sourceHash ? null : new Date(),
+  })));
+}
+
+/**
+ * Converts a title analysis into regulation rows: one for the title itself plus one per
+ * hierarchy node. Metrics are pre-calculated from the full text and stored as integers
+ * to avoid floating point precision issues
+ */
+function buildRegulationRows(
+  title: { number: number; name: string },
+  analysis: HierarchyAnalysis,
+): Omit<InsertRegulation, 'titleVersionId'>[] {
+  const titleNode: HierarchyNode = {
+    ...analysis,
+    type: 'title',
+    identifier: String(title.number),
+    heading: analysis.heading || title.name,
+    parentPath: '',
+    depth: 0,
+    position: 0,
+    chapter: null,
+    part: null,
+    section: null,
+  };
+
+  return [titleNode, ...analysis.nodes].map(node => ({
+    title: `Title ${title.number}`,
+    titleNumber: title.number,
+    nodeType: node.type,
+    identifier: node.identifier,
+    heading: node.heading,
+    parentPath: node.parentPath,
+    depth: node.depth,
+    position: node.position,
+    chapter: node.chapter,
+    part: node.part,
+    section: node.section,
+    // Store empty text since we never built the full text
+    textContent: '',
+    wordCount: node.wordCount,
+    checksum: node.checksum,
+    sentenceCount: node.sentenceCount,
+    uniqueWords: node.uniqueWords,
+    avgSentenceLength: Math.round(node.avgSentenceLength * 100), // Store as integer * 100
+    vocabularyDiversity: Math.round(node.vocabularyDiversity * 10000), // Store as integer * 10000
+    sectionCount: node.sectionCount,
+    syllableCount: node.syllableCount,
+    polysyllableCount: node.polysyllableCount,
+    letterCount: node.letterCount,
+    restrictionCount: node.restrictionCount,
+    analyzerVersion: ANALYZER_VERSION,
+  }));
+}
+
+/**
+ * Converts the references found in each node into citation rows (one per node and target)
+ */
+function buildCitationRows(
+  titleNumber: number,
+  analysis: HierarchyAnalysis,
+): Omit<InsertCitation, 'titleVersionId'>[] {
+  return analysis.nodes.flatMap(node => (node.citations ?? []).map(citation => ({
+    titleNumber,
+    sourceType: node.type,
+    sourceIdentifier: node.identifier,
+    sourcePart: node.part,
+    targetKind: citation.kind,
+    targetTitle: citation.titleNumber,
+    targetPart: citation.part,
+    targetSection: citation.section,
+    targetLabel: citation.label,
+    count: citation.count,
+  })));
+}
+
+/**
+ * Opens the XML a task analyzes: a download from eCFR (archived as it streams) or, for a
+ * re-analysis, the archived source of the current version. Null when there is none
+ */
+async function openTaskSource(
+  job: FetchJob,
+  task: FetchTask,
+  currentVersion: TitleVersion | undefined,
+  signal: AbortSignal,
+): Promise<{ xmlStream: Readable; sourceHash: Promise<string | null> } | null> {
+  if (job.kind === 'reanalyze') {
+    const sourceHash = currentVersion?.sourceHash;
+    const xmlStream = sourceHash ? await sourceArchive.open(sourceHash, { signal }) : null;
+    return xmlStream ? { xmlStream, sourceHash: Promise.resolve(sourceHash!) } : null;
+  }
+
+  const download = await ecfrSource.getTitleXml(task.titleNumber, task.issueDate, { signal });
+  if (!download) return null;
+  const { output, stored } = await sourceArchive.archive(download);
+  return { xmlStream: output, sourceHash: stored };
+}
+
+/**
+ * Fetches (or re-reads), analyzes and stores one title as a new title version of the job's
+ * snapshot. Records the outcome on the task row
+ * @param currentVersion - Version of the title in the current snapshot, if any
+ */
+async function runFetchTask(
+  job: FetchJob,
+  task: FetchTask,
+  signal: AbortSignal,
+  snapshot: Snapshot,
+  currentVersion: TitleVersion | undefined,
+): Promise<FetchTask> {
+  await storage.updateFetchTask(task.id, { status: 'running', startedAt: new Date() });
+
+  try {
+    const source = await openTaskSource(job, task, currentVersion, signal);
+    if (!source) {
+      console.log(`No content for title ${task.titleNumber} - skipping`);
+      return await finishTask(task, 'skipped', job.kind === 'reanalyze'
+        ? 'Archived source XML is missing'
+        : 'No content available from eCFR');
+    }
+
+    // Stream the XML straight into the SAX parser: it is never buffered,
+    // so memory stays flat regardless of title size (Title 40 is ~156M characters)
+    console.log(`Starting streaming analysis for ${task.titleName}...`);
+    let lastProgressAt = 0;
+    const analysis = await analyzeXmlStream(source.xmlStream, {
+      citations: { titleNumber: task.titleNumber },
+      onProgress: ({ bytesRead, wordCount }) => {
+        const now = Date.now();
+        if (now - lastProgressAt < PROGRESS_EVENT_INTERVAL_MS) return;
+        lastProgressAt = now;
+        publishFetchEvent({ type: 'progress', jobId: task.jobId, titleNumber: task.titleNumber, bytesRead, wordCount });
+      },
+    });
+    const sourceHash = await source.sourceHash;
+
+    if (analysis.wordCount === 0) {
+      console.log(`No text content for title ${task.titleNumber} - skipping`);
+      return await finishTask(task, 'skipped', 'No text content');
+    }
+
+    console.log(`Analysis complete for ${task.titleName}: ${analysis.bytesRead} bytes, ${analysis.wordCount} words, ${analysis.sentenceCount} sentences`);
+
+    // A new issue date does not always mean new text: the snapshot keeps the current version
+    // and records the issue date it was checked for on its own entry, so the version row (shared
+    // with older snapshots) is unchanged and the date only shows once the snapshot is activated.
+    // A re-analysis always writes a new version, since the metrics are what changed
+    if (job.kind === 'fetch' && !job.force && currentVersion?.checksum === analysis.checksum) {
+      await storage.setSnapshotTitle(snapshot.id, task.titleNumber, currentVersion.id, task.issueDate);
+      if (!currentVersion.sourceHash && sourceHash) {
+        // Same text, so the newly archived XML can serve re-analyses of the version
+        await storage.updateTitleVersion(currentVersion.id, { sourceHash });
+      }
+      console.log(`Content of title ${task.titleNumber} unchanged - keeping stored data`);
+      return await finishTask(task, 'skipped', 'Content unchanged (checksum match)');
+    }
+
+    // Write the hierarchy as a new version (one row for the title plus one per node);
+    // the current snapshot keeps serving the previous version until this one is activated
+    const rows = buildRegulationRows({ number: task.titleNumber, name: task.titleName }, analysis);
+    const citationRows = buildCitationRows(task.titleNumber, analysis);
+    const version = await storage.createTitleVersion({
+      titleNumber: task.titleNumber,
+      titleName: task.titleName,
+      issueDate: task.issueDate,
+      checksum: analysis.checksum,
+      sourceHash,
+      analyzerVersion: ANALYZER_VERSION,
+      jobId: task.jobId,
+      sectionCount: analysis.sectionCount,
+      wordCount: analysis.wordCount,
+    }, rows, citationRows);
+    await storage.setSnapshotTitle(snapshot.id, task.titleNumber, version.id);
+
+    console.log(`Stored ${rows.length} hierarchy nodes and ${citationRows.length} citations for ${task.titleName} (${analysis.sectionCount} sections, ${analysis.wordCount} words)`);
+
+    return await finishTask(task, 'succeeded', null, {
+      sectionCount: analysis.sectionCount,
+      wordCount: analysis.wordCount,
+    });
+  } catch (error) {
+    if (signal.aborted) {
+      return await finishTask(task, 'skipped', CANCELLED_REASON);
+    }
+    console.error(`Error processing title ${task.titleNumber} (${task.titleName}):`, error);
+    return await finishTask(task, 'failed', error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+async function finishTask(
+  task: FetchTask,
+  status: FetchTaskStatus,
+  reason: string | null,
+  counts: { sectionCount?: number; wordCount?: number } = {},
+): Promise<FetchTask> {
+  const finished = await storage.updateFetchTask(task.id, {
+    status,
+    reason,
+    ...counts,
+    finishedAt: new Date(),
+  });
+  publishFetchEvent({ type: 'task', jobId: task.jobId, task: finished });
+  return finished;
+}
+
+/**
+ * Creates the snapshot a job writes into. It starts as a copy of the current snapshot:
+ * a selective job keeps every other title, a full job keeps only titles still published.
+ * Titles that are skipped or fail therefore keep their previous version
+ */
+async function createJobSnapshot(job: FetchJob, tasks: FetchTask[]): Promise<Snapshot> {
+  const snapshot = await storage.createSnapshot({ jobId: job.id, status: 'building' });
+  const publishedTitles = new Set(tasks.map(t => t.titleNumber));
+
+  for (const version of await storage.getSnapshotTitleVersions()) {
+    if (job.titleNumbers || publishedTitles.has(version.titleNumber)) {
+      await storage.setSnapshotTitle(snapshot.id, version.titleNumber, version.id, version.issueDate);
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Completes a job's snapshot and promotes it to current. The number of broken citations is
+ * recorded with it, so data quality can be followed from snapshot to snapshot
+ */
+async function activateJobSnapshot(snapshot: Snapshot): Promise<Snapshot> {
+  const versions = await storage.getSnapshotTitleVersions(snapshot.id);
+  const issueDates = versions.map(v => v.issueDate).sort();
+
+  await storage.updateSnapshot(snapshot.id, {
+    status: 'complete',
+    issueDate: issueDates[issueDates.length - 1] ?? null,
+    titleCount: versions.length,
+    sectionCount: versions.reduce((sum, v) => sum + v.sectionCount, 0),
+    brokenCitationCount: await storage.countBrokenCitations(snapshot.id),
+    completedAt: new Date(),
+  });
+  return await storage.activateSnapshot(snapshot.id);
+}
+
+/**
+ * Background task to fetch eCFR data for a job. Safe to call again for a job that was
+ * interrupted: only pending tasks are processed. Everything is written into the job's
+ * snapshot, which only becomes visible once all titles have been processed.
+ * Releases the fetch lock when done
+ */
+async function performECFRFetch(job: FetchJob, lock: FetchLock) {
+  const controller = new AbortController();
+  runningJobs.set(job.id, controller);
+  const metadataId = job.metadataId;
+  publishFetchEvent({ type: 'job', jobId: job.id, status: 'running', progressCurrent: 0, progressTotal: 0 });
+
+  try {
+    console.log(`Starting eCFR fetch job ${job.id}...`);
+    await storage.updateFetchJob(job.id, {
+      status: 'running',
+      startedAt: job.startedAt ?? new Date(),
+    });
+
+    let tasks = await storage.getFetchTasks(job.id);
+    if (tasks.length === 0) {
+      tasks = await createFetchTasks(job);
+    }
+    const snapshot = await storage.getSnapshotByJob(job.id) ?? await createJobSnapshot(job, tasks);
+
+    const currentVersions = new Map(
+      (await storage.getSnapshotTitleVersions()).map(version => [version.titleNumber, version]),
+    );
+    const totalTitles = tasks.length;
+    let currentProgress = tasks.filter(t => t.status !== 'pending').length;
+    let fetchedSections = tasks.reduce((sum, t) => sum + (t.sectionCount || 0), 0);
+
+    // Update metadata with total count
+    await storage.updateMetadata(metadataId, {
+      status: 'in_progress',
+      progressTotal: totalTitles,
+      progressCurrent: currentProgress,
+      currentTitle: 'Starting fetch...',
+    });
+    publishFetchEvent({
+      type: 'job',
+      jobId: job.id,
+      status: 'running',
+      progressCurrent: currentProgress,
+      progressTotal: totalTitles,
+    });
+
+    // Titles are processed one at a time; each is streamed so memory stays flat
+    for (const task of tasks) {
+      if (task.status !== 'pending') continue;
+      if (controller.signal.aborted) break;
+      currentProgress++;
+
+      // Update progress (in-place update, not creating new row)
+      await storage.updateMetadata(metadataId, {
+        progressCurrent: currentProgress,
+        currentTitle: `Title ${task.titleNumber}: ${task.titleName}`,
+      });
+      publishFetchEvent({
+        type: 'title',
+        jobId: job.id,
+        titleNumber: task.titleNumber,
+        titleName: task.titleName,
+        progressCurrent: currentProgress,
+        progressTotal: totalTitles,
+      });
+
+      console.log(`[${currentProgress}/${totalTitles}] Fetching title ${task.titleNumber}: ${task.titleName}`);
+
+      // Failures are recorded on the task; continue with the next title
+      const result = await runFetchTask(
+        job,
+        task,
+        controller.signal,
+        snapshot,
+        currentVersions.get(task.titleNumber),
+      );
+      if (result.status === 'succeeded') {
+        fetchedSections += result.sectionCount || 0;
+      }
+    }
+
+    // Amendment history moves with each new issue; titles that fail to sync keep their previous
+    // history and do not fail the job
+    if (job.kind === 'fetch' && !controller.signal.aborted) {
+      await storage.updateMetadata(metadataId, { currentTitle: 'Syncing amendment history...' });
+      const { synced, failed } = await syncAmendments(
+        tasks.map(task => ({ titleNumber: task.titleNumber, issueDate: task.issueDate })),
+        { force: job.force, signal: controller.signal },
+      );
+      console.log(`Synced amendment history of ${synced} titles (${failed} failed)`);
+    }
+
+    // The agencies catalog attributes titles, chapters and parts to agencies; a failed sync keeps
+    // the previous catalog
+    if (job.kind === 'fetch' && !controller.signal.aborted) {
+      await storage.updateMetadata(metadataId, { currentTitle: 'Syncing agencies...' });
+      try {
+        await syncAgencies();
+      } catch (error) {
+        console.error("Error syncing agencies:", error);
+      }
+    }
+
+    if (controller.signal.aborted) {
+      console.log(`eCFR fetch job ${job.id} cancelled`);
+      await finalizeCancelledJob(job);
+      return;
+    }
+
+    // Atomically switch readers over to the new snapshot
+    const activated = await activateJobSnapshot(snapshot);
+    const actualTotalCount = activated.sectionCount;
+
+    // Update metadata with final success status and correct total count
+    await storage.updateMetadata(metadataId, {
+      status: 'success',
+      totalRegulations: actualTotalCount,
+      currentTitle: 'Complete',
+      progressCurrent: totalTitles,
+    });
+    await storage.updateFetchJob(job.id, {
+      status: 'succeeded',
+      finishedAt: new Date(),
+    });
+    publishFetchEvent({
+      type: 'job',
+      jobId: job.id,
+      status: 'succeeded',
+      progressCurrent: totalTitles,
+      progressTotal: totalTitles,
+      totalRegulations: actualTotalCount,
+    });
+
+    const skipped = tasks.filter(t => t.status === 'skipped').length;
+    console.log(`eCFR fetch job ${job.id} complete. Stored ${fetchedSections} sections in this fetch (${skipped} titles unchanged). Snapshot ${activated.id} is now current with ${actualTotalCount} sections.`);
+  } catch (error) {
+    console.error("Error in performECFRFetch:", error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    publishFetchEvent({
+      type: 'job',
+      jobId: job.id,
+      status: 'failed',
+      progressCurrent: 0,
+      progressTotal: 0,
+      errorMessage,
+    });
+
+    // The snapshot being built is abandoned; the current one keeps serving readers
+    try {
+      await discardSnapshot(job.id);
+      const actualTotalCount = await storage.countRegulationsByType('section');
+
+      await storage.updateMetadata(metadataId, {
+        status: 'error',
+        totalRegulations: actualTotalCount,
+        errorMessage,
+        progressCurrent: null,
+        progressTotal: null,
+        currentTitle: null,
+      });
+      await storage.updateFetchJob(job.id, {
+        status: 'failed',
+        errorMessage,
+        finishedAt: new Date(),
+      });
+    } catch (metadataError) {
+      // If we can't even update metadata, just log it
+      console.error("Error updating metadata on fetch failure:", metadataError);
+    }
+  } finally {
+    runningJobs.delete(job.id);
+    await lock.release().catch(error => {
+      console.error("Error releasing fetch lock:", error);
+    });
+  }
+}
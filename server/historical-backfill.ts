@@ -0,0 +1,259 @@
+import { storage } from "./storage";
+import { ecfrSource } from "./ecfr-source";
+import { getHistoricalSnapshot, toTrendPoint } from "./historical";
+import { resolveSnapshotDates } from "./snapshot-dates";
+import type {
+  CfrTrendPoint,
+  HistoricalBackfill,
+  HistoricalBackfillStatus,
+  HistoricalCfrReport,
+  HistoricalTrendPoint,
+  TitleGrowth,
+} from "@shared/schema";
+
+const FINISHED_BACKFILL_STATUSES: HistoricalBackfillStatus[] = ['succeeded', 'failed', 'cancelled'];
+const CANCELLED_REASON = 'Cancelled';
+// eCFR failures in a row (after the HTTP client's retries) that stop a backfill
+const MAX_CONSECUTIVE_FAILURES = 5;
+
+// Ids of the backfills running in this process
+const runningBackfills = new Set<string>();
+
+/**
+ * Raised when a backfill is requested while another one is unfinished
+ */
+export class BackfillInProgressError extends Error {
+  constructor(readonly backfillId: string) {
+    super(`Historical backfill ${backfillId} is already running`);
+    this.name = 'BackfillInProgressError';
+  }
+}
+
+export interface HistoricalBackfillOptions {
+  // First and last year to analyze (January 15th of each); defaults to 2017 through this year
+  startYear?: number;
+  endYear?: number;
+}
+
+/**
+ * Creates a backfill of every non-reserved title at yearly dates and runs it in the background.
+ * Throws BackfillInProgressError while another backfill is unfinished, and
+ * InvalidSnapshotDatesError for a range outside eCFR's history
+ */
+export async function startHistoricalBackfill({
+  startYear = 2017,
+  endYear = new Date().getFullYear(),
+}: HistoricalBackfillOptions = {}): Promise<HistoricalBackfill> {
+  const [unfinished] = await storage.getUnfinishedHistoricalBackfills();
+  if (unfinished) {
+    throw new BackfillInProgressError(unfinished.id);
+  }
+
+  const dates = resolveSnapshotDates({
+    granularity: 'yearly',
+    from: `${startYear}-01-15`,
+    to: `${endYear}-01-15`,
+  });
+  const titles = await ecfrSource.getTitles();
+  const titleNumbers = titles
+    .filter(t => !t.reserved)
+    .map(t => t.number)
+    .sort((a, b) => a - b);
+
+  const backfill = await storage.createHistoricalBackfill({
+    titleNumbers,
+    dates,
+    status: 'pending',
+    progressTotal: titleNumbers.length * dates.length,
+  });
+
+  // Backfill in background (don't block the caller)
+  runHistoricalBackfill(backfill).catch(err => {
+    console.error("Background historical backfill failed:", err);
+  });
+
+  return backfill;
+}
+
+/**
+ * Requests cancellation of a backfill. A running backfill stops before its next title/date;
+ * one that is not running in any process is finalized here
+ */
+export async function cancelHistoricalBackfill(backfillId: string): Promise<HistoricalBackfill | undefined> {
+  const backfill = await storage.getHistoricalBackfill(backfillId);
+  if (!backfill || FINISHED_BACKFILL_STATUSES.includes(backfill.status as HistoricalBackfillStatus)) {
+    return backfill;
+  }
+
+  const updated = await storage.updateHistoricalBackfill(backfillId, { cancelRequested: true });
+  if (runningBackfills.has(backfillId) || updated.status === 'running') {
+    return updated;
+  }
+  return await finishBackfill(backfillId, 'cancelled', CANCELLED_REASON);
+}
+
+/**
+ * Resumes backfills left unfinished by a previous process at the first unprocessed title/date
+ */
+export async function resumeHistoricalBackfills(): Promise<void> {
+  const backfills = await storage.getUnfinishedHistoricalBackfills();
+  for (const backfill of backfills) {
+    if (runningBackfills.has(backfill.id)) continue;
+
+    if (backfill.cancelRequested) {
+      await finishBackfill(backfill.id, 'cancelled', CANCELLED_REASON);
+      continue;
+    }
+    console.log(`Resuming historical backfill ${backfill.id}`);
+    await runHistoricalBackfill(backfill);
+  }
+}
+
+async function runHistoricalBackfill(backfill: HistoricalBackfill): Promise<void> {
+  runningBackfills.add(backfill.id);
+  try {
+    await storage.updateHistoricalBackfill(backfill.id, {
+      status: 'running',
+      startedAt: backfill.startedAt ?? new Date(),
+    });
+
+    const titles = await ecfrSource.getTitles();
+    const titleNames = new Map(titles.map(t => [t.number, t.name]));
+    const { titleNumbers, dates } = backfill;
+    let failedCount = backfill.failedCount;
+    let errorMessage = backfill.errorMessage;
+    let consecutiveFailures = 0;
+
+    // Title by title, so each title's history is complete as early as possible
+    for (let index = backfill.progressCurrent; index < backfill.progressTotal; index++) {
+      const titleNumber = titleNumbers[Math.floor(index / dates.length)];
+      const date = dates[index % dates.length];
+
+      const current = await storage.getHistoricalBackfill(backfill.id);
+      if (current?.cancelRequested) {
+        await finishBackfill(backfill.id, 'cancelled', CANCELLED_REASON);
+        return;
+      }
+      await storage.updateHistoricalBackfill(backfill.id, { currentTitle: titleNumber, currentDate: date });
+
+      try {
+        const titleName = titleNames.get(titleNumber) ?? `Title ${titleNumber}`;
+        await getHistoricalSnapshot(titleNumber, titleName, date);
+        consecutiveFailures = 0;
+      } catch (error) {
+        // Stored results of other titles/dates stay valid; a later backfill fills the gaps
+        console.error(`Backfill of Title ${titleNumber} at ${date} failed:`, error);
+        failedCount++;
+        consecutiveFailures++;
+        errorMessage = `Title ${titleNumber} (${date}): ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+
+      await storage.updateHistoricalBackfill(backfill.id, {
+        progressCurrent: index + 1,
+        failedCount,
+        errorMessage,
+      });
+
+      if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+        await finishBackfill(
+          backfill.id,
+          'failed',
+          `Stopped after ${MAX_CONSECUTIVE_FAILURES} consecutive failures. Last: ${errorMessage}`,
+        );
+        return;
+      }
+    }
+
+    await finishBackfill(backfill.id, 'succeeded', errorMessage);
+  } catch (error) {
+    console.error(`Historical backfill ${backfill.id} failed:`, error);
+    await finishBackfill(backfill.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+  } finally {
+    runningBackfills.delete(backfill.id);
+  }
+}
+
+async function finishBackfill(
+  backfillId: string,
+  status: HistoricalBackfillStatus,
+  errorMessage: string | null,
+): Promise<HistoricalBackfill> {
+  return await storage.updateHistoricalBackfill(backfillId, {
+    status,
+    errorMessage,
+    currentTitle: null,
+    currentDate: null,
+    finishedAt: new Date(),
+  });
+}
+
+/**
+ * CFR-wide totals per date and title growth rankings over the dates of the latest backfill.
+ * A running backfill reports the titles processed so far
+ */
+export async function getHistoricalCfrReport(): Promise<HistoricalCfrReport> {
+  const backfill = await storage.getLatestHistoricalBackfill();
+  if (!backfill) {
+    return { backfill: null, totals: [], growth: [] };
+  }
+
+  const titleNumbers = new Set(backfill.titleNumbers);
+  const snapshots = (await storage.getHistoricalSnapshotsAtDates(backfill.dates))
+    .filter(snapshot => titleNumbers.has(snapshot.titleNumber));
+
+  const byDate = new Map<string, HistoricalTrendPoint[]>();
+  const byTitle = new Map<number, { titleName: string; points: HistoricalTrendPoint[] }>();
+  for (const snapshot of snapshots) {
+    const point = toTrendPoint(snapshot);
+    byDate.set(point.date, [...(byDate.get(point.date) ?? []), point]);
+    const title = byTitle.get(snapshot.titleNumber) ?? { titleName: snapshot.titleName, points: [] };
+    title.points.push(point);
+    byTitle.set(snapshot.titleNumber, title);
+  }
+
+  const totals: CfrTrendPoint[] = backfill.dates
+    .filter(date => byDate.has(date))
+    .map(date => {
+      const points = byDate.get(date)!;
+      const wordCount = points.reduce((sum, p) => sum + p.wordCount, 0);
+      const sentenceCount = points.reduce((sum, p) => sum + p.sentenceCount, 0);
+      const weightedRci = points.reduce((sum, p) => sum + p.rci * p.wordCount, 0);
+      return {
+        year: parseInt(date.slice(0, 4)),
+        date,
+        titleCount: points.length,
+        wordCount,
+        sentenceCount,
+        sectionCount: points.reduce((sum, p) => sum + p.sectionCount, 0),
+        avgSentenceLength: sentenceCount > 0 ? wordCount / sentenceCount : 0,
+        rci: wordCount > 0 ? weightedRci / wordCount : 0,
+      };
+    });
+
+  const growth: TitleGrowth[] = [];
+  for (const [titleNumber, { titleName, points }] of Array.from(byTitle.entries())) {
+    if (points.length < 2) continue;
+    // Snapshots come ordered by date
+    const first = points[0];
+    const last = points[points.length - 1];
+    const wordCountChange = last.wordCount - first.wordCount;
+    growth.push({
+      titleNumber,
+      titleName,
+      fromDate: first.date,
+      toDate: last.date,
+      fromWordCount: first.wordCount,
+      toWordCount: last.wordCount,
+      wordCountChange,
+      growthPercent: first.wordCount > 0 ? roundTo2(wordCountChange / first.wordCount * 100) : 0,
+      rciChange: roundTo2(last.rci - first.rci),
+    });
+  }
+  growth.sort((a, b) => b.growthPercent - a.growthPercent);
+
+  return { backfill, totals, growth };
+}
+
+function roundTo2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,192 @@
+import { storage } from "./storage";
+import { ecfrSource } from "./ecfr-source";
+import { analyzeXmlStream, calculateRCI, ANALYZER_VERSION, EcfrHttpError } from "./ecfr-service";
+import { calculateReadability } from "./readability";
+import type {
+  HistoricalDatesRequest,
+  HistoricalJob,
+  HistoricalJobReport,
+  HistoricalJobStatus,
+  HistoricalSnapshot,
+  HistoricalTrendPoint,
+} from "@shared/schema";
+
+// Ids of the historical jobs running in this process
+const runningJobs = new Set<string>();
+
+/**
+ * Returns the metrics of a title as of a date. Stored results are reused; otherwise the title
+ * is downloaded and analyzed once and the result persisted. Null when eCFR has no text for the
+ * date. eCFR failures are thrown (the HTTP client has already retried them)
+ */
+export async function getHistoricalSnapshot(
+  titleNumber: number,
+  titleName: string,
+  date: string,
+): Promise<HistoricalSnapshot | null> {
+  const stored = await storage.getHistoricalSnapshot(titleNumber, date);
+  // Results of an older analyzer are recomputed
+  if (stored && stored.analyzerVersion === ANALYZER_VERSION) {
+    return stored;
+  }
+
+  console.log(`Fetching historical data for Title ${titleNumber} (${date})...`);
+  const xmlStream = await ecfrSource.getTitleXml(titleNumber, date);
+  if (!xmlStream) {
+    console.log(`No content available for Title ${titleNumber} on ${date}`);
+    return null;
+  }
+
+  // Analyze the historical content as it streams in
+  const analysis = await analyzeXmlStream(xmlStream);
+  if (analysis.wordCount === 0) {
+    console.log(`No text content for Title ${titleNumber} on ${date}`);
+    return null;
+  }
+
+  console.log(`Analyzed Title ${titleNumber} (${date}): ${analysis.wordCount} words`);
+  return await storage.upsertHistoricalSnapshot({
+    titleNumber,
+    date,
+    titleName,
+    wordCount: analysis.wordCount,
+    sentenceCount: analysis.sentenceCount,
+    uniqueWords: analysis.uniqueWords,
+    avgSentenceLength: Math.round(analysis.avgSentenceLength * 100), // Store as integer * 100
+    vocabularyDiversity: Math.round(analysis.vocabularyDiversity * 10000), // Store as integer * 10000
+    sectionCount: analysis.sectionCount,
+    syllableCount: analysis.syllableCount,
+    polysyllableCount: analysis.polysyllableCount,
+    letterCount: analysis.letterCount,
+    restrictionCount: analysis.restrictionCount,
+    checksum: analysis.checksum,
+    analyzerVersion: ANALYZER_VERSION,
+  });
+}
+
+/**
+ * Converts a stored historical snapshot (integer-scaled metrics) into a trend point
+ */
+export function toTrendPoint(snapshot: HistoricalSnapshot): HistoricalTrendPoint {
+  const avgSentenceLength = snapshot.avgSentenceLength / 100;
+  const vocabularyDiversity = snapshot.vocabularyDiversity / 10000;
+  return {
+    year: parseInt(snapshot.date.slice(0, 4)),
+    date: snapshot.date,
+    wordCount: snapshot.wordCount,
+    sentenceCount: snapshot.sentenceCount,
+    avgSentenceLength,
+    vocabularyDiversity,
+    uniqueWords: snapshot.uniqueWords,
+    sectionCount: snapshot.sectionCount,
+    rci: calculateRCI(avgSentenceLength, vocabularyDiversity),
+    restrictionCount: snapshot.restrictionCount,
+    ...calculateReadability(snapshot),
+  };
+}
+
+/**
+ * Creates a historical job for a title and analyzes its dates in the background.
+ * An identical job that is still running is returned instead of starting another one
+ */
+export async function startHistoricalJob(
+  titleNumber: number,
+  titleName: string,
+  dates: string[],
+): Promise<HistoricalJob> {
+  const unfinished = await storage.getUnfinishedHistoricalJobs();
+  const existing = unfinished.find(job =>
+    runningJobs.has(job.id) &&
+    job.titleNumber === titleNumber &&
+    job.dates.join() === dates.join()
+  );
+  if (existing) return existing;
+
+  const job = await storage.createHistoricalJob({
+    titleNumber,
+    titleName,
+    dates,
+    status: 'pending',
+  });
+
+  // Analyze in background (don't block the caller)
+  runHistoricalJob(job).catch(err => {
+    console.error("Background historical analysis failed:", err);
+  });
+
+  return job;
+}
+
+/**
+ * Returns a job with the results of its dates available so far
+ */
+export async function getHistoricalJobReport(jobId: string): Promise<HistoricalJobReport | undefined> {
+  const job = await storage.getHistoricalJob(jobId);
+  if (!job) return undefined;
+
+  const snapshots = await storage.getHistoricalSnapshotsForDates(job.titleNumber, job.dates);
+  return { ...job, trends: snapshots.map(toTrendPoint) };
+}
+
+/**
+ * Resumes historical jobs left unfinished by a previous process. Dates already
+ * processed are stored, so a resumed job continues where it stopped
+ */
+export async function resumeHistoricalJobs(): Promise<void> {
+  const jobs = await storage.getUnfinishedHistoricalJobs();
+  for (const job of jobs) {
+    if (runningJobs.has(job.id)) continue;
+    console.log(`Resuming historical job ${job.id}`);
+    await runHistoricalJob(job);
+  }
+}
+
+async function runHistoricalJob(job: HistoricalJob): Promise<void> {
+  runningJobs.add(job.id);
+  try {
+    await storage.updateHistoricalJob(job.id, {
+      status: 'running',
+      startedAt: job.startedAt ?? new Date(),
+    });
+
+    for (let index = job.progressCurrent; index < job.dates.length; index++) {
+      const date = job.dates[index];
+      await storage.updateHistoricalJob(job.id, { currentDate: date });
+
+      try {
+        await getHistoricalSnapshot(job.titleNumber, job.titleName, date);
+      } catch (error) {
+        // eCFR is still failing after retries: stop and keep the dates collected so far
+        if (error instanceof EcfrHttpError) {
+          console.error(`Stopping historical analysis of Title ${job.titleNumber} at ${date}:`, error.message);
+          await finishHistoricalJob(job.id, 'failed', error.message);
+          return;
+        }
+        console.error(`Error processing Title ${job.titleNumber} for ${date}:`, error);
+        // Continue with next date
+      }
+
+      await storage.updateHistoricalJob(job.id, { progressCurrent: index + 1 });
+    }
+
+    await finishHistoricalJob(job.id, 'succeeded', null);
+  } catch (error) {
+    console.error(`Historical job ${job.id} failed:`, error);
+    await finishHistoricalJob(job.id, 'failed', error instanceof Error ? error.message : 'Unknown error');
+  } finally {
+    runningJobs.delete(job.id);
+  }
+}
+
+async function finishHistoricalJob(
+  jobId: string,
+  status: HistoricalJobStatus,
+  errorMessage: string | null,
+): Promise<void> {
+  await storage.updateHistoricalJob(jobId, {
+    status,
+    errorMessage,
+    currentDate: null,
+    finishedAt: new Date(),
+  });
+}
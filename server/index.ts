@@ -1,6 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { resumeFetchJobs } from "./fetch-jobs";
+import { resumeHistoricalJobs } from "./historical";
+import { resumeHistoricalBackfills } from "./historical-backfill";
 
 const app = express();
 
@@ -77,5 +80,16 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Pick up fetch jobs interrupted by a restart
+    resumeFetchJobs().catch(err => {
+      console.error("Failed to resume fetch jobs:", err);
+    });
+    resumeHistoricalJobs().catch(err => {
+      console.error("Failed to resume historical jobs:", err);
+    });
+    resumeHistoricalBackfills().catch(err => {
+      console.error("Failed to resume historical backfills:", err);
+    });
   });
 })();
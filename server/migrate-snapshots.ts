@@ -0,0 +1,129 @@
+import { pool } from "./db";
+
+/**
+ * One-off migration of a database created before snapshots (`npm run db:migrate`, then
+ * `npm run db:push`). Regulation rows used to be replaced in place, with the issue date and
+ * checksum of each title in `stored_titles`; now every row belongs to a title version and
+ * snapshots decide which versions are visible. `db:push` cannot add the required
+ * `regulations.title_version_id` column to a populated table, so this wraps the stored rows
+ * in one title version per title and a current snapshot first. Running it again does nothing.
+ *
+ * Only the columns the migration fills are created here; `db:push` adds the others.
+ */
+
+// Job id recorded on the snapshot created from the existing rows
+const MIGRATION_JOB_ID = 'migration';
+
+async function migrate(): Promise<void> {
+  const client = await pool.connect();
+  try {
+    const { rows: columns } = await client.query(
+      `SELECT 1 FROM information_schema.columns WHERE table_name = 'regulations' AND column_name = 'title_version_id'`,
+    );
+    const { rows: [{ regulationsTable }] } = await client.query(`SELECT to_regclass('regulations') AS "regulationsTable"`);
+    if (!regulationsTable || columns.length > 0) {
+      console.log("Nothing to migrate: the database has no regulations or already uses snapshots");
+      return;
+    }
+
+    await client.query('BEGIN');
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS title_versions (
+        id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+        title_number integer NOT NULL,
+        title_name text NOT NULL,
+        issue_date text NOT NULL,
+        checksum text NOT NULL,
+        section_count integer NOT NULL DEFAULT 0,
+        word_count integer NOT NULL DEFAULT 0,
+        created_at timestamp NOT NULL DEFAULT now()
+      )`);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS snapshots (
+        id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+        job_id varchar NOT NULL,
+        issue_date text,
+        status text NOT NULL,
+        is_current boolean NOT NULL DEFAULT false,
+        title_count integer NOT NULL DEFAULT 0,
+        section_count integer NOT NULL DEFAULT 0,
+        created_at timestamp NOT NULL DEFAULT now(),
+        completed_at timestamp,
+        activated_at timestamp
+      )`);
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS snapshot_titles (
+        snapshot_id varchar NOT NULL,
+        title_number integer NOT NULL,
+        title_version_id varchar NOT NULL,
+        CONSTRAINT snapshot_titles_snapshot_id_title_number_pk PRIMARY KEY (snapshot_id, title_number)
+      )`);
+    await client.query(`ALTER TABLE regulations ADD COLUMN title_version_id varchar`);
+
+    // One version per stored title: issue date and checksum from stored_titles when it exists,
+    // counts from the title row (the first row of the title when there is none)
+    const { rows: [{ storedTitlesTable }] } = await client.query(`SELECT to_regclass('stored_titles') AS "storedTitlesTable"`);
+    const storedTitles = storedTitlesTable
+      ? `LEFT JOIN stored_titles s ON s.title_number = r.title_number`
+      : `LEFT JOIN (SELECT NULL::integer AS title_number, NULL AS title_name, NULL AS issue_date, NULL AS checksum) s ON false`;
+    const { rows: versions } = await client.query<{ id: string; title_number: number; issue_date: string; section_count: number }>(`
+      INSERT INTO title_versions (title_number, title_name, issue_date, checksum, section_count, word_count, created_at)
+      SELECT title_number, title_name, issue_date, checksum, section_count, word_count, created_at
+      FROM (
+        SELECT DISTINCT ON (r.title_number)
+          r.title_number,
+          coalesce(s.title_name, r.title) AS title_name,
+          coalesce(s.issue_date, to_char(r.created_at, 'YYYY-MM-DD')) AS issue_date,
+          coalesce(s.checksum, r.checksum) AS checksum,
+          r.section_count,
+          r.word_count,
+          r.created_at
+        FROM regulations r
+        ${storedTitles}
+        ORDER BY r.title_number, (r.node_type = 'title') DESC, r.depth, r.position
+      ) titles
+      RETURNING id, title_number, issue_date, section_count`);
+
+    for (const version of versions) {
+      await client.query(
+        `UPDATE regulations SET title_version_id = $1 WHERE title_number = $2`,
+        [version.id, version.title_number],
+      );
+    }
+
+    const issueDates = versions.map(version => version.issue_date).sort();
+    const { rows: [{ current }] } = await client.query(`SELECT count(*) > 0 AS current FROM snapshots WHERE is_current`);
+    const { rows: [snapshot] } = await client.query<{ id: string }>(`
+      INSERT INTO snapshots (job_id, issue_date, status, is_current, title_count, section_count, completed_at, activated_at)
+      VALUES ($1, $2, 'complete', $3, $4, $5, now(), now())
+      RETURNING id`,
+      [
+        MIGRATION_JOB_ID,
+        issueDates[issueDates.length - 1] ?? null,
+        !current,
+        versions.length,
+        versions.reduce((sum, version) => sum + version.section_count, 0),
+      ],
+    );
+    for (const version of versions) {
+      await client.query(
+        `INSERT INTO snapshot_titles (snapshot_id, title_number, title_version_id) VALUES ($1, $2, $3)`,
+        [snapshot.id, version.title_number, version.id],
+      );
+    }
+    await client.query('COMMIT');
+    console.log(`Migrated ${versions.length} titles into snapshot ${snapshot.id}. Run "npm run db:push" next.`);
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+migrate()
+  .catch(error => {
+    console.error("Migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
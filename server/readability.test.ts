@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculateReadability, countReadability, countSyllables } from "./readability";
+
+test("countSyllables estimates syllables from vowel groups", () => {
+  const expected: Record<string, number> = {
+    the: 1,
+    shall: 1,
+    make: 1,
+    table: 2,
+    required: 2,
+    agency: 3,
+    regulation: 4,
+    administrator: 5,
+    "60.13": 1,
+    "": 0,
+  };
+  for (const [word, syllables] of Object.entries(expected)) {
+    assert.equal(countSyllables(word), syllables, word);
+  }
+});
+
+test("countReadability sums syllables, polysyllables and letters", () => {
+  assert.deepEqual(countReadability(["the", "agency", "regulation", "60.13"]), {
+    syllableCount: 9,
+    polysyllableCount: 2,
+    letterCount: 19,
+  });
+});
+
+test("calculateReadability applies the standard formulas", () => {
+  // 100 words in 5 sentences, 150 syllables, 10 polysyllables, 450 letters
+  const scores = calculateReadability({
+    wordCount: 100,
+    sentenceCount: 5,
+    syllableCount: 150,
+    polysyllableCount: 10,
+    letterCount: 450,
+  });
+  assert.equal(scores.fleschReadingEase.toFixed(3), "59.635");
+  assert.equal(scores.fleschKincaidGrade.toFixed(2), "9.91");
+  assert.equal(scores.gunningFog.toFixed(2), "12.00");
+  assert.equal(scores.smog.toFixed(4), "11.2081");
+  assert.equal(scores.colemanLiau.toFixed(2), "9.18");
+});
+
+test("calculateReadability is zero for text without words", () => {
+  assert.deepEqual(calculateReadability({
+    wordCount: 0,
+    sentenceCount: 1,
+    syllableCount: 0,
+    polysyllableCount: 0,
+    letterCount: 0,
+  }), { fleschReadingEase: 0, fleschKincaidGrade: 0, gunningFog: 0, smog: 0, colemanLiau: 0 });
+});
@@ -0,0 +1,70 @@
+import type { ReadabilityScores } from "@shared/schema";
+
+/**
+ * Additive counts the readability indices are computed from. Counts of a node are the sums
+ * over its text, so they roll up from sections to parts, titles and agencies by addition
+ */
+export interface ReadabilityCounts {
+  syllableCount: number;
+  polysyllableCount: number; // words of three or more syllables
+  letterCount: number;
+}
+
+/**
+ * Estimates the syllables of a word from its vowel groups, ignoring a silent final "e" and
+ * the "-es"/"-ed" endings. Numbers and other words without letters count as one syllable
+ */
+export function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length === 0) {
+    return word.length > 0 ? 1 : 0;
+  }
+  if (letters.length <= 3) {
+    return 1;
+  }
+  const stem = letters
+    .replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+  return Math.max(1, stem.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+}
+
+/**
+ * Syllable, polysyllable and letter counts of tokenized words
+ */
+export function countReadability(words: string[]): ReadabilityCounts {
+  const counts: ReadabilityCounts = { syllableCount: 0, polysyllableCount: 0, letterCount: 0 };
+  for (const word of words) {
+    const syllables = countSyllables(word);
+    counts.syllableCount += syllables;
+    if (syllables >= 3) {
+      counts.polysyllableCount++;
+    }
+    counts.letterCount += word.replace(/[^a-z]/g, '').length;
+  }
+  return counts;
+}
+
+/**
+ * Calculates the standard readability indices from word, sentence and readability counts.
+ * Gunning Fog treats every word of three or more syllables as complex. All indices are 0
+ * for text without words
+ */
+export function calculateReadability(
+  counts: ReadabilityCounts & { wordCount: number; sentenceCount: number },
+): ReadabilityScores {
+  const { wordCount, syllableCount, polysyllableCount, letterCount } = counts;
+  if (wordCount === 0) {
+    return { fleschReadingEase: 0, fleschKincaidGrade: 0, gunningFog: 0, smog: 0, colemanLiau: 0 };
+  }
+  const sentenceCount = Math.max(1, counts.sentenceCount);
+  const wordsPerSentence = wordCount / sentenceCount;
+  const syllablesPerWord = syllableCount / wordCount;
+
+  return {
+    fleschReadingEase: 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord,
+    fleschKincaidGrade: 0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59,
+    gunningFog: 0.4 * (wordsPerSentence + 100 * (polysyllableCount / wordCount)),
+    smog: 1.043 * Math.sqrt(polysyllableCount * (30 / sentenceCount)) + 3.1291,
+    colemanLiau: 0.0588 * (letterCount / wordCount) * 100 - 0.296 * (sentenceCount / wordCount) * 100 - 15.8,
+  };
+}
@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { countRestrictions, restrictionsPerThousandWords } from "./restrictions";
+import { tokenize } from "./tokenizer";
+
+function restrictionsIn(text: string): number {
+  return countRestrictions(tokenize(text).words);
+}
+
+test("countRestrictions counts each restrictive term", () => {
+  assert.equal(restrictionsIn("The owner shall file a report. Reports must be signed."), 2);
+  assert.equal(restrictionsIn("Open burning is prohibited. A permit is required."), 2);
+  assert.equal(restrictionsIn("SHALL, Must; REQUIRED."), 3);
+});
+
+test("countRestrictions matches phrases", () => {
+  assert.equal(restrictionsIn("The operator may not discharge oil."), 1);
+  assert.equal(restrictionsIn("The operator may submit a plan."), 0);
+  assert.equal(restrictionsIn("The owner shall not, and may not, operate the unit."), 2);
+});
+
+test("countRestrictions ignores other forms", () => {
+  assert.equal(restrictionsIn("Requirements and prohibitions apply as mustered."), 0);
+});
+
+test("restrictionsPerThousandWords", () => {
+  assert.equal(restrictionsPerThousandWords(5, 2000), 2.5);
+  assert.equal(restrictionsPerThousandWords(3, 0), 0);
+});
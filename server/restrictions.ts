@@ -0,0 +1,42 @@
+/**
+ * Restriction counting in the style of RegData: the number of binding obligations a text
+ * imposes, measured by its restrictive terms
+ */
+
+// Restrictive terms that count on their own ("shall not" and "must not" count once)
+const RESTRICTIVE_WORDS = new Set(['shall', 'must', 'prohibited', 'required']);
+
+// Restrictive phrases as word sequences; "may" is only restrictive when negated
+const RESTRICTIVE_PHRASES: string[][] = [['may', 'not']];
+
+/**
+ * Counts the restrictive terms ("shall", "must", "may not", "prohibited", "required") in
+ * tokenized, lower-cased words. Phrases are matched on consecutive words, so "may not" counts
+ * once and "may" alone does not count
+ */
+export function countRestrictions(words: string[]): number {
+  let count = 0;
+  let i = 0;
+  while (i < words.length) {
+    const phrase = RESTRICTIVE_PHRASES.find(candidate =>
+      candidate.every((word, offset) => words[i + offset] === word),
+    );
+    if (phrase) {
+      count++;
+      i += phrase.length;
+      continue;
+    }
+    if (RESTRICTIVE_WORDS.has(words[i])) {
+      count++;
+    }
+    i++;
+  }
+  return count;
+}
+
+/**
+ * Restrictions per 1,000 words, 0 for text without words
+ */
+export function restrictionsPerThousandWords(restrictionCount: number, wordCount: number): number {
+  return wordCount > 0 ? (restrictionCount / wordCount) * 1000 : 0;
+}
@@ -1,16 +1,106 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { timingSafeEqual } from "crypto";
 import { storage } from "./storage";
-import { 
-  fetchTitles, 
-  fetchTitleContent, 
-  extractTextFromXML,
-  analyzeText,
-  analyzeTextIncremental,
-  calculateChecksum,
-  calculateRCI 
-} from "./ecfr-service";
-import type { AgencyAnalysis } from "@shared/schema";
+import { ecfrSource } from "./ecfr-source";
+import { EcfrHttpError } from "./ecfr-service";
+import {
+  startFetchJob,
+  getFetchJobReport,
+  cancelFetchJob,
+  getFetchLockStatus,
+  FetchInProgressError,
+  rollBackToSnapshot,
+} from "./fetch-jobs";
+import { subscribeFetchEvents, getActiveFetchEvents } from "./fetch-events";
+import { calculateReadability } from "./readability";
+import { CITATION_LEVELS, DEFAULT_MOST_CITED_LIMIT } from "./citations";
+import {
+  buildCitationGraph,
+  CITATION_GRAPH_LEVELS,
+  DEFAULT_GRAPH_EDGE_LIMIT,
+  MAX_GRAPH_EDGE_LIMIT,
+} from "./citation-graph";
+import { xmlCache, type XmlCacheStats } from "./xml-cache";
+import {
+  getHistoricalSnapshot,
+  toTrendPoint,
+  startHistoricalJob,
+  getHistoricalJobReport,
+} from "./historical";
+import { resolveSnapshotDates, parseHistoricalDatesRequest, InvalidSnapshotDatesError } from "./snapshot-dates";
+import {
+  startHistoricalBackfill,
+  cancelHistoricalBackfill,
+  getHistoricalCfrReport,
+  BackfillInProgressError,
+} from "./historical-backfill";
+import { getAmendmentSummary, DEFAULT_VOLATILE_PART_LIMIT } from "./amendments";
+import { diffTitle, TitleVersionNotFoundError, DEFAULT_TEXT_DIFF_LIMIT, MAX_TEXT_DIFF_LIMIT } from "./title-diff";
+import { syncAgencies, getAgencyAnalysis, getAgencyChecksums } from "./agencies";
+import { toCsv } from "./csv";
+import { buildBrokenCitationReport } from "./broken-citations";
+import type { CitationGraphLevel, CitationLevel, FetchEvent, HistoricalTrendPoint, SnapshotDetail } from "@shared/schema";
+
+// Comment lines sent on idle SSE connections so proxies do not close them
+const SSE_HEARTBEAT_MS = 30000;
+
+const DISABLED_CACHE_STATS: XmlCacheStats = {
+  enabled: false,
+  directory: null,
+  entries: 0,
+  blobs: 0,
+  totalBytes: 0,
+  rawBytes: 0,
+  maxBytes: 0,
+  hits: 0,
+  misses: 0,
+  evictions: 0,
+};
+
+// Message of the 400 response to a ?limit= that is not a positive integer
+const INVALID_LIMIT_ERROR = "limit must be a positive integer";
+
+/**
+ * Parses a ?limit= query value: the default when it is absent, null when it is not a positive
+ * integer (answer 400), otherwise capped at `max`
+ */
+function parseLimit(value: unknown, defaultLimit: number, max = Number.MAX_SAFE_INTEGER): number | null {
+  if (value === undefined || value === '') return defaultLimit;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) return null;
+  return Math.min(limit, max);
+}
+
+// Message of the 400 response to a titleNumbers body field that is not a list of titles
+const INVALID_TITLE_NUMBERS_ERROR = "titleNumbers must be an array of title numbers between 1 and 50";
+
+/**
+ * Parses the optional titleNumbers of a job request: undefined when absent (every title), null
+ * when it is not an array of title numbers (answer 400)
+ */
+function parseTitleNumbers(value: unknown): number[] | undefined | null {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) return null;
+  const valid = value.every(titleNumber => Number.isInteger(titleNumber) && titleNumber >= 1 && titleNumber <= 50);
+  return valid ? value : null;
+}
+
+/**
+ * Guards admin endpoints: when ADMIN_TOKEN is set, requests must send
+ * `Authorization: Bearer <ADMIN_TOKEN>`. Without ADMIN_TOKEN they are open, like the fetch endpoints
+ */
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) return next();
+
+  const expected = Buffer.from(`Bearer ${adminToken}`);
+  const provided = Buffer.from(req.headers.authorization ?? '');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return res.status(401).json({ error: "Admin token required" });
+  }
+  next();
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
@@ -36,23 +126,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/agencies - Get list of all unique agencies
+  // GET /api/ecfr/titles - List CFR titles from the configured eCFR source
+  app.get("/api/ecfr/titles", async (req, res) => {
+    try {
+      const titles = await ecfrSource.getTitles();
+      res.json(titles);
+    } catch (error) {
+      console.error("Error fetching eCFR titles:", error);
+      res.status(502).json({ error: "Failed to fetch eCFR titles" });
+    }
+  });
+
+  // GET /api/stored-titles - Title versions (issue date, checksum) in the current snapshot
+  app.get("/api/stored-titles", async (req, res) => {
+    try {
+      const storedTitles = await storage.getSnapshotTitleVersions();
+      res.json(storedTitles);
+    } catch (error) {
+      console.error("Error fetching stored titles:", error);
+      res.status(500).json({ error: "Failed to fetch stored titles" });
+    }
+  });
+
+  // GET /api/agencies - Names of the agencies in the eCFR agencies catalog that have content
   app.get("/api/agencies", async (req, res) => {
     try {
-      const regulations = await storage.getAllRegulations();
-      const agencies = Array.from(new Set(regulations.map(r => r.agency)));
-      res.json(agencies);
+      const analysis = await getAgencyAnalysis();
+      res.json(analysis.map(a => a.agency));
     } catch (error) {
       console.error("Error fetching agencies:", error);
       res.status(500).json({ error: "Failed to fetch agencies" });
     }
   });
 
-  // GET /api/agency/:name - Get all regulations for a specific agency
+  // POST /api/agencies/sync - Admin: download the eCFR agencies catalog now (fetch jobs also sync it)
+  app.post("/api/agencies/sync", requireAdmin, async (req, res) => {
+    try {
+      res.json(await syncAgencies());
+    } catch (error) {
+      if (error instanceof EcfrHttpError) {
+        return res.status(502).json({ error: error.message });
+      }
+      console.error("Error syncing agencies:", error);
+      res.status(500).json({ error: "Failed to sync agencies" });
+    }
+  });
+
+  // GET /api/agency/:name - Get regulations for a specific agency
+  // Lists the titles, chapters and parts the agency is responsible for; ?type=part (or section, ...)
+  // lists every node of that level within them
   app.get("/api/agency/:name", async (req, res) => {
     try {
       const { name } = req.params;
-      const regulations = await storage.getRegulationsByAgency(name);
+      const nodeType = (req.query.type as string) || undefined;
+      const regulations = await storage.getRegulationsByAgency(name, nodeType);
       res.json(regulations);
     } catch (error) {
       console.error("Error fetching agency regulations:", error);
@@ -60,53 +187,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // GET /api/analysis/agencies - Get complete analysis for all agencies
-  app.get("/api/analysis/agencies", async (req, res) => {
+  // GET /api/title/:number/nodes - Get the stored hierarchy of a title in document order, with
+  // the readability indices of each node. Optional query: ?type=part|section|... to return a single level
+  app.get("/api/title/:number/nodes", async (req, res) => {
     try {
-      const regulations = await storage.getAllRegulations();
-      
-      // Group by agency
-      const agencyMap = new Map<string, typeof regulations>();
-      for (const reg of regulations) {
-        if (!agencyMap.has(reg.agency)) {
-          agencyMap.set(reg.agency, []);
-        }
-        agencyMap.get(reg.agency)!.push(reg);
-      }
-
-      // Calculate analysis for each agency
-      const analysis: AgencyAnalysis[] = [];
-      for (const [agency, regs] of Array.from(agencyMap.entries())) {
-        const totalWordCount = regs.reduce((sum: number, r) => sum + r.wordCount, 0);
-        const averageWordCount = totalWordCount / regs.length;
-        
-        // Aggregate pre-calculated metrics (no re-analysis needed)
-        const totalSentences = regs.reduce((sum: number, r) => sum + r.sentenceCount, 0);
-        const totalUniqueWords = regs.reduce((sum: number, r) => sum + r.uniqueWords, 0);
-        
-        // Calculate weighted averages
-        const avgSentenceLength = totalWordCount / totalSentences;
-        const vocabularyDiversity = totalUniqueWords / totalWordCount;
-        
-        // Calculate combined checksum from individual checksums (not from truncated text)
-        const combinedChecksums = regs.map(r => r.checksum).sort().join('');
-        const checksum = calculateChecksum(combinedChecksums);
-        
-        const rci = calculateRCI(avgSentenceLength, vocabularyDiversity);
-        
-        analysis.push({
-          agency,
-          totalWordCount,
-          averageWordCount,
-          regulationCount: regs.length,
-          checksum,
-          rci,
-          avgSentenceLength,
-          vocabularyDiversity,
-        });
+      const titleNumber = parseInt(req.params.number);
+      if (isNaN(titleNumber)) {
+        return res.status(400).json({ error: "Invalid title number" });
       }
+      const nodes = await storage.getTitleNodes(titleNumber, req.query.type as string | undefined);
+      res.json(nodes.map(node => ({ ...node, ...calculateReadability(node) })));
+    } catch (error) {
+      console.error("Error fetching title hierarchy:", error);
+      res.status(500).json({ error: "Failed to fetch title hierarchy" });
+    }
+  });
 
-      res.json(analysis);
+  // GET /api/title/:number/nodes/:type/:identifier - One node of a title (e.g. section 60.13), with its
+  // readability indices
+  app.get("/api/title/:number/nodes/:type/:identifier", async (req, res) => {
+    try {
+      const titleNumber = parseInt(req.params.number);
+      if (isNaN(titleNumber)) {
+        return res.status(400).json({ error: "Invalid title number" });
+      }
+      const node = await storage.getTitleNode(titleNumber, req.params.type, req.params.identifier);
+      if (!node) {
+        return res.status(404).json({ error: `No ${req.params.type} ${req.params.identifier} in title ${titleNumber}` });
+      }
+      res.json({ ...node, ...calculateReadability(node) });
+    } catch (error) {
+      console.error("Error fetching title node:", error);
+      res.status(500).json({ error: "Failed to fetch title node" });
+    }
+  });
+
+  // GET /api/analysis/agencies - Get complete analysis for all agencies
+  // Agencies come from the eCFR agencies catalog; each covers the titles, chapters and parts it references
+  app.get("/api/analysis/agencies", async (req, res) => {
+    try {
+      res.json(await getAgencyAnalysis());
     } catch (error) {
       console.error("Error computing agency analysis:", error);
       res.status(500).json({ error: "Failed to compute analysis" });
@@ -116,24 +236,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // GET /api/analysis/wordcount - Get word count analysis
   app.get("/api/analysis/wordcount", async (req, res) => {
     try {
-      const regulations = await storage.getAllRegulations();
-      
-      const agencyMap = new Map<string, typeof regulations>();
-      for (const reg of regulations) {
-        if (!agencyMap.has(reg.agency)) {
-          agencyMap.set(reg.agency, []);
-        }
-        agencyMap.get(reg.agency)!.push(reg);
-      }
-
-      const wordCountAnalysis = Array.from(agencyMap.entries()).map(([agency, regs]) => ({
-        agency,
-        totalWords: regs.reduce((sum, r) => sum + r.wordCount, 0),
-        averageWords: regs.reduce((sum, r) => sum + r.wordCount, 0) / regs.length,
-        count: regs.length,
-      }));
-
-      res.json(wordCountAnalysis);
+      const analysis = await getAgencyAnalysis();
+      res.json(analysis.map(a => ({
+        agency: a.agency,
+        totalWords: a.totalWordCount,
+        averageWords: a.averageWordCount,
+        count: a.regulationCount,
+      })));
     } catch (error) {
       console.error("Error computing word count:", error);
       res.status(500).json({ error: "Failed to compute word count" });
@@ -143,26 +252,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // GET /api/analysis/checksums - Get checksums for all agencies
   app.get("/api/analysis/checksums", async (req, res) => {
     try {
-      const regulations = await storage.getAllRegulations();
-      
-      const agencyMap = new Map<string, typeof regulations>();
-      for (const reg of regulations) {
-        if (!agencyMap.has(reg.agency)) {
-          agencyMap.set(reg.agency, []);
-        }
-        agencyMap.get(reg.agency)!.push(reg);
-      }
-
-      const checksums = Array.from(agencyMap.entries()).map(([agency, regs]) => {
-        const combinedText = regs.map(r => r.textContent).sort().join('');
-        return {
-          agency,
-          checksum: calculateChecksum(combinedText),
-          lastUpdated: new Date(Math.max(...regs.map(r => new Date(r.createdAt).getTime()))).toISOString(),
-        };
-      });
-
-      res.json(checksums);
+      res.json(await getAgencyChecksums());
     } catch (error) {
       console.error("Error computing checksums:", error);
       res.status(500).json({ error: "Failed to compute checksums" });
@@ -170,312 +260,660 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // GET /api/historical/title/:number - Get historical trends for a specific title
+  // Query: ?dates=2024-01-15,2024-06-01 for explicit dates, or ?granularity=monthly|quarterly|yearly
+  // with ?from=YYYY-MM-DD&to=YYYY-MM-DD. Without either, January 15th of ?start_year (default
+  // 2017) to ?end_year (default this year)
   app.get("/api/historical/title/:number", async (req, res) => {
     try {
       const titleNumber = parseInt(req.params.number);
-      const startYear = parseInt(req.query.start_year as string) || 2017;
-      const endYear = parseInt(req.query.end_year as string) || new Date().getFullYear();
-
       if (isNaN(titleNumber) || titleNumber < 1 || titleNumber > 50) {
         return res.status(400).json({ error: "Invalid title number" });
       }
 
+      const { start_year, end_year, ...query } = req.query;
+      const request = parseHistoricalDatesRequest(query);
+      if (!request.dates && !request.granularity && !request.from && !request.to) {
+        const startYear = parseInt(start_year as string) || 2017;
+        const endYear = parseInt(end_year as string) || new Date().getFullYear();
+        request.from = `${startYear}-01-15`;
+        request.to = `${endYear}-01-15`;
+      }
+      const dates = resolveSnapshotDates(request);
+
       // First, get title metadata to know the title name
-      const titles = await fetchTitles();
+      const titles = await ecfrSource.getTitles();
       const title = titles.find(t => t.number === titleNumber);
       if (!title) {
         return res.status(404).json({ error: "Title not found" });
       }
 
-      const trends = [];
-      let consecutiveFailures = 0;
-      const MAX_CONSECUTIVE_FAILURES = 3; // Circuit breaker: stop after 3 consecutive failures
-      
-      // Fetch data for each year
-      for (let year = startYear; year <= endYear; year++) {
-        // Circuit breaker: if we've had too many consecutive failures, stop trying
-        if (consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
-          console.log(`Stopping after ${consecutiveFailures} consecutive failures - eCFR API appears to be down`);
-          break;
-        }
-        
-        try {
-          // Use January 15th as the snapshot date for each year
-          const date = `${year}-01-15`;
-          
-          console.log(`Fetching historical data for Title ${titleNumber} (${year})...`);
-          const xmlContent = await fetchTitleContent(titleNumber, date);
-          
-          if (!xmlContent) {
-            console.log(`No content available for Title ${titleNumber} in ${year}`);
-            consecutiveFailures++;
-            continue;
-          }
+      const trends: HistoricalTrendPoint[] = [];
+      let errorMessage: string | null = null;
 
-          // Analyze the historical content
-          const analysis = analyzeTextIncremental(xmlContent);
-          
-          if (analysis.wordCount === 0) {
-            console.log(`No text content for Title ${titleNumber} in ${year}`);
-            consecutiveFailures++;
-            continue;
+      // Dates analyzed before are served from storage; the rest are downloaded and stored.
+      // Transient eCFR failures are already retried by the HTTP client
+      for (const date of dates) {
+        try {
+          const snapshot = await getHistoricalSnapshot(titleNumber, title.name, date);
+          if (snapshot) {
+            trends.push(toTrendPoint(snapshot));
           }
-
-          trends.push({
-            year,
-            date,
-            wordCount: analysis.wordCount,
-            sentenceCount: analysis.sentenceCount,
-            avgSentenceLength: analysis.avgSentenceLength,
-            vocabularyDiversity: analysis.vocabularyDiversity,
-            uniqueWords: analysis.uniqueWords,
-            rci: calculateRCI(analysis.avgSentenceLength, analysis.vocabularyDiversity),
-          });
-
-          console.log(`Analyzed Title ${titleNumber} (${year}): ${analysis.wordCount} words`);
-          
-          // Reset consecutive failures on success
-          consecutiveFailures = 0;
-          
-          // Trigger garbage collection after each year
-          if (global.gc) global.gc();
-          
         } catch (yearError) {
-          console.error(`Error processing Title ${titleNumber} for year ${year}:`, yearError);
-          consecutiveFailures++;
-          // Continue with next year
+          // eCFR is still failing after retries: stop and return what we have
+          if (yearError instanceof EcfrHttpError) {
+            console.error(`Stopping historical analysis of Title ${titleNumber} at ${date}:`, yearError.message);
+            errorMessage = yearError.message;
+            break;
+          }
+          console.error(`Error processing Title ${titleNumber} for ${date}:`, yearError);
+          // Continue with next date
         }
       }
 
+      if (trends.length === 0 && errorMessage) {
+        return res.status(502).json({ error: errorMessage });
+      }
+
       res.json({
         titleNumber,
         titleName: title.name,
+        dates,
         trends,
-        startYear,
-        endYear,
+        startYear: parseInt(dates[0].slice(0, 4)),
+        endYear: parseInt(dates[dates.length - 1].slice(0, 4)),
       });
 
     } catch (error) {
+      if (error instanceof InvalidSnapshotDatesError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Error fetching historical trends:", error);
       res.status(500).json({ error: "Failed to fetch historical trends" });
     }
   });
 
-  // POST /api/fetch - Fetch and store eCFR data
-  // Optional body: { titleNumbers: [1, 2, 3] } to fetch specific titles only
-  app.post("/api/fetch", async (req, res) => {
+  // POST /api/historical/jobs - Start analyzing a title at a list of dates in the background
+  // Body: { titleNumber: 3, dates?: ["2024-01-15"] } or
+  // { titleNumber: 3, granularity?: "monthly" | "quarterly" | "yearly", from?: "2023-01-01", to?: "2024-12-31" }
+  // (defaults to January 15th of the last 5 years). Poll GET /api/historical/jobs/:id for progress and results
+  app.post("/api/historical/jobs", async (req, res) => {
+    try {
+      const { titleNumber, ...body } = req.body || {};
+      if (!Number.isInteger(titleNumber) || titleNumber < 1 || titleNumber > 50) {
+        return res.status(400).json({ error: "Invalid title number" });
+      }
+      const dates = resolveSnapshotDates(parseHistoricalDatesRequest(body));
+
+      const titles = await ecfrSource.getTitles();
+      const title = titles.find(t => t.number === titleNumber);
+      if (!title) {
+        return res.status(404).json({ error: "Title not found" });
+      }
+
+      const job = await startHistoricalJob(titleNumber, title.name, dates);
+      res.json({ message: "Historical analysis started", status: job.status, jobId: job.id });
+    } catch (error) {
+      if (error instanceof InvalidSnapshotDatesError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error starting historical analysis:", error);
+      res.status(500).json({ error: "Failed to start historical analysis" });
+    }
+  });
+
+  // GET /api/historical/jobs/:id - Progress of a historical job and the results so far
+  app.get("/api/historical/jobs/:id", async (req, res) => {
+    try {
+      const report = await getHistoricalJobReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching historical job:", error);
+      res.status(500).json({ error: "Failed to fetch historical job" });
+    }
+  });
+
+  // POST /api/historical/backfill - Admin: analyze every non-reserved title at January 15th of
+  // each year in the background. Optional body: { startYear: 2017, endYear: 2025 } (default 2017
+  // through this year). Responds 409 with the unfinished backfill's id while one is running
+  app.post("/api/historical/backfill", requireAdmin, async (req, res) => {
+    try {
+      const { startYear, endYear } = req.body || {};
+      for (const year of [startYear, endYear]) {
+        if (year !== undefined && !Number.isInteger(year)) {
+          return res.status(400).json({ error: "startYear and endYear must be years" });
+        }
+      }
+
+      const backfill = await startHistoricalBackfill({ startYear, endYear });
+      res.json({ message: "Historical backfill started", status: backfill.status, backfillId: backfill.id });
+    } catch (error) {
+      if (error instanceof BackfillInProgressError) {
+        return res.status(409).json({ error: error.message, backfillId: error.backfillId });
+      }
+      if (error instanceof InvalidSnapshotDatesError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error starting historical backfill:", error);
+      res.status(500).json({ error: "Failed to start historical backfill" });
+    }
+  });
+
+  // POST /api/historical/backfill/:id/cancel - Admin: stop a backfill before its next title/date
+  app.post("/api/historical/backfill/:id/cancel", requireAdmin, async (req, res) => {
+    try {
+      const backfill = await cancelHistoricalBackfill(req.params.id);
+      if (!backfill) {
+        return res.status(404).json({ error: "Backfill not found" });
+      }
+      res.json(backfill);
+    } catch (error) {
+      console.error("Error cancelling historical backfill:", error);
+      res.status(500).json({ error: "Failed to cancel historical backfill" });
+    }
+  });
+
+  // GET /api/historical/cfr - CFR-wide totals per year and title growth rankings from the
+  // latest backfill, with its progress
+  app.get("/api/historical/cfr", async (req, res) => {
+    try {
+      const report = await getHistoricalCfrReport();
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching CFR-wide history:", error);
+      res.status(500).json({ error: "Failed to fetch CFR-wide history" });
+    }
+  });
+
+  // GET /api/historical/export - Download stored historical results
+  // Query: ?title=N to export a single title, ?format=csv|json (default csv)
+  app.get("/api/historical/export", async (req, res) => {
+    try {
+      const format = (req.query.format as string) || 'csv';
+      if (format !== 'csv' && format !== 'json') {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+
+      let titleNumber: number | undefined;
+      if (req.query.title !== undefined) {
+        titleNumber = parseInt(req.query.title as string);
+        if (isNaN(titleNumber) || titleNumber < 1 || titleNumber > 50) {
+          return res.status(400).json({ error: "Invalid title number" });
+        }
+      }
+
+      const snapshots = await storage.getHistoricalSnapshots(titleNumber);
+      const rows = snapshots.map(snapshot => ({
+        titleNumber: snapshot.titleNumber,
+        titleName: snapshot.titleName,
+        ...toTrendPoint(snapshot),
+        checksum: snapshot.checksum,
+        analyzerVersion: snapshot.analyzerVersion,
+        analyzedAt: snapshot.createdAt,
+      }));
+
+      const filename = `historical-trends${titleNumber ? `-title-${titleNumber}` : ''}.${format}`;
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      if (format === 'json') {
+        return res.json(rows);
+      }
+
+      res.type('text/csv').send(toCsv(rows, [
+        { header: 'title_number', value: row => row.titleNumber },
+        { header: 'title_name', value: row => row.titleName },
+        { header: 'date', value: row => row.date },
+        { header: 'word_count', value: row => row.wordCount },
+        { header: 'sentence_count', value: row => row.sentenceCount },
+        { header: 'unique_words', value: row => row.uniqueWords },
+        { header: 'avg_sentence_length', value: row => row.avgSentenceLength },
+        { header: 'vocabulary_diversity', value: row => row.vocabularyDiversity },
+        { header: 'section_count', value: row => row.sectionCount },
+        { header: 'rci', value: row => row.rci },
+        { header: 'restriction_count', value: row => row.restrictionCount },
+        { header: 'flesch_reading_ease', value: row => row.fleschReadingEase },
+        { header: 'flesch_kincaid_grade', value: row => row.fleschKincaidGrade },
+        { header: 'gunning_fog', value: row => row.gunningFog },
+        { header: 'smog', value: row => row.smog },
+        { header: 'coleman_liau', value: row => row.colemanLiau },
+        { header: 'checksum', value: row => row.checksum },
+        { header: 'analyzer_version', value: row => row.analyzerVersion },
+        { header: 'analyzed_at', value: row => row.analyzedAt },
+      ]));
+    } catch (error) {
+      console.error("Error exporting historical trends:", error);
+      res.status(500).json({ error: "Failed to export historical trends" });
+    }
+  });
+
+  // GET /api/amendments - Amendment history of the whole CFR (eCFR versions API, synced by fetch jobs)
+  // GET /api/amendments/title/:number - Amendment history of a title
+  // GET /api/amendments/agency/:name - Amendment history of an agency's parts
+  // Amendment events per year, days since the last change and the ?limit (default 20) most amended parts
+  app.get("/api/amendments", async (req, res) => {
+    try {
+      const limit = parseLimit(req.query.limit, DEFAULT_VOLATILE_PART_LIMIT);
+      if (limit === null) {
+        return res.status(400).json({ error: INVALID_LIMIT_ERROR });
+      }
+      res.json(await getAmendmentSummary({}, limit));
+    } catch (error) {
+      console.error("Error fetching amendments:", error);
+      res.status(500).json({ error: "Failed to fetch amendments" });
+    }
+  });
+
+  app.get("/api/amendments/title/:number", async (req, res) => {
+    try {
+      const titleNumber = parseInt(req.params.number);
+      if (isNaN(titleNumber) || titleNumber < 1 || titleNumber > 50) {
+        return res.status(400).json({ error: "Invalid title number" });
+      }
+      const limit = parseLimit(req.query.limit, DEFAULT_VOLATILE_PART_LIMIT);
+      if (limit === null) {
+        return res.status(400).json({ error: INVALID_LIMIT_ERROR });
+      }
+      res.json(await getAmendmentSummary({ titleNumber }, limit));
+    } catch (error) {
+      console.error("Error fetching title amendments:", error);
+      res.status(500).json({ error: "Failed to fetch title amendments" });
+    }
+  });
+
+  app.get("/api/amendments/agency/:name", async (req, res) => {
+    try {
+      const limit = parseLimit(req.query.limit, DEFAULT_VOLATILE_PART_LIMIT);
+      if (limit === null) {
+        return res.status(400).json({ error: INVALID_LIMIT_ERROR });
+      }
+      res.json(await getAmendmentSummary({ agency: req.params.name }, limit));
+    } catch (error) {
+      console.error("Error fetching agency amendments:", error);
+      res.status(500).json({ error: "Failed to fetch agency amendments" });
+    }
+  });
+
+  // GET /api/diff/title/:number?from=2020-01-15&to=2024-01-15 - Section-level diff of a title between two dates
+  // Sections are aligned by identifier and reported as added, removed or modified with metric deltas.
+  // Optional ?part= restricts the diff to one part; ?limit= (default 100, at most 1000) changed sections get a word-level diff
+  app.get("/api/diff/title/:number", async (req, res) => {
     try {
-      const { titleNumbers } = req.body || {};
-      
-      // Create initial metadata entry
-      const metadata = await storage.createMetadata({
-        lastFetchAt: new Date(),
-        status: 'in_progress',
-        totalRegulations: 0,
-        progressCurrent: 0,
-        progressTotal: 0,
-        currentTitle: 'Initializing...',
+      const titleNumber = parseInt(req.params.number);
+      if (isNaN(titleNumber) || titleNumber < 1 || titleNumber > 50) {
+        return res.status(400).json({ error: "Invalid title number" });
+      }
+      const { from, to, part } = req.query;
+      if (typeof from !== 'string' || typeof to !== 'string') {
+        return res.status(400).json({ error: "from and to dates are required" });
+      }
+      const limit = parseLimit(req.query.limit, DEFAULT_TEXT_DIFF_LIMIT, MAX_TEXT_DIFF_LIMIT);
+      if (limit === null) {
+        return res.status(400).json({ error: INVALID_LIMIT_ERROR });
+      }
+
+      // Stop downloading and parsing both versions when the client goes away
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+      });
+
+      const diff = await diffTitle(titleNumber, from, to, {
+        part: typeof part === 'string' && part.length > 0 ? part : undefined,
+        textDiffLimit: limit,
+        signal: controller.signal,
       });
+      res.json(diff);
+    } catch (error) {
+      if (res.destroyed) return;
+      if (error instanceof InvalidSnapshotDatesError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof TitleVersionNotFoundError) {
+        return res.status(404).json({ error: error.message });
+      }
+      if (error instanceof EcfrHttpError) {
+        return res.status(502).json({ error: error.message });
+      }
+      console.error("Error diffing title:", error);
+      res.status(500).json({ error: "Failed to diff title" });
+    }
+  });
+
+  // GET /api/citations/outbound/:title/:identifier - References in the text of a node of the current snapshot
+  // (a section such as 60.13, or an appendix or part by identifier): CFR sections and parts, U.S.C. sections
+  app.get("/api/citations/outbound/:title/:identifier", async (req, res) => {
+    try {
+      const titleNumber = parseInt(req.params.title);
+      if (isNaN(titleNumber) || titleNumber < 1 || titleNumber > 50) {
+        return res.status(400).json({ error: "Invalid title number" });
+      }
+      res.json(await storage.getOutboundCitations(titleNumber, req.params.identifier));
+    } catch (error) {
+      console.error("Error fetching outbound citations:", error);
+      res.status(500).json({ error: "Failed to fetch outbound citations" });
+    }
+  });
+
+  // GET /api/citations/inbound/:title/:section - Nodes of the current snapshot that cite a CFR section
+  app.get("/api/citations/inbound/:title/:section", async (req, res) => {
+    try {
+      const titleNumber = parseInt(req.params.title);
+      if (isNaN(titleNumber) || titleNumber < 1 || titleNumber > 50) {
+        return res.status(400).json({ error: "Invalid title number" });
+      }
+      res.json(await storage.getInboundCitations(titleNumber, req.params.section));
+    } catch (error) {
+      console.error("Error fetching inbound citations:", error);
+      res.status(500).json({ error: "Failed to fetch inbound citations" });
+    }
+  });
+
+  // GET /api/citations/most-cited - Most cited targets in the current snapshot
+  // ?level=section (default) | part (citations of a part or any of its sections) | usc; ?limit= (default 25)
+  app.get("/api/citations/most-cited", async (req, res) => {
+    try {
+      const level = (req.query.level as string | undefined) ?? 'section';
+      if (!CITATION_LEVELS.includes(level as CitationLevel)) {
+        return res.status(400).json({ error: `level must be one of: ${CITATION_LEVELS.join(', ')}` });
+      }
+      const limit = parseLimit(req.query.limit, DEFAULT_MOST_CITED_LIMIT);
+      if (limit === null) {
+        return res.status(400).json({ error: INVALID_LIMIT_ERROR });
+      }
+      res.json(await storage.getMostCited(level as CitationLevel, limit));
+    } catch (error) {
+      console.error("Error fetching most cited targets:", error);
+      res.status(500).json({ error: "Failed to fetch most cited targets" });
+    }
+  });
 
-      // Fetch in background (don't block response)
-      performECFRFetch(metadata.id, titleNumbers).catch(err => {
-        console.error("Background fetch failed:", err);
+  // GET /api/citations/graph - Cross-references between CFR parts or sections of the current snapshot
+  // ?level=part (default) | section; ?title= and ?part= (citing title and part) or ?agency= (citing nodes
+  // of an agency and its sub-agencies); ?limit= heaviest edges (default 300, at most 2000)
+  app.get("/api/citations/graph", async (req, res) => {
+    try {
+      const level = (req.query.level as string | undefined) ?? 'part';
+      if (!CITATION_GRAPH_LEVELS.includes(level as CitationGraphLevel)) {
+        return res.status(400).json({ error: `level must be one of: ${CITATION_GRAPH_LEVELS.join(', ')}` });
+      }
+      let titleNumber: number | undefined;
+      if (req.query.title !== undefined) {
+        titleNumber = parseInt(req.query.title as string);
+        if (isNaN(titleNumber) || titleNumber < 1 || titleNumber > 50) {
+          return res.status(400).json({ error: "Invalid title number" });
+        }
+      }
+      const part = req.query.part as string | undefined;
+      if (part !== undefined && titleNumber === undefined) {
+        return res.status(400).json({ error: "part requires title" });
+      }
+      const limit = parseLimit(req.query.limit, DEFAULT_GRAPH_EDGE_LIMIT, MAX_GRAPH_EDGE_LIMIT);
+      if (limit === null) {
+        return res.status(400).json({ error: INVALID_LIMIT_ERROR });
+      }
+      // One extra edge tells whether the graph was cut off
+      const rows = await storage.getCitationEdges({
+        level: level as CitationGraphLevel,
+        titleNumber,
+        part,
+        agency: (req.query.agency as string | undefined) || undefined,
+        limit: limit + 1,
       });
+      res.json(buildCitationGraph(level as CitationGraphLevel, rows, limit));
+    } catch (error) {
+      console.error("Error building citation graph:", error);
+      res.status(500).json({ error: "Failed to build citation graph" });
+    }
+  });
+
+  // GET /api/citations/broken - Citations of CFR sections that are missing or "[Reserved]", grouped by
+  // the agency responsible for the citing node. ?snapshot=<id> to check another snapshot than the current one
+  app.get("/api/citations/broken", async (req, res) => {
+    try {
+      const snapshotId = req.query.snapshot as string | undefined;
+      const snapshot = snapshotId ? await storage.getSnapshot(snapshotId) : await storage.getCurrentSnapshot();
+      if (snapshotId && !snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+      res.json(buildBrokenCitationReport(snapshot?.id ?? null, await storage.getBrokenCitations(snapshotId)));
+    } catch (error) {
+      console.error("Error checking citations:", error);
+      res.status(500).json({ error: "Failed to check citations" });
+    }
+  });
+
+  // GET /api/citations/broken/export - Download broken citations, one row per citation and agency
+  // Query: ?snapshot=<id>, ?format=csv|json (default csv)
+  app.get("/api/citations/broken/export", async (req, res) => {
+    try {
+      const format = (req.query.format as string) || 'csv';
+      if (format !== 'csv' && format !== 'json') {
+        return res.status(400).json({ error: "format must be csv or json" });
+      }
+      const snapshotId = req.query.snapshot as string | undefined;
+      if (snapshotId && !(await storage.getSnapshot(snapshotId))) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
 
-      res.json({ message: "Fetch started", status: "in_progress" });
+      const rows = (await storage.getBrokenCitations(snapshotId)).map(({ citationId, ...citation }) => citation);
+      res.setHeader("Content-Disposition", `attachment; filename="broken-citations.${format}"`);
+      if (format === 'json') {
+        return res.json(rows);
+      }
+
+      res.type('text/csv').send(toCsv(rows, [
+        { header: 'agency', value: row => row.agency },
+        { header: 'title_number', value: row => row.titleNumber },
+        { header: 'source_type', value: row => row.sourceType },
+        { header: 'source_identifier', value: row => row.sourceIdentifier },
+        { header: 'source_part', value: row => row.sourcePart },
+        { header: 'target', value: row => row.targetLabel },
+        { header: 'reason', value: row => row.reason },
+        { header: 'count', value: row => row.count },
+      ]));
     } catch (error) {
+      console.error("Error exporting broken citations:", error);
+      res.status(500).json({ error: "Failed to export broken citations" });
+    }
+  });
+
+  // POST /api/fetch - Start a fetch job that downloads and stores eCFR data
+  // Only titles whose eCFR issue date moved are re-fetched
+  // Optional body: { titleNumbers: [1, 2, 3] } to fetch specific titles only,
+  // { force: true } to re-fetch even unchanged titles
+  // Responds 409 with the running job id while another fetch job holds the fetch lock
+  app.post("/api/fetch", async (req, res) => {
+    try {
+      const { force } = req.body || {};
+      const titleNumbers = parseTitleNumbers(req.body?.titleNumbers);
+      if (titleNumbers === null) {
+        return res.status(400).json({ error: INVALID_TITLE_NUMBERS_ERROR });
+      }
+      const job = await startFetchJob({ titleNumbers, force: force === true });
+      res.json({ message: "Fetch started", status: "in_progress", jobId: job.id });
+    } catch (error) {
+      if (error instanceof FetchInProgressError) {
+        return res.status(409).json({ error: error.message, jobId: error.jobId });
+      }
       console.error("Error starting fetch:", error);
       res.status(500).json({ error: "Failed to start fetch" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // POST /api/reanalyze - Start a job that recomputes the metrics of the current snapshot from
+  // the archived source XML (no download) with the current analyzer version
+  // Optional body: { titleNumbers: [1, 2, 3] } to re-analyze specific titles only
+  // Responds 409 with the running job id while another job holds the fetch lock
+  app.post("/api/reanalyze", async (req, res) => {
+    try {
+      const titleNumbers = parseTitleNumbers(req.body?.titleNumbers);
+      if (titleNumbers === null) {
+        return res.status(400).json({ error: INVALID_TITLE_NUMBERS_ERROR });
+      }
+      const job = await startFetchJob({ kind: 'reanalyze', titleNumbers });
+      res.json({ message: "Re-analysis started", status: "in_progress", jobId: job.id });
+    } catch (error) {
+      if (error instanceof FetchInProgressError) {
+        return res.status(409).json({ error: error.message, jobId: error.jobId });
+      }
+      console.error("Error starting re-analysis:", error);
+      res.status(500).json({ error: "Failed to start re-analysis" });
+    }
+  });
 
-/**
- * Background task to fetch eCFR data
- * @param metadataId - ID of the metadata entry to update
- * @param titleNumbers - Optional array of specific title numbers to fetch
- */
-async function performECFRFetch(metadataId: string, titleNumbers?: number[]) {
-  try {
-    console.log("Starting eCFR data fetch...");
-    
-    // Fetch titles
-    const titles = await fetchTitles();
-    console.log(`Found ${titles.length} titles`);
-    
-    // Filter non-reserved titles
-    let validTitles = titles.filter(t => !t.reserved);
-    
-    // Further filter by specific title numbers if provided
-    if (titleNumbers && titleNumbers.length > 0) {
-      validTitles = validTitles.filter(t => titleNumbers.includes(t.number));
-      console.log(`Filtering to ${validTitles.length} requested titles: ${titleNumbers.join(', ')}`);
-      
-      // Delete only the specific titles being refreshed
-      const agencyNamesToDelete = validTitles.map(t => t.name);
-      console.log(`Deleting existing data for agencies: ${agencyNamesToDelete.join(', ')}`);
-      await storage.deleteRegulationsByAgencies(agencyNamesToDelete);
-    } else {
-      // Fetching all titles - clear everything first
-      console.log('Fetching all titles - clearing existing data');
-      await storage.deleteAllRegulations();
-    }
-    
-    const totalTitles = validTitles.length;
-    
-    // Update metadata with total count
-    await storage.updateMetadata(metadataId, {
-      progressTotal: totalTitles,
-      currentTitle: 'Starting fetch...',
+  // GET /api/fetch/lock - Whether a fetch job is running (holds the fetch lock), and which
+  app.get("/api/fetch/lock", async (req, res) => {
+    try {
+      const status = await getFetchLockStatus();
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching fetch lock status:", error);
+      res.status(500).json({ error: "Failed to fetch lock status" });
+    }
+  });
+
+  // GET /api/fetch/events - Server-Sent Events stream of fetch progress
+  // (job state, current title, bytes downloaded, words analyzed, per-title results).
+  // Clients connecting mid-job first receive the latest state of each running job
+  app.get("/api/fetch/events", (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
     });
-    
-    let totalRegulations = 0;
-    let currentProgress = 0;
-    
-    // Process titles in smaller batches to reduce memory pressure
-    // Use batch size of 1 for very large titles
-    const BATCH_SIZE = 1;
-    for (let i = 0; i < validTitles.length; i += BATCH_SIZE) {
-      const batch = validTitles.slice(i, i + BATCH_SIZE);
-      
-      for (const title of batch) {
-        currentProgress++;
-        
-        try {
-          // Update progress (in-place update, not creating new row)
-          await storage.updateMetadata(metadataId, {
-            progressCurrent: currentProgress,
-            currentTitle: `Title ${title.number}: ${title.name}`,
-          });
-          
-          console.log(`[${currentProgress}/${totalTitles}] Fetching title ${title.number}: ${title.name}`);
-          
-          let xmlContent = await fetchTitleContent(title.number, title.latest_issue_date);
-          if (!xmlContent) {
-            console.log(`No content for title ${title.number} - skipping`);
-            continue;
-          }
-          
-          // Check XML size before processing
-          const xmlSize = xmlContent.length;
-          console.log(`XML size for ${title.name}: ${xmlSize} characters`);
-          
-          // Skip extremely large titles that would cause memory issues
-          // Title 40 (156M chars) may work in production with higher RAM allocation
-          // Development environment is limited to 2GB, but production can be configured with more
-          const MAX_XML_SIZE = 200_000_000; // 200 million characters (supports Title 40 at 156M)
-          if (xmlSize > MAX_XML_SIZE) {
-            console.log(`⚠️  Title ${title.number} (${title.name}) is too large (${xmlSize} chars). Skipping to prevent memory crash.`);
-            xmlContent = null;
-            if (global.gc) global.gc();
-            continue;
-          }
-          
-          // Use incremental analysis to avoid building full text string in memory
-          // This processes text in chunks during XML parsing (critical for Title 40)
-          // Checksum is calculated incrementally too - NEVER builds full text string!
-          console.log(`Starting incremental analysis for ${title.name}...`);
-          const analysis = analyzeTextIncremental(xmlContent);
-          
-          // Free XML content immediately after extraction to reduce memory
-          xmlContent = null;
-          if (global.gc) global.gc();
-          
-          if (analysis.wordCount === 0) {
-            console.log(`No text content for title ${title.number} - skipping`);
-            continue;
-          }
-          
-          console.log(`Analysis complete for ${title.name}: ${analysis.wordCount} words, ${analysis.sentenceCount} sentences`);
-          
-          // Use the incrementally calculated checksum
-          const checksum = analysis.checksum;
-          
-          // Store empty sample since we never built the full text
-          const textSample = '';
-          
-          // Trigger garbage collection
-          if (global.gc) global.gc();
-          
-          // Store regulation with metrics and truncated text sample
-          // Metrics are pre-calculated from full text to avoid re-analysis of truncated data
-          await storage.createRegulation({
-            agency: title.name,
-            title: `Title ${title.number}`,
-            chapter: '',
-            section: '',
-            textContent: textSample,
-            wordCount: analysis.wordCount,
-            checksum,
-            // Store metrics as integers to avoid floating point precision issues
-            sentenceCount: analysis.sentenceCount,
-            uniqueWords: analysis.uniqueWords,
-            avgSentenceLength: Math.round(analysis.avgSentenceLength * 100), // Store as integer * 100
-            vocabularyDiversity: Math.round(analysis.vocabularyDiversity * 10000), // Store as integer * 10000
-          });
-          
-          totalRegulations++;
-          
-          // Update regulation count
-          await storage.updateMetadata(metadataId, {
-            totalRegulations,
-          });
-          
-          console.log(`Stored regulation for ${title.name} (${analysis.wordCount} words)`);
-          
-          // Force GC hint after each title (if available)
-          if (global.gc) {
-            global.gc();
-          }
-        } catch (titleError) {
-          console.error(`Error processing title ${title.number} (${title.name}):`, titleError);
-          console.log(`Skipping title ${title.number} and continuing with next title`);
-          // Continue with next title instead of failing entire fetch
-        }
-      }
-      
-      // Longer delay between batches to allow GC to complete
-      if (i + BATCH_SIZE < validTitles.length) {
-        if (global.gc) global.gc();
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
-    }
-    
-    // Get the actual total regulation count from database
-    const allRegulations = await storage.getAllRegulations();
-    const actualTotalCount = allRegulations.length;
-    
-    // Update metadata with final success status and correct total count
-    await storage.updateMetadata(metadataId, {
-      status: 'success',
-      totalRegulations: actualTotalCount,
-      currentTitle: 'Complete',
-      progressCurrent: totalTitles,
+
+    const send = (event: FetchEvent) => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+    getActiveFetchEvents().forEach(send);
+    const unsubscribe = subscribeFetchEvents(send);
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), SSE_HEARTBEAT_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
     });
-    
-    console.log(`eCFR fetch complete. Stored ${totalRegulations} regulations in this fetch. Total in database: ${actualTotalCount}.`);
-  } catch (error) {
-    console.error("Error in performECFRFetch:", error);
-    
-    // Get the actual total regulation count from database even on error
-    try {
-      const allRegulations = await storage.getAllRegulations();
-      const actualTotalCount = allRegulations.length;
-      
-      await storage.updateMetadata(metadataId, {
-        status: 'error',
-        totalRegulations: actualTotalCount,
-        errorMessage: error instanceof Error ? error.message : 'Unknown error',
-        progressCurrent: null,
-        progressTotal: null,
-        currentTitle: null,
-      });
-    } catch (metadataError) {
-      // If we can't even update metadata, just log it
-      console.error("Error updating metadata on fetch failure:", metadataError);
+  });
+
+  // GET /api/jobs - Recent fetch jobs
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const jobs = await storage.getRecentFetchJobs(20);
+      res.json(jobs);
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ error: "Failed to fetch jobs" });
     }
-  }
+  });
+
+  // GET /api/jobs/:id - Job status with per-title outcomes (which titles failed and why)
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const report = await getFetchJobReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
+
+  // POST /api/jobs/:id/cancel - Cancel a pending or running job
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    try {
+      const job = await cancelFetchJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (!job.cancelRequested) {
+        return res.status(409).json({ error: `Job already ${job.status}` });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error cancelling job:", error);
+      res.status(500).json({ error: "Failed to cancel job" });
+    }
+  });
+
+  // GET /api/cache/stats - Size and hit rate of the downloaded XML cache
+  app.get("/api/cache/stats", async (req, res) => {
+    try {
+      const stats: XmlCacheStats = xmlCache ? await xmlCache.stats() : DISABLED_CACHE_STATS;
+      res.json(stats);
+    } catch (error) {
+      console.error("Error fetching cache stats:", error);
+      res.status(500).json({ error: "Failed to fetch cache stats" });
+    }
+  });
+
+  // DELETE /api/cache - Remove every cached XML download
+  app.delete("/api/cache", async (req, res) => {
+    try {
+      if (!xmlCache) {
+        return res.json(DISABLED_CACHE_STATS);
+      }
+      await xmlCache.clear();
+      res.json(await xmlCache.stats());
+    } catch (error) {
+      console.error("Error clearing cache:", error);
+      res.status(500).json({ error: "Failed to clear cache" });
+    }
+  });
+
+  // GET /api/snapshots - Recent snapshots (the current one is flagged with isCurrent)
+  app.get("/api/snapshots", async (req, res) => {
+    try {
+      const snapshots = await storage.getSnapshots(50);
+      res.json(snapshots);
+    } catch (error) {
+      console.error("Error fetching snapshots:", error);
+      res.status(500).json({ error: "Failed to fetch snapshots" });
+    }
+  });
+
+  // GET /api/snapshots/:id - Snapshot with the title versions it contains
+  app.get("/api/snapshots/:id", async (req, res) => {
+    try {
+      const snapshot = await storage.getSnapshot(req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+      const detail: SnapshotDetail = {
+        ...snapshot,
+        titles: await storage.getSnapshotTitleVersions(snapshot.id),
+      };
+      res.json(detail);
+    } catch (error) {
+      console.error("Error fetching snapshot:", error);
+      res.status(500).json({ error: "Failed to fetch snapshot" });
+    }
+  });
+
+  // POST /api/snapshots/:id/activate - Make a complete snapshot current (e.g. to roll back)
+  // Responds 409 with the job id while a fetch job is running or waiting to be resumed
+  app.post("/api/snapshots/:id/activate", async (req, res) => {
+    try {
+      const snapshot = await storage.getSnapshot(req.params.id);
+      if (!snapshot) {
+        return res.status(404).json({ error: "Snapshot not found" });
+      }
+      if (snapshot.status !== 'complete') {
+        return res.status(409).json({ error: `Snapshot is ${snapshot.status} and cannot be activated` });
+      }
+
+      res.json(await rollBackToSnapshot(snapshot.id));
+    } catch (error) {
+      if (error instanceof FetchInProgressError) {
+        return res.status(409).json({ error: error.message, jobId: error.jobId });
+      }
+      console.error("Error activating snapshot:", error);
+      res.status(500).json({ error: "Failed to activate snapshot" });
+    }
+  });
+
+  const httpServer = createServer(app);
+  return httpServer;
 }
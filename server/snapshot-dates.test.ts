@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { InvalidSnapshotDatesError, parseHistoricalDatesRequest, resolveSnapshotDates } from "./snapshot-dates";
+
+test("resolveSnapshotDates defaults to the last 5 January 15ths", () => {
+  assert.deepEqual(resolveSnapshotDates({}, new Date("2024-06-01T12:00:00Z")), [
+    "2020-01-15", "2021-01-15", "2022-01-15", "2023-01-15", "2024-01-15",
+  ]);
+});
+
+test("resolveSnapshotDates still returns 5 dates before this year's January 15th", () => {
+  assert.deepEqual(resolveSnapshotDates({}, new Date("2025-01-03T12:00:00Z")), [
+    "2020-01-15", "2021-01-15", "2022-01-15", "2023-01-15", "2024-01-15",
+  ]);
+  assert.deepEqual(resolveSnapshotDates({}, new Date("2025-01-15T12:00:00Z")).slice(-1), ["2025-01-15"]);
+});
+
+test("resolveSnapshotDates steps through a range by granularity and caps it at today", () => {
+  assert.deepEqual(
+    resolveSnapshotDates({ from: "2023-08-31", to: "2030-01-01", granularity: "quarterly" }, new Date("2024-03-01T12:00:00Z")),
+    ["2023-08-31", "2023-11-30", "2024-02-29"],
+  );
+});
+
+test("resolveSnapshotDates rejects dates outside eCFR's history", () => {
+  const today = new Date("2024-06-01T12:00:00Z");
+  assert.throws(() => resolveSnapshotDates({ dates: ["2016-12-31"] }, today), InvalidSnapshotDatesError);
+  assert.throws(() => resolveSnapshotDates({ dates: ["2024-06-02"] }, today), InvalidSnapshotDatesError);
+  assert.throws(() => resolveSnapshotDates({ dates: ["2024-02-30"] }, today), InvalidSnapshotDatesError);
+});
+
+test("parseHistoricalDatesRequest reads comma-separated dates", () => {
+  assert.deepEqual(parseHistoricalDatesRequest({ dates: "2020-01-15, 2021-01-15" }), { dates: ["2020-01-15", "2021-01-15"] });
+  assert.throws(() => parseHistoricalDatesRequest({ dates: 2020 }), InvalidSnapshotDatesError);
+});
@@ -0,0 +1,135 @@
+import type { HistoricalDatesRequest, HistoricalGranularity } from "@shared/schema";
+
+/**
+ * Raised when a request for historical dates is malformed or out of range
+ */
+export class InvalidSnapshotDatesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSnapshotDatesError';
+  }
+}
+
+// Earliest date eCFR serves point-in-time content for
+export const EARLIEST_SNAPSHOT_DATE = '2017-01-01';
+// Most dates a single request may analyze (ten years of monthly snapshots)
+export const MAX_SNAPSHOT_DATES = 120;
+
+const GRANULARITY_MONTHS: Record<HistoricalGranularity, number> = {
+  monthly: 1,
+  quarterly: 3,
+  yearly: 12,
+};
+
+/**
+ * Resolves a request into the sorted, de-duplicated list of dates to analyze: either the
+ * explicit `dates`, or one date per period from `from` to `to` (default: the last 5 years
+ * on January 15th, yearly, up to the latest January 15th; `to` is capped at today). Throws
+ * InvalidSnapshotDatesError for malformed or future dates, dates before eCFR's history starts,
+ * or more than MAX_SNAPSHOT_DATES dates
+ */
+export function resolveSnapshotDates(request: HistoricalDatesRequest, today = new Date()): string[] {
+  const todayDate = today.toISOString().slice(0, 10);
+  let dates: string[];
+
+  if (request.dates && request.dates.length > 0) {
+    dates = Array.from(new Set(request.dates)).sort();
+  } else {
+    const granularity = request.granularity ?? 'yearly';
+    if (!(granularity in GRANULARITY_MONTHS)) {
+      throw new InvalidSnapshotDatesError(`granularity must be one of ${Object.keys(GRANULARITY_MONTHS).join(', ')}`);
+    }
+    for (const date of [request.from, request.to]) {
+      if (date !== undefined && !isValidDate(date)) throw new InvalidSnapshotDatesError(`Invalid date: ${date}`);
+    }
+    // A range reaching into the future stops today
+    const to = request.to && request.to < todayDate ? request.to : todayDate;
+    const from = request.from ?? defaultRangeStart(to);
+    if (from > to) {
+      throw new InvalidSnapshotDatesError("from must not be after to");
+    }
+
+    dates = [];
+    const step = GRANULARITY_MONTHS[granularity];
+    for (let months = 0, date = from; date <= to; months += step, date = addMonths(from, months)) {
+      dates.push(date);
+      if (dates.length > MAX_SNAPSHOT_DATES) break;
+    }
+  }
+
+  for (const date of dates) {
+    assertSnapshotDate(date, today);
+  }
+  if (dates.length === 0) {
+    throw new InvalidSnapshotDatesError("No dates requested");
+  }
+  if (dates.length > MAX_SNAPSHOT_DATES) {
+    throw new InvalidSnapshotDatesError(`At most ${MAX_SNAPSHOT_DATES} dates can be analyzed at once`);
+  }
+  return dates;
+}
+
+/**
+ * Throws InvalidSnapshotDatesError unless the date is a YYYY-MM-DD date within eCFR's history
+ */
+export function assertSnapshotDate(date: string, today = new Date()): void {
+  if (!isValidDate(date)) throw new InvalidSnapshotDatesError(`Invalid date: ${date}`);
+  if (date < EARLIEST_SNAPSHOT_DATE) {
+    throw new InvalidSnapshotDatesError(`eCFR history starts on ${EARLIEST_SNAPSHOT_DATE}; ${date} is too early`);
+  }
+  if (date > today.toISOString().slice(0, 10)) throw new InvalidSnapshotDatesError(`${date} is in the future`);
+}
+
+/**
+ * Reads a dates request from a query string or JSON body. `dates` may be an array or a
+ * comma-separated list
+ */
+export function parseHistoricalDatesRequest(input: Record<string, unknown>): HistoricalDatesRequest {
+  const request: HistoricalDatesRequest = {};
+
+  if (typeof input.dates === 'string' && input.dates.length > 0) {
+    request.dates = input.dates.split(',').map(date => date.trim());
+  } else if (Array.isArray(input.dates) && input.dates.every(date => typeof date === 'string')) {
+    request.dates = input.dates;
+  } else if (input.dates !== undefined) {
+    throw new InvalidSnapshotDatesError("dates must be a list of YYYY-MM-DD dates");
+  }
+
+  for (const field of ['granularity', 'from', 'to'] as const) {
+    const value = input[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      throw new InvalidSnapshotDatesError(`${field} must be a string`);
+    }
+    if (field === 'granularity') {
+      request.granularity = value as HistoricalGranularity;
+    } else {
+      request[field] = value;
+    }
+  }
+  return request;
+}
+
+// January 15th four years before the latest January 15th up to `to`, so the default range
+// has 5 dates even early in January
+function defaultRangeStart(to: string): string {
+  const year = parseInt(to.slice(0, 4));
+  const latestAnchorYear = to.slice(5) >= '01-15' ? year : year - 1;
+  return `${latestAnchorYear - 4}-01-15`;
+}
+
+// True for a real calendar date written as YYYY-MM-DD
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+// Adds calendar months to a YYYY-MM-DD date, clamping the day to the end of shorter months
+function addMonths(value: string, months: number): string {
+  const year = parseInt(value.slice(0, 4));
+  const month = parseInt(value.slice(5, 7)) - 1 + months;
+  const day = parseInt(value.slice(8, 10));
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
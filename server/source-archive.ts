@@ -0,0 +1,62 @@
+import { randomUUID } from "crypto";
+import { access, mkdir, rename } from "fs/promises";
+import path from "path";
+import type { Readable } from "stream";
+import { gzipTee, isStreamAbandoned, openGzipFile } from "./xml-cache";
+
+/**
+ * Permanent, content-addressed store of the raw XML each title version was analyzed from,
+ * so metrics can be recomputed without downloading again. Unlike the XML cache nothing is
+ * ever evicted.
+ *
+ * Layout:
+ *   <sha256>.xml.gz  - compressed XML
+ *   tmp/             - downloads in progress
+ */
+export class SourceArchive {
+  constructor(readonly directory: string) {}
+
+  /**
+   * Passes a download through unchanged while archiving it. `stored` resolves with the
+   * content hash once the stream has been read to the end, or null if it could not be archived
+   */
+  async archive(input: Readable): Promise<{ output: Readable; stored: Promise<string | null> }> {
+    const tempDir = path.join(this.directory, 'tmp');
+    await mkdir(tempDir, { recursive: true });
+    const tempPath = path.join(tempDir, `${randomUUID()}.xml.gz`);
+
+    const { output, written } = gzipTee(input, tempPath);
+    const stored = written
+      .then(async ({ hash }) => {
+        await rename(tempPath, this.blobPath(hash));
+        return hash;
+      })
+      .catch(error => {
+        if (!isStreamAbandoned(error)) console.error("Error archiving source XML:", error);
+        return null;
+      });
+    return { output, stored };
+  }
+
+  /**
+   * Returns archived XML as a decompressed byte stream, or null if it is not in the archive
+   */
+  async open(hash: string, options: { signal?: AbortSignal } = {}): Promise<Readable | null> {
+    const blobPath = this.blobPath(hash);
+    try {
+      await access(blobPath);
+    } catch {
+      return null;
+    }
+    return openGzipFile(blobPath, options.signal);
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.directory, `${hash}.xml.gz`);
+  }
+}
+
+// ECFR_ARCHIVE_DIR - where source XML is archived (default .data/ecfr-source)
+export const sourceArchive = new SourceArchive(
+  path.resolve(process.env.ECFR_ARCHIVE_DIR || path.join('.data', 'ecfr-source')),
+);
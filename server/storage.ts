@@ -2,58 +2,405 @@
 import { 
   regulations, 
   fetchMetadata, 
+  fetchJobs,
+  fetchTasks,
+  titleVersions,
+  snapshots,
+  snapshotTitles,
+  historicalSnapshots,
+  historicalJobs,
+  historicalBackfills,
+  amendments,
+  amendmentSyncs,
+  agencies,
+  agencyReferences,
+  citations,
   type Regulation, 
   type InsertRegulation, 
   type FetchMetadata,
-  type InsertFetchMetadata 
+  type InsertFetchMetadata,
+  type FetchJob,
+  type InsertFetchJob,
+  type FetchTask,
+  type InsertFetchTask,
+  type TitleVersion,
+  type InsertTitleVersion,
+  type Snapshot,
+  type InsertSnapshot,
+  type HistoricalSnapshot,
+  type InsertHistoricalSnapshot,
+  type HistoricalJob,
+  type InsertHistoricalJob,
+  type HistoricalBackfill,
+  type InsertHistoricalBackfill,
+  type InsertAmendment,
+  type AmendmentSync,
+  type PartVolatility,
+  type Agency,
+  type InsertAgency,
+  type InsertAgencyReference,
+  type Citation,
+  type InsertCitation,
+  type CitationLevel,
+  type CitationGraphLevel,
+  type CitedTarget,
+  type BrokenCitation,
+  type BrokenCitationReason,
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, sql, inArray } from "drizzle-orm";
+import { db, pool } from "./db";
+import { and, or, eq, sql, inArray, isNotNull, asc, desc, exists, notExists } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+
+// Rows per INSERT when persisting a title's hierarchy
+const INSERT_BATCH_SIZE = 500;
+// Regulation rows as the target of a citation, distinct from the citing node in the same query
+const citedSections = alias(regulations, "cited_sections");
+
+// Key of the Postgres advisory lock that serializes fetch jobs across processes
+const FETCH_LOCK_KEY = 7_311_001;
+
+// Aggregated citations between two CFR parts or sections of the current snapshot
+export interface CitationEdgeRow {
+  sourceTitle: number;
+  sourcePart: string;
+  sourceSection: string | null;
+  targetTitle: number;
+  targetPart: string;
+  targetSection: string | null;
+  weight: number;
+}
+
+// Which citations feed the citation graph: from a title, from a part of it, or from the
+// nodes an agency (with its sub-agencies) is responsible for
+export interface CitationEdgeQuery {
+  level: CitationGraphLevel;
+  titleNumber?: number;
+  part?: string;
+  agency?: string;
+  limit: number;
+}
+
+// A broken citation with the id of its citations row, which repeats for every agency of the citing node
+export interface BrokenCitationRow extends BrokenCitation {
+  citationId: string;
+}
+
+// Amendments of one title, or of the parts an agency is responsible for (all when empty)
+export interface AmendmentScope {
+  titleNumber?: number;
+  agency?: string;
+}
+
+// A node of the current snapshot that an agency reference points at, with its subtree metrics
+export interface AgencyReferencedNode {
+  slug: string;
+  regulationId: string;
+  titleNumber: number;
+  path: string; // node within its title, as "chapter:I/part:60" ('' for the title itself)
+  wordCount: number;
+  sentenceCount: number;
+  uniqueWords: number;
+  syllableCount: number;
+  polysyllableCount: number;
+  letterCount: number;
+  restrictionCount: number;
+  sectionCount: number;
+  partCount: number; // parts within the node
+  checksum: string;
+  createdAt: Date;
+}
+
+/**
+ * A held fetch lock. The lock lives on a dedicated connection, so it is also
+ * released by Postgres if the process dies
+ */
+export interface FetchLock {
+  release(): Promise<void>;
+}
 
 export interface IStorage {
-  // Regulations
-  createRegulation(regulation: InsertRegulation): Promise<Regulation>;
-  getAllRegulations(): Promise<Regulation[]>;
-  getRegulationsByAgency(agency: string): Promise<Regulation[]>;
-  deleteAllRegulations(): Promise<void>;
-  deleteRegulationsByAgencies(agencyNames: string[]): Promise<void>;
+  // Regulations (reads are scoped to the current snapshot unless a snapshot id is given)
+  // Nodes an agency and its sub-agencies reference, or every node of `nodeType` within them
+  getRegulationsByAgency(agency: string, nodeType?: string): Promise<Regulation[]>;
+  getTitleNodes(titleNumber: number, nodeType?: string): Promise<Regulation[]>;
+  getTitleNode(titleNumber: number, nodeType: string, identifier: string): Promise<Regulation | undefined>;
+  countRegulationsByType(nodeType: string, snapshotId?: string): Promise<number>;
+
+  // Title versions (a title version and its regulation rows are written atomically)
+  createTitleVersion(
+    version: InsertTitleVersion,
+    rows: Omit<InsertRegulation, 'titleVersionId'>[],
+    citationRows?: Omit<InsertCitation, 'titleVersionId'>[],
+  ): Promise<TitleVersion>;
+  updateTitleVersion(id: string, version: Partial<InsertTitleVersion>): Promise<TitleVersion>;
+  // Versions of a snapshot, with the issue date the snapshot checked each title for
+  getSnapshotTitleVersions(snapshotId?: string): Promise<TitleVersion[]>;
+
+  // Snapshots
+  createSnapshot(snapshot: InsertSnapshot): Promise<Snapshot>;
+  updateSnapshot(id: string, snapshot: Partial<InsertSnapshot>): Promise<Snapshot>;
+  getSnapshot(id: string): Promise<Snapshot | undefined>;
+  getSnapshotByJob(jobId: string): Promise<Snapshot | undefined>;
+  getCurrentSnapshot(): Promise<Snapshot | undefined>;
+  getSnapshots(limit: number): Promise<Snapshot[]>;
+  setSnapshotTitle(snapshotId: string, titleNumber: number, titleVersionId: string, issueDate?: string | null): Promise<void>;
+  activateSnapshot(id: string): Promise<Snapshot>;
   
   // Metadata
   createMetadata(metadata: InsertFetchMetadata): Promise<FetchMetadata>;
   updateMetadata(id: string, metadata: Partial<InsertFetchMetadata>): Promise<FetchMetadata>;
   getLatestMetadata(): Promise<FetchMetadata | undefined>;
+
+  // Fetch jobs
+  createFetchJob(job: InsertFetchJob): Promise<FetchJob>;
+  updateFetchJob(id: string, job: Partial<InsertFetchJob>): Promise<FetchJob>;
+  getFetchJob(id: string): Promise<FetchJob | undefined>;
+  getRecentFetchJobs(limit: number): Promise<FetchJob[]>;
+  getUnfinishedFetchJobs(): Promise<FetchJob[]>;
+
+  // Fetch tasks (one per title of a job)
+  createFetchTasks(tasks: InsertFetchTask[]): Promise<FetchTask[]>;
+  updateFetchTask(id: string, task: Partial<InsertFetchTask>): Promise<FetchTask>;
+  getFetchTasks(jobId: string): Promise<FetchTask[]>;
+  resetRunningFetchTasks(jobId: string): Promise<void>;
+  skipPendingFetchTasks(jobId: string, reason: string): Promise<void>;
+
+  // Historical snapshots (metrics of a title as of a past date)
+  getHistoricalSnapshot(titleNumber: number, date: string): Promise<HistoricalSnapshot | undefined>;
+  getHistoricalSnapshots(titleNumber?: number): Promise<HistoricalSnapshot[]>;
+  getHistoricalSnapshotsForDates(titleNumber: number, dates: string[]): Promise<HistoricalSnapshot[]>;
+  getHistoricalSnapshotsAtDates(dates: string[]): Promise<HistoricalSnapshot[]>;
+  upsertHistoricalSnapshot(snapshot: InsertHistoricalSnapshot): Promise<HistoricalSnapshot>;
+
+  // Historical jobs
+  createHistoricalJob(job: InsertHistoricalJob): Promise<HistoricalJob>;
+  updateHistoricalJob(id: string, job: Partial<InsertHistoricalJob>): Promise<HistoricalJob>;
+  getHistoricalJob(id: string): Promise<HistoricalJob | undefined>;
+  getUnfinishedHistoricalJobs(): Promise<HistoricalJob[]>;
+
+  // Historical backfills (every title at yearly dates)
+  createHistoricalBackfill(backfill: InsertHistoricalBackfill): Promise<HistoricalBackfill>;
+  updateHistoricalBackfill(id: string, backfill: Partial<InsertHistoricalBackfill>): Promise<HistoricalBackfill>;
+  getHistoricalBackfill(id: string): Promise<HistoricalBackfill | undefined>;
+  getLatestHistoricalBackfill(): Promise<HistoricalBackfill | undefined>;
+  getUnfinishedHistoricalBackfills(): Promise<HistoricalBackfill[]>;
+
+  // Amendments (eCFR versions API)
+  getAmendmentSyncs(): Promise<AmendmentSync[]>;
+  replaceTitleAmendments(titleNumber: number, issueDate: string, rows: InsertAmendment[]): Promise<void>;
+  getAmendmentsPerYear(scope: AmendmentScope): Promise<{ year: number; count: number }[]>;
+  // The `limit` most amended parts
+  getPartAmendmentStats(scope: AmendmentScope, limit: number): Promise<Omit<PartVolatility, 'daysSinceLastChange'>[]>;
+  getLastAmendmentDate(scope: AmendmentScope): Promise<string | null>;
+
+  // Agencies (eCFR agencies catalog)
+  replaceAgencies(rows: InsertAgency[], references: InsertAgencyReference[]): Promise<void>;
+  getAgencies(): Promise<Agency[]>;
+  getAgencyReferencedNodes(): Promise<AgencyReferencedNode[]>;
+
+  // Citations (current snapshot)
+  getOutboundCitations(titleNumber: number, identifier: string): Promise<Citation[]>;
+  getInboundCitations(titleNumber: number, section: string): Promise<Citation[]>;
+  getMostCited(level: CitationLevel, limit: number): Promise<CitedTarget[]>;
+  getCitationEdges(query: CitationEdgeQuery): Promise<CitationEdgeRow[]>;
+  // Citations of sections that are missing or "[Reserved]" in a snapshot (the current one by default)
+  getBrokenCitations(snapshotId?: string): Promise<BrokenCitationRow[]>;
+  countBrokenCitations(snapshotId: string): Promise<number>;
+
+  // Fetch lock (only one fetch job may write at a time)
+  tryAcquireFetchLock(): Promise<FetchLock | null>;
+  isFetchLocked(): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
   // Regulations
-  async createRegulation(regulation: InsertRegulation): Promise<Regulation> {
+  async getRegulationsByAgency(agency: string, nodeType?: string): Promise<Regulation[]> {
+    // A node covered by several references of the agency is listed once
+    const covered = db
+      .selectDistinct({ id: regulations.id })
+      .from(regulations)
+      .innerJoin(agencyReferences, this.referenceCovers())
+      .where(and(
+        inArray(regulations.titleVersionId, this.snapshotVersionIds()),
+        inArray(agencyReferences.agencySlug, this.agencySubtreeSlugs(agency)),
+        nodeType ? eq(regulations.nodeType, nodeType) : eq(regulations.nodeType, this.referencedNodeType()),
+      ));
+    return await db
+      .select()
+      .from(regulations)
+      .where(inArray(regulations.id, covered))
+      .orderBy(asc(regulations.titleNumber), asc(regulations.position));
+  }
+
+  async getTitleNodes(titleNumber: number, nodeType?: string): Promise<Regulation[]> {
+    return await db
+      .select()
+      .from(regulations)
+      .where(and(
+        inArray(regulations.titleVersionId, this.snapshotVersionIds()),
+        eq(regulations.titleNumber, titleNumber),
+        nodeType ? eq(regulations.nodeType, nodeType) : undefined,
+      ))
+      .orderBy(asc(regulations.position));
+  }
+
+  async getTitleNode(titleNumber: number, nodeType: string, identifier: string): Promise<Regulation | undefined> {
+    const [node] = await db
+      .select()
+      .from(regulations)
+      .where(and(
+        inArray(regulations.titleVersionId, this.snapshotVersionIds()),
+        eq(regulations.titleNumber, titleNumber),
+        eq(regulations.nodeType, nodeType),
+        eq(regulations.identifier, identifier),
+      ))
+      .orderBy(asc(regulations.position))
+      .limit(1);
+    return node;
+  }
+
+  async countRegulationsByType(nodeType: string, snapshotId?: string): Promise<number> {
     const [result] = await db
-      .insert(regulations)
-      .values(regulation)
+      .select({ count: sql<number>`count(*)::int` })
+      .from(regulations)
+      .where(and(
+        inArray(regulations.titleVersionId, this.snapshotVersionIds(snapshotId)),
+        eq(regulations.nodeType, nodeType),
+      ));
+    return result?.count ?? 0;
+  }
+
+  // Ids of the title versions in a snapshot (the current one by default), as a subquery
+  private snapshotVersionIds(snapshotId?: string) {
+    return db
+      .select({ id: snapshotTitles.titleVersionId })
+      .from(snapshotTitles)
+      .innerJoin(snapshots, eq(snapshots.id, snapshotTitles.snapshotId))
+      .where(snapshotId ? eq(snapshots.id, snapshotId) : eq(snapshots.isCurrent, true));
+  }
+
+  // Title versions
+  async createTitleVersion(
+    version: InsertTitleVersion,
+    rows: Omit<InsertRegulation, 'titleVersionId'>[],
+    citationRows: Omit<InsertCitation, 'titleVersionId'>[] = [],
+  ): Promise<TitleVersion> {
+    return await db.transaction(async (tx) => {
+      const [result] = await tx
+        .insert(titleVersions)
+        .values(version)
+        .returning();
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(regulations).values(
+          rows.slice(i, i + INSERT_BATCH_SIZE).map(row => ({ ...row, titleVersionId: result.id })),
+        );
+      }
+      for (let i = 0; i < citationRows.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(citations).values(
+          citationRows.slice(i, i + INSERT_BATCH_SIZE).map(row => ({ ...row, titleVersionId: result.id })),
+        );
+      }
+      return result;
+    });
+  }
+
+  async updateTitleVersion(id: string, version: Partial<InsertTitleVersion>): Promise<TitleVersion> {
+    const [result] = await db
+      .update(titleVersions)
+      .set(version)
+      .where(eq(titleVersions.id, id))
       .returning();
     return result;
   }
 
-  async getAllRegulations(): Promise<Regulation[]> {
-    return await db.select().from(regulations);
+  async getSnapshotTitleVersions(snapshotId?: string): Promise<TitleVersion[]> {
+    const rows = await db
+      .select({
+        version: titleVersions,
+        issueDate: sql<string>`coalesce(${snapshotTitles.issueDate}, ${titleVersions.issueDate})`,
+      })
+      .from(snapshotTitles)
+      .innerJoin(snapshots, eq(snapshots.id, snapshotTitles.snapshotId))
+      .innerJoin(titleVersions, eq(titleVersions.id, snapshotTitles.titleVersionId))
+      .where(snapshotId ? eq(snapshots.id, snapshotId) : eq(snapshots.isCurrent, true))
+      .orderBy(asc(titleVersions.titleNumber));
+    return rows.map(({ version, issueDate }) => ({ ...version, issueDate }));
+  }
+
+  // Snapshots
+  async createSnapshot(snapshot: InsertSnapshot): Promise<Snapshot> {
+    const [result] = await db
+      .insert(snapshots)
+      .values(snapshot)
+      .returning();
+    return result;
+  }
+
+  async updateSnapshot(id: string, snapshot: Partial<InsertSnapshot>): Promise<Snapshot> {
+    const [result] = await db
+      .update(snapshots)
+      .set(snapshot)
+      .where(eq(snapshots.id, id))
+      .returning();
+    return result;
+  }
+
+  async getSnapshot(id: string): Promise<Snapshot | undefined> {
+    const [result] = await db
+      .select()
+      .from(snapshots)
+      .where(eq(snapshots.id, id));
+    return result;
+  }
+
+  async getSnapshotByJob(jobId: string): Promise<Snapshot | undefined> {
+    const [result] = await db
+      .select()
+      .from(snapshots)
+      .where(eq(snapshots.jobId, jobId));
+    return result;
+  }
+
+  async getCurrentSnapshot(): Promise<Snapshot | undefined> {
+    const [result] = await db
+      .select()
+      .from(snapshots)
+      .where(eq(snapshots.isCurrent, true));
+    return result;
   }
 
-  async getRegulationsByAgency(agency: string): Promise<Regulation[]> {
+  async getSnapshots(limit: number): Promise<Snapshot[]> {
     return await db
       .select()
-      .from(regulations)
-      .where(eq(regulations.agency, agency));
+      .from(snapshots)
+      .orderBy(desc(snapshots.createdAt))
+      .limit(limit);
   }
 
-  async deleteAllRegulations(): Promise<void> {
-    await db.delete(regulations);
+  async setSnapshotTitle(snapshotId: string, titleNumber: number, titleVersionId: string, issueDate: string | null = null): Promise<void> {
+    await db
+      .insert(snapshotTitles)
+      .values({ snapshotId, titleNumber, titleVersionId, issueDate })
+      .onConflictDoUpdate({
+        target: [snapshotTitles.snapshotId, snapshotTitles.titleNumber],
+        set: { titleVersionId, issueDate },
+      });
   }
 
-  async deleteRegulationsByAgencies(agencyNames: string[]): Promise<void> {
-    if (agencyNames.length === 0) return;
-    await db.delete(regulations).where(
-      inArray(regulations.agency, agencyNames)
-    );
+  async activateSnapshot(id: string): Promise<Snapshot> {
+    // Swap the current snapshot in one transaction so readers never see a partial refresh
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(snapshots)
+        .set({ isCurrent: false })
+        .where(eq(snapshots.isCurrent, true));
+      const [result] = await tx
+        .update(snapshots)
+        .set({ isCurrent: true, activatedAt: new Date() })
+        .where(eq(snapshots.id, id))
+        .returning();
+      return result;
+    });
   }
 
   // Metadata
@@ -82,6 +429,652 @@ export class DatabaseStorage implements IStorage {
       .limit(1);
     return result;
   }
+
+  // Fetch jobs
+  async createFetchJob(job: InsertFetchJob): Promise<FetchJob> {
+    const [result] = await db
+      .insert(fetchJobs)
+      .values(job)
+      .returning();
+    return result;
+  }
+
+  async updateFetchJob(id: string, job: Partial<InsertFetchJob>): Promise<FetchJob> {
+    const [result] = await db
+      .update(fetchJobs)
+      .set(job)
+      .where(eq(fetchJobs.id, id))
+      .returning();
+    return result;
+  }
+
+  async getFetchJob(id: string): Promise<FetchJob | undefined> {
+    const [result] = await db
+      .select()
+      .from(fetchJobs)
+      .where(eq(fetchJobs.id, id));
+    return result;
+  }
+
+  async getRecentFetchJobs(limit: number): Promise<FetchJob[]> {
+    return await db
+      .select()
+      .from(fetchJobs)
+      .orderBy(desc(fetchJobs.createdAt))
+      .limit(limit);
+  }
+
+  async getUnfinishedFetchJobs(): Promise<FetchJob[]> {
+    return await db
+      .select()
+      .from(fetchJobs)
+      .where(inArray(fetchJobs.status, ['pending', 'running']))
+      .orderBy(asc(fetchJobs.createdAt));
+  }
+
+  // Fetch tasks
+  async createFetchTasks(tasks: InsertFetchTask[]): Promise<FetchTask[]> {
+    if (tasks.length === 0) return [];
+    return await db
+      .insert(fetchTasks)
+      .values(tasks)
+      .returning();
+  }
+
+  async updateFetchTask(id: string, task: Partial<InsertFetchTask>): Promise<FetchTask> {
+    const [result] = await db
+      .update(fetchTasks)
+      .set(task)
+      .where(eq(fetchTasks.id, id))
+      .returning();
+    return result;
+  }
+
+  async getFetchTasks(jobId: string): Promise<FetchTask[]> {
+    return await db
+      .select()
+      .from(fetchTasks)
+      .where(eq(fetchTasks.jobId, jobId))
+      .orderBy(asc(fetchTasks.titleNumber));
+  }
+
+  async resetRunningFetchTasks(jobId: string): Promise<void> {
+    await db
+      .update(fetchTasks)
+      .set({ status: 'pending', startedAt: null })
+      .where(and(eq(fetchTasks.jobId, jobId), eq(fetchTasks.status, 'running')));
+  }
+
+  async skipPendingFetchTasks(jobId: string, reason: string): Promise<void> {
+    await db
+      .update(fetchTasks)
+      .set({ status: 'skipped', reason, finishedAt: new Date() })
+      .where(and(
+        eq(fetchTasks.jobId, jobId),
+        inArray(fetchTasks.status, ['pending', 'running']),
+      ));
+  }
+
+  // Historical snapshots
+  async getHistoricalSnapshot(titleNumber: number, date: string): Promise<HistoricalSnapshot | undefined> {
+    const [result] = await db
+      .select()
+      .from(historicalSnapshots)
+      .where(and(eq(historicalSnapshots.titleNumber, titleNumber), eq(historicalSnapshots.date, date)));
+    return result;
+  }
+
+  async getHistoricalSnapshots(titleNumber?: number): Promise<HistoricalSnapshot[]> {
+    return await db
+      .select()
+      .from(historicalSnapshots)
+      .where(titleNumber !== undefined ? eq(historicalSnapshots.titleNumber, titleNumber) : undefined)
+      .orderBy(asc(historicalSnapshots.titleNumber), asc(historicalSnapshots.date));
+  }
+
+  async getHistoricalSnapshotsForDates(titleNumber: number, dates: string[]): Promise<HistoricalSnapshot[]> {
+    if (dates.length === 0) return [];
+    return await db
+      .select()
+      .from(historicalSnapshots)
+      .where(and(eq(historicalSnapshots.titleNumber, titleNumber), inArray(historicalSnapshots.date, dates)))
+      .orderBy(asc(historicalSnapshots.date));
+  }
+
+  async getHistoricalSnapshotsAtDates(dates: string[]): Promise<HistoricalSnapshot[]> {
+    if (dates.length === 0) return [];
+    return await db
+      .select()
+      .from(historicalSnapshots)
+      .where(inArray(historicalSnapshots.date, dates))
+      .orderBy(asc(historicalSnapshots.titleNumber), asc(historicalSnapshots.date));
+  }
+
+  async upsertHistoricalSnapshot(snapshot: InsertHistoricalSnapshot): Promise<HistoricalSnapshot> {
+    const [result] = await db
+      .insert(historicalSnapshots)
+      .values(snapshot)
+      .onConflictDoUpdate({
+        target: [historicalSnapshots.titleNumber, historicalSnapshots.date],
+        set: { ...snapshot, createdAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  // Historical jobs
+  async createHistoricalJob(job: InsertHistoricalJob): Promise<HistoricalJob> {
+    const [result] = await db
+      .insert(historicalJobs)
+      .values(job)
+      .returning();
+    return result;
+  }
+
+  async updateHistoricalJob(id: string, job: Partial<InsertHistoricalJob>): Promise<HistoricalJob> {
+    const [result] = await db
+      .update(historicalJobs)
+      .set(job)
+      .where(eq(historicalJobs.id, id))
+      .returning();
+    return result;
+  }
+
+  async getHistoricalJob(id: string): Promise<HistoricalJob | undefined> {
+    const [result] = await db
+      .select()
+      .from(historicalJobs)
+      .where(eq(historicalJobs.id, id));
+    return result;
+  }
+
+  async getUnfinishedHistoricalJobs(): Promise<HistoricalJob[]> {
+    return await db
+      .select()
+      .from(historicalJobs)
+      .where(inArray(historicalJobs.status, ['pending', 'running']))
+      .orderBy(asc(historicalJobs.createdAt));
+  }
+
+  // Historical backfills
+  async createHistoricalBackfill(backfill: InsertHistoricalBackfill): Promise<HistoricalBackfill> {
+    const [result] = await db
+      .insert(historicalBackfills)
+      .values(backfill)
+      .returning();
+    return result;
+  }
+
+  async updateHistoricalBackfill(id: string, backfill: Partial<InsertHistoricalBackfill>): Promise<HistoricalBackfill> {
+    const [result] = await db
+      .update(historicalBackfills)
+      .set(backfill)
+      .where(eq(historicalBackfills.id, id))
+      .returning();
+    return result;
+  }
+
+  async getHistoricalBackfill(id: string): Promise<HistoricalBackfill | undefined> {
+    const [result] = await db
+      .select()
+      .from(historicalBackfills)
+      .where(eq(historicalBackfills.id, id));
+    return result;
+  }
+
+  async getLatestHistoricalBackfill(): Promise<HistoricalBackfill | undefined> {
+    const [result] = await db
+      .select()
+      .from(historicalBackfills)
+      .orderBy(desc(historicalBackfills.createdAt))
+      .limit(1);
+    return result;
+  }
+
+  async getUnfinishedHistoricalBackfills(): Promise<HistoricalBackfill[]> {
+    return await db
+      .select()
+      .from(historicalBackfills)
+      .where(inArray(historicalBackfills.status, ['pending', 'running']))
+      .orderBy(asc(historicalBackfills.createdAt));
+  }
+
+  // Amendments
+  async getAmendmentSyncs(): Promise<AmendmentSync[]> {
+    return await db.select().from(amendmentSyncs);
+  }
+
+  async replaceTitleAmendments(titleNumber: number, issueDate: string, rows: InsertAmendment[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(amendments).where(eq(amendments.titleNumber, titleNumber));
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(amendments).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+      }
+      const sync = { titleNumber, issueDate, amendmentCount: rows.length, syncedAt: new Date() };
+      await tx
+        .insert(amendmentSyncs)
+        .values(sync)
+        .onConflictDoUpdate({ target: amendmentSyncs.titleNumber, set: sync });
+    });
+  }
+
+  // An amendment event is a date on which any section of a part changed
+  async getAmendmentsPerYear(scope: AmendmentScope): Promise<{ year: number; count: number }[]> {
+    const parts = this.currentParts(scope.agency);
+    const year = sql<number>`substr(${amendments.date}, 1, 4)::int`;
+    return await db
+      .select({
+        year,
+        count: sql<number>`count(DISTINCT (${amendments.titleNumber}, ${amendments.part}, ${amendments.date}))::int`,
+      })
+      .from(amendments)
+      .leftJoin(parts, and(eq(parts.titleNumber, amendments.titleNumber), eq(parts.part, amendments.part)))
+      .where(this.amendmentScope(scope, parts))
+      .groupBy(year)
+      .orderBy(year);
+  }
+
+  async getPartAmendmentStats(scope: AmendmentScope, limit: number): Promise<Omit<PartVolatility, 'daysSinceLastChange'>[]> {
+    const parts = this.currentParts(scope.agency);
+    const amendmentCount = sql<number>`count(DISTINCT ${amendments.date})::int`;
+    return await db
+      .select({
+        titleNumber: amendments.titleNumber,
+        part: amendments.part,
+        heading: parts.heading,
+        agency: parts.agency,
+        amendmentCount,
+        lastAmendedOn: sql<string>`max(${amendments.date})`,
+      })
+      .from(amendments)
+      .leftJoin(parts, and(eq(parts.titleNumber, amendments.titleNumber), eq(parts.part, amendments.part)))
+      .where(this.amendmentScope(scope, parts))
+      .groupBy(amendments.titleNumber, amendments.part, parts.heading, parts.agency)
+      .orderBy(desc(amendmentCount), asc(amendments.titleNumber), asc(amendments.part))
+      .limit(limit);
+  }
+
+  async getLastAmendmentDate(scope: AmendmentScope): Promise<string | null> {
+    const parts = this.currentParts(scope.agency);
+    const [result] = await db
+      .select({ date: sql<string | null>`max(${amendments.date})` })
+      .from(amendments)
+      .leftJoin(parts, and(eq(parts.titleNumber, amendments.titleNumber), eq(parts.part, amendments.part)))
+      .where(this.amendmentScope(scope, parts));
+    return result?.date ?? null;
+  }
+
+  // Parts of the current snapshot with their heading and responsible agency (only the parts
+  // of the given agency and its sub-agencies when one is given)
+  private currentParts(agency?: string) {
+    return db
+      .select({
+        titleNumber: regulations.titleNumber,
+        part: regulations.part,
+        agency: sql<string | null>`min(${agencies.name})`.as('part_agency'),
+        heading: sql<string | null>`min(${regulations.heading})`.as('part_heading'),
+      })
+      .from(regulations)
+      .leftJoin(agencyReferences, this.referenceCovers())
+      .leftJoin(agencies, eq(agencies.slug, agencyReferences.agencySlug))
+      .where(and(
+        inArray(regulations.titleVersionId, this.snapshotVersionIds()),
+        eq(regulations.nodeType, 'part'),
+        agency !== undefined ? inArray(agencyReferences.agencySlug, this.agencySubtreeSlugs(agency)) : undefined,
+      ))
+      .groupBy(regulations.titleNumber, regulations.part)
+      .as('current_parts');
+  }
+
+  private amendmentScope(scope: AmendmentScope, parts: ReturnType<DatabaseStorage['currentParts']>) {
+    return and(
+      scope.titleNumber !== undefined ? eq(amendments.titleNumber, scope.titleNumber) : undefined,
+      // The join only finds the agency's parts
+      scope.agency !== undefined ? isNotNull(parts.part) : undefined,
+    );
+  }
+
+  // Agencies
+  async replaceAgencies(rows: InsertAgency[], references: InsertAgencyReference[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(agencyReferences);
+      await tx.delete(agencies);
+      for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(agencies).values(rows.slice(i, i + INSERT_BATCH_SIZE));
+      }
+      for (let i = 0; i < references.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(agencyReferences).values(references.slice(i, i + INSERT_BATCH_SIZE));
+      }
+    });
+  }
+
+  async getAgencies(): Promise<Agency[]> {
+    return await db
+      .select()
+      .from(agencies)
+      .orderBy(asc(sql`coalesce(${agencies.sortableName}, ${agencies.name})`));
+  }
+
+  async getAgencyReferencedNodes(): Promise<AgencyReferencedNode[]> {
+    const snapshotRows = inArray(regulations.titleVersionId, this.snapshotVersionIds());
+    const nodes = await db
+      .select({
+        referenceId: agencyReferences.id,
+        slug: agencyReferences.agencySlug,
+        regulationId: regulations.id,
+        titleNumber: regulations.titleNumber,
+        nodeType: regulations.nodeType,
+        identifier: regulations.identifier,
+        parentPath: regulations.parentPath,
+        wordCount: regulations.wordCount,
+        sentenceCount: regulations.sentenceCount,
+        uniqueWords: regulations.uniqueWords,
+        syllableCount: regulations.syllableCount,
+        polysyllableCount: regulations.polysyllableCount,
+        letterCount: regulations.letterCount,
+        restrictionCount: regulations.restrictionCount,
+        sectionCount: regulations.sectionCount,
+        checksum: regulations.checksum,
+        createdAt: regulations.createdAt,
+      })
+      .from(agencyReferences)
+      .innerJoin(regulations, this.referenceCovers())
+      .where(and(snapshotRows, eq(regulations.nodeType, this.referencedNodeType())));
+
+    const partCounts = await db
+      .select({
+        referenceId: agencyReferences.id,
+        count: sql<number>`count(*)::int`,
+      })
+      .from(agencyReferences)
+      .innerJoin(regulations, this.referenceCovers())
+      .where(and(snapshotRows, eq(regulations.nodeType, 'part')))
+      .groupBy(agencyReferences.id);
+    const partCountByReference = new Map(partCounts.map(row => [row.referenceId, row.count]));
+
+    return nodes.map(({ referenceId, nodeType, identifier, parentPath, ...node }) => ({
+      ...node,
+      path: nodeType === 'title' ? '' : [parentPath, `${nodeType}:${identifier ?? ''}`].filter(Boolean).join('/'),
+      partCount: partCountByReference.get(referenceId) ?? 0,
+    }));
+  }
+
+  // Citations
+  async getOutboundCitations(titleNumber: number, identifier: string): Promise<Citation[]> {
+    return await db
+      .select()
+      .from(citations)
+      .where(and(
+        inArray(citations.titleVersionId, this.snapshotVersionIds()),
+        eq(citations.titleNumber, titleNumber),
+        eq(citations.sourceIdentifier, identifier),
+      ))
+      .orderBy(asc(citations.targetKind), asc(citations.targetTitle), asc(citations.targetLabel));
+  }
+
+  async getInboundCitations(titleNumber: number, section: string): Promise<Citation[]> {
+    return await db
+      .select()
+      .from(citations)
+      .where(and(
+        inArray(citations.titleVersionId, this.snapshotVersionIds()),
+        eq(citations.targetKind, 'cfr'),
+        eq(citations.targetTitle, titleNumber),
+        eq(citations.targetSection, section),
+      ))
+      .orderBy(asc(citations.titleNumber), asc(citations.sourceIdentifier));
+  }
+
+  async getMostCited(level: CitationLevel, limit: number): Promise<CitedTarget[]> {
+    const citationCount = sql<number>`sum(${citations.count})::int`;
+    const citingNodeCount = sql<number>`count(DISTINCT ${citations.titleVersionId} || ':' || ${citations.sourceType} || ':' || ${citations.sourceIdentifier})::int`;
+    const snapshotRows = inArray(citations.titleVersionId, this.snapshotVersionIds());
+
+    if (level === 'part') {
+      // Citations of a part and of any of its sections
+      const rows = await db
+        .select({ titleNumber: citations.targetTitle, part: citations.targetPart, citationCount, citingNodeCount })
+        .from(citations)
+        .where(and(snapshotRows, eq(citations.targetKind, 'cfr')))
+        .groupBy(citations.targetTitle, citations.targetPart)
+        .orderBy(desc(citationCount))
+        .limit(limit);
+      return rows.map(row => ({
+        kind: 'cfr' as const,
+        section: null,
+        label: `${row.titleNumber} CFR part ${row.part}`,
+        ...row,
+      }));
+    }
+
+    const rows = await db
+      .select({
+        titleNumber: citations.targetTitle,
+        part: citations.targetPart,
+        section: citations.targetSection,
+        label: citations.targetLabel,
+        citationCount,
+        citingNodeCount,
+      })
+      .from(citations)
+      .where(and(
+        snapshotRows,
+        eq(citations.targetKind, level === 'usc' ? 'usc' : 'cfr'),
+        isNotNull(citations.targetSection),
+      ))
+      .groupBy(citations.targetTitle, citations.targetPart, citations.targetSection, citations.targetLabel)
+      .orderBy(desc(citationCount))
+      .limit(limit);
+    return rows.map(row => ({ kind: level === 'usc' ? 'usc' as const : 'cfr' as const, ...row }));
+  }
+
+  async getCitationEdges({ level, titleNumber, part, agency, limit }: CitationEdgeQuery): Promise<CitationEdgeRow[]> {
+    const sourceSection = level === 'section' ? citations.sourceIdentifier : sql<string | null>`NULL`;
+    const targetSection = level === 'section' ? citations.targetSection : sql<string | null>`NULL`;
+    const weight = sql<number>`sum(${citations.count})::int`;
+    // A part citing itself (or a section citing itself) says nothing about coupling
+    const selfReference = level === 'section'
+      ? sql`${citations.titleNumber} = ${citations.targetTitle} AND ${citations.sourceIdentifier} = ${citations.targetSection}`
+      : sql`${citations.titleNumber} = ${citations.targetTitle} AND ${citations.sourcePart} = ${citations.targetPart}`;
+
+    // Citations from nodes an agency is responsible for, each citation once however many
+    // of the agency's references cover its node
+    const agencyCitations = agency
+      ? db
+          .selectDistinct({ id: citations.id })
+          .from(citations)
+          .innerJoin(regulations, and(
+            eq(regulations.titleVersionId, citations.titleVersionId),
+            eq(regulations.nodeType, citations.sourceType),
+            eq(regulations.identifier, citations.sourceIdentifier),
+          ))
+          .innerJoin(agencyReferences, this.referenceCovers())
+          .where(inArray(agencyReferences.agencySlug, this.agencySubtreeSlugs(agency)))
+      : undefined;
+
+    const rows = await db
+      .select({
+        sourceTitle: citations.titleNumber,
+        sourcePart: citations.sourcePart,
+        sourceSection,
+        targetTitle: citations.targetTitle,
+        targetPart: citations.targetPart,
+        targetSection,
+        weight,
+      })
+      .from(citations)
+      .where(and(
+        inArray(citations.titleVersionId, this.snapshotVersionIds()),
+        eq(citations.targetKind, 'cfr'),
+        isNotNull(citations.sourcePart),
+        sql`NOT (${selfReference})`,
+        level === 'section' ? eq(citations.sourceType, 'section') : undefined,
+        level === 'section' ? isNotNull(citations.targetSection) : undefined,
+        titleNumber !== undefined ? eq(citations.titleNumber, titleNumber) : undefined,
+        part !== undefined ? eq(citations.sourcePart, part) : undefined,
+        agencyCitations ? inArray(citations.id, agencyCitations) : undefined,
+      ))
+      .groupBy(
+        citations.titleNumber, citations.sourcePart, citations.targetTitle, citations.targetPart,
+        ...(level === 'section' ? [citations.sourceIdentifier, citations.targetSection] : []),
+      )
+      .orderBy(desc(weight))
+      .limit(limit);
+    return rows.map(row => ({ ...row, sourcePart: row.sourcePart!, targetPart: row.targetPart! }));
+  }
+
+  async getBrokenCitations(snapshotId?: string): Promise<BrokenCitationRow[]> {
+    const reservedTarget = db
+      .select({ id: citedSections.id })
+      .from(citedSections)
+      .where(and(this.citedSectionMatches(snapshotId), sql`${citedSections.heading} ILIKE '%[reserved]%'`));
+    const reason = sql<BrokenCitationReason>`CASE WHEN ${exists(reservedTarget)} THEN 'reserved' ELSE 'missing' END`;
+
+    // Left joins keep citing nodes no agency is responsible for; DISTINCT drops repeats from
+    // several references of one agency covering the same node
+    const rows = await db
+      .selectDistinct({
+        citationId: citations.id,
+        agency: agencies.name,
+        titleNumber: citations.titleNumber,
+        sourceType: citations.sourceType,
+        sourceIdentifier: citations.sourceIdentifier,
+        sourcePart: citations.sourcePart,
+        targetLabel: citations.targetLabel,
+        targetTitle: citations.targetTitle,
+        targetSection: citations.targetSection,
+        reason,
+        count: citations.count,
+      })
+      .from(citations)
+      .leftJoin(regulations, and(
+        eq(regulations.titleVersionId, citations.titleVersionId),
+        eq(regulations.nodeType, citations.sourceType),
+        eq(regulations.identifier, citations.sourceIdentifier),
+      ))
+      .leftJoin(agencyReferences, this.referenceCovers())
+      .leftJoin(agencies, eq(agencies.slug, agencyReferences.agencySlug))
+      .where(this.brokenCitationConditions(snapshotId))
+      .orderBy(asc(agencies.name), asc(citations.titleNumber), asc(citations.sourceIdentifier), asc(citations.targetLabel));
+    return rows.map(row => ({ ...row, targetSection: row.targetSection! }));
+  }
+
+  async countBrokenCitations(snapshotId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(citations)
+      .where(this.brokenCitationConditions(snapshotId));
+    return result?.count ?? 0;
+  }
+
+  // Citations of a snapshot that point to a section of a title in the snapshot, but not to a
+  // section with text. Titles missing from the snapshot cannot be checked and are left out
+  private brokenCitationConditions(snapshotId?: string) {
+    const snapshotTitleNumbers = db
+      .select({ titleNumber: titleVersions.titleNumber })
+      .from(titleVersions)
+      .where(inArray(titleVersions.id, this.snapshotVersionIds(snapshotId)));
+    const liveTarget = db
+      .select({ id: citedSections.id })
+      .from(citedSections)
+      .where(and(this.citedSectionMatches(snapshotId), sql`coalesce(${citedSections.heading}, '') NOT ILIKE '%[reserved]%'`));
+    return and(
+      inArray(citations.titleVersionId, this.snapshotVersionIds(snapshotId)),
+      eq(citations.targetKind, 'cfr'),
+      isNotNull(citations.targetSection),
+      inArray(citations.targetTitle, snapshotTitleNumbers),
+      notExists(liveTarget),
+    );
+  }
+
+  // Correlates a section of the snapshot with the section a citations row points to
+  private citedSectionMatches(snapshotId?: string) {
+    return and(
+      inArray(citedSections.titleVersionId, this.snapshotVersionIds(snapshotId)),
+      eq(citedSections.titleNumber, citations.targetTitle),
+      eq(citedSections.nodeType, 'section'),
+      eq(citedSections.identifier, citations.targetSection),
+    );
+  }
+
+  // Slugs of the named agency and its sub-agencies, as a subquery
+  private agencySubtreeSlugs(name: string) {
+    const named = db.select({ slug: agencies.slug }).from(agencies).where(eq(agencies.name, name));
+    return db
+      .select({ slug: agencies.slug })
+      .from(agencies)
+      .where(or(eq(agencies.name, name), inArray(agencies.parentSlug, named)));
+  }
+
+  // Join condition: the regulation row lies within the portion of the CFR an agency reference
+  // points at. The row's own type and identifier count as part of its path, so the referenced
+  // node itself is covered too
+  private referenceCovers() {
+    const path = sql`'/' || coalesce(${regulations.parentPath}, '') || '/' || ${regulations.nodeType} || ':' || coalesce(${regulations.identifier}, '') || '/'`;
+    return and(
+      eq(regulations.titleNumber, agencyReferences.titleNumber),
+      sql`(${agencyReferences.part} IS NULL OR ${regulations.part} = ${agencyReferences.part})`,
+      sql`(${agencyReferences.chapter} IS NULL OR ${regulations.chapter} = ${agencyReferences.chapter})`,
+      sql`(${agencyReferences.subchapter} IS NULL OR ${path} LIKE '%/subchap:' || ${agencyReferences.subchapter} || '/%')`,
+      sql`(${agencyReferences.subtitle} IS NULL OR ${path} LIKE '%/subtitle:' || ${agencyReferences.subtitle} || '/%')`,
+    )!;
+  }
+
+  // Node type of the top node an agency reference points at (its metrics cover the whole reference)
+  private referencedNodeType() {
+    return sql<string>`CASE
+      WHEN ${agencyReferences.part} IS NOT NULL THEN 'part'
+      WHEN ${agencyReferences.subchapter} IS NOT NULL THEN 'subchap'
+      WHEN ${agencyReferences.chapter} IS NOT NULL THEN 'chapter'
+      WHEN ${agencyReferences.subtitle} IS NOT NULL THEN 'subtitle'
+      ELSE 'title'
+    END`;
+  }
+
+  // Fetch lock
+  async tryAcquireFetchLock(): Promise<FetchLock | null> {
+    const client = await pool.connect();
+    try {
+      const { rows } = await client.query<{ locked: boolean }>(
+        'SELECT pg_try_advisory_lock($1) AS locked',
+        [FETCH_LOCK_KEY],
+      );
+      if (!rows[0]?.locked) {
+        client.release();
+        return null;
+      }
+    } catch (error) {
+      client.release();
+      throw error;
+    }
+
+    let released = false;
+    return {
+      async release() {
+        if (released) return;
+        released = true;
+        try {
+          await client.query('SELECT pg_advisory_unlock($1)', [FETCH_LOCK_KEY]);
+        } catch (error) {
+          // The session may still hold the lock: destroy the connection instead of pooling it
+          client.release(error instanceof Error ? error : true);
+          throw error;
+        }
+        client.release();
+      },
+    };
+  }
+
+  async isFetchLocked(): Promise<boolean> {
+    // Advisory locks on a single bigint key are listed with the key in objid
+    const result = await db.execute(sql`
+      SELECT EXISTS (
+        SELECT 1 FROM pg_locks
+        WHERE locktype = 'advisory' AND classid = 0 AND objid = ${FETCH_LOCK_KEY} AND objsubid = 1 AND granted
+      ) AS locked
+    `);
+    return (result.rows[0] as { locked: boolean } | undefined)?.locked === true;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { diffWords } from "./text-diff";
+
+test("diffWords reports equal texts as one equal segment", () => {
+  assert.deepEqual(diffWords("The  Administrator\nshall act.", "The Administrator shall act."), [
+    { type: 'equal', text: "The Administrator shall act." },
+  ]);
+  assert.deepEqual(diffWords("", "  "), []);
+});
+
+test("diffWords reports runs of inserted and deleted words", () => {
+  assert.deepEqual(diffWords("The Administrator shall act within 30 days.", "The Secretary shall act within 60 calendar days."), [
+    { type: 'equal', text: "The" },
+    { type: 'delete', text: "Administrator" },
+    { type: 'insert', text: "Secretary" },
+    { type: 'equal', text: "shall act within" },
+    { type: 'delete', text: "30" },
+    { type: 'insert', text: "60 calendar" },
+    { type: 'equal', text: "days." },
+  ]);
+});
+
+test("diffWords reports added and removed texts as a single run", () => {
+  assert.deepEqual(diffWords("", "New section text."), [{ type: 'insert', text: "New section text." }]);
+  assert.deepEqual(diffWords("[Reserved]", ""), [{ type: 'delete', text: "[Reserved]" }]);
+});
+
+test("diffWords replaces the changed middle wholesale beyond maxEdits", () => {
+  assert.deepEqual(diffWords("a b c d e z", "a x c y e z", 3), [
+    { type: 'equal', text: "a" },
+    { type: 'delete', text: "b c d" },
+    { type: 'insert', text: "x c y" },
+    { type: 'equal', text: "e z" },
+  ]);
+  assert.deepEqual(diffWords("a b c d e z", "a x c y e z", 4), [
+    { type: 'equal', text: "a" },
+    { type: 'delete', text: "b" },
+    { type: 'insert', text: "x" },
+    { type: 'equal', text: "c" },
+    { type: 'delete', text: "d" },
+    { type: 'insert', text: "y" },
+    { type: 'equal', text: "e z" },
+  ]);
+});
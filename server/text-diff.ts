@@ -0,0 +1,127 @@
+import type { DiffSegment } from "@shared/schema";
+
+type DiffType = DiffSegment['type'];
+
+// Edit distance (words inserted + deleted) beyond which a text is reported as fully replaced
+export const DEFAULT_MAX_EDITS = 2000;
+
+/**
+ * Word-level diff of two texts (Myers' algorithm). Whitespace is normalized, so segments are
+ * runs of words joined by single spaces. When the texts differ by more than `maxEdits` words
+ * the old text is returned as deleted and the new one as inserted
+ */
+export function diffWords(before: string, after: string, maxEdits = DEFAULT_MAX_EDITS): DiffSegment[] {
+  const a = splitWords(before);
+  const b = splitWords(after);
+
+  // Common prefix and suffix are cheap to strip and usually most of a section
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = shortestEditScript(middleA, middleB, maxEdits) ?? [
+    ...middleA.map(word => ({ type: 'delete' as const, word })),
+    ...middleB.map(word => ({ type: 'insert' as const, word })),
+  ];
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffType, word: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += ' ' + word;
+    } else {
+      segments.push({ type, text: word });
+    }
+  };
+  for (const word of a.slice(0, prefix)) push('equal', word);
+  for (const edit of middle) push(edit.type, edit.word);
+  for (const word of a.slice(a.length - suffix)) push('equal', word);
+  return segments;
+}
+
+function splitWords(text: string): string[] {
+  const trimmed = text.trim();
+  return trimmed.length > 0 ? trimmed.split(/\s+/) : [];
+}
+
+/**
+ * Myers' O(ND) shortest edit script. Null when more than maxEdits edits are needed
+ */
+function shortestEditScript(
+  a: string[],
+  b: string[],
+  maxEdits: number,
+): { type: DiffType; word: string }[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, maxEdits);
+  const offset = max + 1;
+  // v[offset + k]: furthest x reached on diagonal k (k = x - y)
+  let v = new Int32Array(2 * max + 3);
+  // v as it was before each round d, for backtracking
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v);
+    v = v.slice();
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1] // down: insert
+        : v[offset + k - 1] + 1; // right: delete
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, offset);
+      }
+    }
+  }
+  return null;
+}
+
+function backtrack(
+  trace: Int32Array[],
+  a: string[],
+  b: string[],
+  offset: number,
+): { type: DiffType; word: string }[] {
+  const edits: { type: DiffType; word: string }[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: 'equal', word: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: 'insert', word: b[y - 1] });
+      } else {
+        edits.push({ type: 'delete', word: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return edits.reverse();
+}
@@ -0,0 +1,239 @@
+import { ecfrSource } from "./ecfr-source";
+import { analyzeXmlStream, calculateRCI, type CaptureTextFilter, type HierarchyNode, type TextMetrics } from "./ecfr-service";
+import { assertSnapshotDate, InvalidSnapshotDatesError } from "./snapshot-dates";
+import { diffWords } from "./text-diff";
+import type { SectionChange, SectionDiffMetrics, TitleDiff } from "@shared/schema";
+
+// Sections that get a word-level diff unless the request asks for another limit
+export const DEFAULT_TEXT_DIFF_LIMIT = 100;
+// Upper bound of the requested limit: each text diff re-reads both versions' section text
+export const MAX_TEXT_DIFF_LIMIT = 1000;
+
+// Node types aligned between the two versions
+const ALIGNED_NODE_TYPES = ['section', 'appendix'];
+
+/**
+ * Raised when eCFR has no content for the title on one of the dates
+ */
+export class TitleVersionNotFoundError extends Error {
+  constructor(readonly titleNumber: number, readonly date: string) {
+    super(`Title ${titleNumber} has no content on ${date}`);
+    this.name = 'TitleVersionNotFoundError';
+  }
+}
+
+export interface TitleDiffOptions {
+  // Restrict the diff to one part
+  part?: string;
+  // Changed sections that get a word-level diff (the rest only report metric deltas)
+  textDiffLimit?: number;
+  // Aborts the downloads of both versions (e.g. when the client disconnects)
+  signal?: AbortSignal;
+}
+
+interface TitleVersion {
+  totals: TextMetrics;
+  sections: Map<string, HierarchyNode>;
+}
+
+/**
+ * Compares a title at two dates section by section. Sections are aligned by type and
+ * identifier; those whose text checksum differs are reported as modified. Both versions are
+ * analyzed twice: once for checksums and metrics, then again to capture the text of the
+ * changed sections only, so memory stays bounded for the largest titles. Throws
+ * InvalidSnapshotDatesError for bad dates and TitleVersionNotFoundError when a date has no content
+ */
+export async function diffTitle(
+  titleNumber: number,
+  from: string,
+  to: string,
+  { part, textDiffLimit = DEFAULT_TEXT_DIFF_LIMIT, signal }: TitleDiffOptions = {},
+): Promise<TitleDiff> {
+  assertSnapshotDate(from);
+  assertSnapshotDate(to);
+  if (from >= to) {
+    throw new InvalidSnapshotDatesError("from must be before to");
+  }
+
+  const titles = await ecfrSource.getTitles();
+  const titleName = titles.find(t => t.number === titleNumber)?.name ?? `Title ${titleNumber}`;
+
+  const before = await analyzeVersion(titleNumber, from, part, signal);
+  const after = await analyzeVersion(titleNumber, to, part, signal);
+
+  const changes: SectionChange[] = [];
+  let unchanged = 0;
+  for (const [key, node] of Array.from(after.sections.entries())) {
+    const previous = before.sections.get(key);
+    if (!previous) {
+      changes.push(toChange(node, 'added', null, node));
+    } else if (previous.checksum !== node.checksum) {
+      changes.push(toChange(node, 'modified', previous, node));
+    } else {
+      unchanged++;
+    }
+  }
+  for (const [key, node] of Array.from(before.sections.entries())) {
+    if (!after.sections.has(key)) {
+      changes.push(toChange(node, 'removed', node, null));
+    }
+  }
+
+  const withText = changes.slice(0, Math.max(0, textDiffLimit));
+  if (withText.length > 0) {
+    const keys = new Set(withText.map(change => sectionKey(change.type, change.identifier)));
+    const capture: CaptureTextFilter = (type, identifier) => keys.has(sectionKey(type, identifier));
+    const beforeTexts = await captureTexts(titleNumber, from, capture, signal);
+    const afterTexts = await captureTexts(titleNumber, to, capture, signal);
+    for (const change of withText) {
+      const key = sectionKey(change.type, change.identifier);
+      change.diff = diffWords(beforeTexts.get(key) ?? '', afterTexts.get(key) ?? '');
+    }
+  }
+
+  const beforeMetrics = toDiffMetrics(before.totals);
+  const afterMetrics = toDiffMetrics(after.totals);
+  return {
+    titleNumber,
+    titleName,
+    from,
+    to,
+    part: part ?? null,
+    summary: {
+      added: changes.filter(change => change.status === 'added').length,
+      removed: changes.filter(change => change.status === 'removed').length,
+      modified: changes.filter(change => change.status === 'modified').length,
+      unchanged,
+    },
+    before: beforeMetrics,
+    after: afterMetrics,
+    delta: subtractMetrics(afterMetrics, beforeMetrics),
+    changes,
+  };
+}
+
+function sectionKey(type: string, identifier: string): string {
+  return `${type}:${identifier}`;
+}
+
+async function analyzeVersion(
+  titleNumber: number,
+  date: string,
+  part: string | undefined,
+  signal: AbortSignal | undefined,
+): Promise<TitleVersion> {
+  const xmlStream = await ecfrSource.getTitleXml(titleNumber, date, { signal });
+  if (!xmlStream) {
+    throw new TitleVersionNotFoundError(titleNumber, date);
+  }
+  const analysis = await analyzeXmlStream(xmlStream);
+
+  const sections = new Map<string, HierarchyNode>();
+  for (const node of analysis.nodes) {
+    if (!ALIGNED_NODE_TYPES.includes(node.type) || (part && node.part !== part)) continue;
+    const key = sectionKey(node.type, node.identifier);
+    // Duplicate identifiers (e.g. repeated reserved placeholders) keep their first occurrence
+    if (!sections.has(key)) {
+      sections.set(key, node);
+    }
+  }
+
+  // Nodes are emitted when they close; document order is by position
+  const ordered = new Map(
+    Array.from(sections.entries()).sort(([, a], [, b]) => a.position - b.position),
+  );
+  const partNode = part ? analysis.nodes.find(node => node.type === 'part' && node.identifier === part) : undefined;
+  return {
+    totals: part ? partNode ?? emptyMetrics() : analysis,
+    sections: ordered,
+  };
+}
+
+async function captureTexts(
+  titleNumber: number,
+  date: string,
+  captureText: CaptureTextFilter,
+  signal: AbortSignal | undefined,
+): Promise<Map<string, string>> {
+  const xmlStream = await ecfrSource.getTitleXml(titleNumber, date, { signal });
+  if (!xmlStream) {
+    throw new TitleVersionNotFoundError(titleNumber, date);
+  }
+  const analysis = await analyzeXmlStream(xmlStream, { captureText });
+  const texts = new Map<string, string>();
+  for (const node of analysis.nodes) {
+    const key = sectionKey(node.type, node.identifier);
+    if (node.text !== undefined && !texts.has(key)) {
+      texts.set(key, node.text);
+    }
+  }
+  return texts;
+}
+
+function toChange(
+  node: HierarchyNode,
+  status: SectionChange['status'],
+  before: HierarchyNode | null,
+  after: HierarchyNode | null,
+): SectionChange {
+  const beforeMetrics = before ? toDiffMetrics(before) : null;
+  const afterMetrics = after ? toDiffMetrics(after) : null;
+  return {
+    type: node.type,
+    identifier: node.identifier,
+    heading: node.heading,
+    part: node.part,
+    status,
+    before: beforeMetrics,
+    after: afterMetrics,
+    delta: subtractMetrics(afterMetrics ?? zeroMetrics(), beforeMetrics ?? zeroMetrics()),
+    diff: null,
+  };
+}
+
+function toDiffMetrics(metrics: TextMetrics): SectionDiffMetrics {
+  return {
+    wordCount: metrics.wordCount,
+    sentenceCount: metrics.sentenceCount,
+    avgSentenceLength: roundTo2(metrics.avgSentenceLength),
+    vocabularyDiversity: roundTo4(metrics.vocabularyDiversity),
+    rci: roundTo2(calculateRCI(metrics.avgSentenceLength, metrics.vocabularyDiversity)),
+  };
+}
+
+function subtractMetrics(a: SectionDiffMetrics, b: SectionDiffMetrics): SectionDiffMetrics {
+  return {
+    wordCount: a.wordCount - b.wordCount,
+    sentenceCount: a.sentenceCount - b.sentenceCount,
+    avgSentenceLength: roundTo2(a.avgSentenceLength - b.avgSentenceLength),
+    vocabularyDiversity: roundTo4(a.vocabularyDiversity - b.vocabularyDiversity),
+    rci: roundTo2(a.rci - b.rci),
+  };
+}
+
+function zeroMetrics(): SectionDiffMetrics {
+  return { wordCount: 0, sentenceCount: 0, avgSentenceLength: 0, vocabularyDiversity: 0, rci: 0 };
+}
+
+function emptyMetrics(): TextMetrics {
+  return {
+    wordCount: 0,
+    sentenceCount: 0,
+    avgSentenceLength: 0,
+    vocabularyDiversity: 0,
+    uniqueWords: 0,
+    restrictionCount: 0,
+    syllableCount: 0,
+    polysyllableCount: 0,
+    letterCount: 0,
+    checksum: '',
+  };
+}
+
+function roundTo2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function roundTo4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { tokenize } from "./tokenizer";
+import { analyzeText } from "./ecfr-service";
+
+interface TokenizerCase {
+  name: string;
+  text: string;
+  sentences: number;
+  openSentence?: boolean;
+  words?: string[];
+}
+
+const cases: TokenizerCase[] = JSON.parse(
+  readFileSync(new URL("./fixtures/tokenizer.json", import.meta.url), "utf8"),
+);
+
+for (const fixture of cases) {
+  test(`tokenize: ${fixture.name}`, () => {
+    const result = tokenize(fixture.text);
+    assert.equal(result.sentenceCount, fixture.sentences);
+    if (fixture.openSentence !== undefined) {
+      assert.equal(result.openSentence, fixture.openSentence);
+    }
+    if (fixture.words) {
+      assert.deepEqual(result.words, fixture.words);
+    }
+  });
+}
+
+test("analyzeText counts a sentence without a terminal mark", () => {
+  assert.equal(analyzeText("Definitions. Terms used in this part").sentenceCount, 2);
+  assert.equal(analyzeText("Samples are shipped within the U.S.").sentenceCount, 1);
+  assert.equal(analyzeText("").sentenceCount, 1);
+});
+
+test("analyzeText does not split on citations", () => {
+  const metrics = analyzeText("See 40 CFR 60.13 and 42 U.S.C. 7411(d). Reports are due by Jan. 30.");
+  assert.equal(metrics.sentenceCount, 2);
+  assert.equal(metrics.wordCount, 14);
+});
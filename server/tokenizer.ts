@@ -0,0 +1,122 @@
+/**
+ * Regulation-aware tokenizer: splits text into words and finds sentence boundaries without
+ * being fooled by legal abbreviations ("U.S.", "e.g.", "Pub. L."), section symbols and
+ * citations ("§ 1.2", "40 CFR 60.13"), paragraph markers ("(a)(1)", "1.") or decimal numbers
+ */
+
+export interface Tokenization {
+  // Lower-cased words without surrounding punctuation; paragraph markers and bare symbols are not words
+  words: string[];
+  // Sentences ended by a terminal mark (. ! ?)
+  sentenceCount: number;
+  // True when words follow the last sentence boundary (a sentence without a terminal mark)
+  openSentence: boolean;
+}
+
+// Abbreviations that are not sentence-final in regulatory text (lower case, without the final period)
+const ABBREVIATIONS = new Set([
+  // Citations and references
+  'no', 'nos', 'pub', 'l', 'stat', 'fed', 'reg', 'sec', 'secs', 'art', 'ch', 'pt', 'pts', 'subpt',
+  'par', 'para', 'paras', 'vol', 'app', 'fig', 'approx', 'cf', 'ex', 'supp', 'amend', 'ref', 'rev',
+  // Organizations and places
+  // ("Inc.", "Corp." and "Co." often end a sentence and are left out)
+  'dept', 'div', 'admin', 'assn', 'assoc', 'govt', 'natl', 'intl', 'attn', 'ave', 'blvd', 'rd', 'st',
+  'ft', 'mt',
+  // Titles
+  'mr', 'mrs', 'ms', 'dr', 'jr', 'sr', 'hon', 'gen', 'gov', 'rep', 'sen', 'prof',
+  // Months
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sept', 'oct', 'nov', 'dec',
+  // Latin and units
+  'vs', 'v', 'viz', 'al', 'min', 'max', 'avg', 'hr', 'hrs', 'sq', 'cu', 'oz', 'lb', 'lbs', 'gal',
+  'yd', 'deg',
+]);
+
+// Dotted initialisms such as "U.S.", "e.g.", "i.e." and "U.S.C."
+const INITIALISM = /^(?:[a-z]\.){2,}$/i;
+// Paragraph markers such as "(a)", "(1)", "(iv)" and "(a)(1)(i)", optionally followed by punctuation
+const PARAGRAPH_MARKER = /^(?:\([0-9a-z]{1,5}\))+[.,;:]?$/i;
+// List labels such as "1.", "a.", "A." or "iv." at the start of a sentence
+const LIST_LABEL = /^(?:[0-9]{1,3}|[a-z]|[ivxlc]{1,6})\.$/i;
+// Closing punctuation that may follow a terminal mark: `rule.)` or `"rule."`
+const TRAILING_CLOSERS = /["'”’)\]]+$/;
+// First character of a token that can start a new sentence
+const SENTENCE_START = /^["'“‘(\[§]*[A-Z0-9§(]/;
+
+/**
+ * Splits text into words and counts its sentences
+ */
+export function tokenize(text: string): Tokenization {
+  const tokens = text.split(/\s+/).filter(token => token.length > 0);
+  const words: string[] = [];
+  let sentenceCount = 0;
+  // Whether the current sentence has words yet
+  let inSentence = false;
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const next = i + 1 < tokens.length ? tokens[i + 1] : null;
+
+    const word = normalizeWord(token);
+    if (word) {
+      words.push(word);
+    }
+
+    // Paragraph markers and list labels opening a sentence ("(a)(1). The owner", "1. Scope.")
+    // are not sentences of their own
+    if (!inSentence && (!word || LIST_LABEL.test(token))) {
+      continue;
+    }
+    inSentence = true;
+
+    if (inSentence && endsSentence(token, next)) {
+      sentenceCount++;
+      inSentence = false;
+    }
+  }
+
+  return { words, sentenceCount, openSentence: inSentence };
+}
+
+/**
+ * Whether a token closes a sentence, given the token that follows it (null at the end of the text)
+ */
+function endsSentence(token: string, next: string | null): boolean {
+  const stripped = token.replace(TRAILING_CLOSERS, '');
+  const terminal = stripped.charAt(stripped.length - 1);
+  if (terminal === '!' || terminal === '?') {
+    return next === null || SENTENCE_START.test(next);
+  }
+  if (terminal !== '.') {
+    return false;
+  }
+
+  // Abbreviations never end a sentence, not even at the end of the text: analyzed text arrives
+  // in chunks split at inline markup ("the <E>U.S.</E> Code"), so the sentence may continue.
+  // Callers that see the whole text count the open sentence instead
+  const body = stripped.replace(/^["'“‘(\[]+/, '');
+  if (INITIALISM.test(body) || ABBREVIATIONS.has(body.slice(0, -1).toLowerCase())) {
+    return false;
+  }
+  // An ellipsis ends a sentence only at the end of the text
+  if (/\.\.\.$/.test(body)) {
+    return next === null;
+  }
+  // A lower-case continuation ("paragraph (a)(1). of this section") keeps the sentence open
+  return next === null || SENTENCE_START.test(next);
+}
+
+/**
+ * Lower-cases a token and strips surrounding punctuation. Returns null for tokens that are not
+ * words: paragraph markers and bare symbols ("§", "—")
+ */
+function normalizeWord(token: string): string | null {
+  if (PARAGRAPH_MARKER.test(token)) {
+    return null;
+  }
+  // Inner punctuation is kept ("1.2", "U.S", "non-road", "owner's")
+  const word = token
+    .replace(/^[^0-9a-z]+/i, '')
+    .replace(/[^0-9a-z]+$/i, '')
+    .toLowerCase();
+  return word.length > 0 ? word : null;
+}
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHash, randomBytes } from "crypto";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { Readable } from "stream";
+import { gzipSync } from "zlib";
+import { gzipTee, openGzipFile } from "./xml-cache";
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function withTempDir(run: (directory: string) => Promise<void>): Promise<void> {
+  const directory = await mkdtemp(path.join(tmpdir(), "xml-cache-test-"));
+  try {
+    await run(directory);
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+test("openGzipFile decompresses a file", async () => {
+  await withTempDir(async directory => {
+    const filePath = path.join(directory, "title.xml.gz");
+    await writeFile(filePath, gzipSync("<ECFR/>"));
+    assert.equal((await readAll(openGzipFile(filePath))).toString(), "<ECFR/>");
+  });
+});
+
+test("openGzipFile fails its consumer when the signal aborts", async () => {
+  await withTempDir(async directory => {
+    const filePath = path.join(directory, "title.xml.gz");
+    await writeFile(filePath, gzipSync(randomBytes(4_000_000)));
+    const controller = new AbortController();
+    const stream = openGzipFile(filePath, controller.signal);
+    stream.once("data", () => controller.abort());
+    await assert.rejects(readAll(stream), { name: "AbortError" });
+  });
+});
+
+test("openGzipFile fails its consumer when the file cannot be read", async () => {
+  await assert.rejects(readAll(openGzipFile(path.join(tmpdir(), "missing-xml-cache-test.xml.gz"))), { code: "ENOENT" });
+});
+
+test("gzipTee passes the stream through and reports the copy", async () => {
+  await withTempDir(async directory => {
+    const content = randomBytes(100_000);
+    const { output, written } = gzipTee(Readable.from([content]), path.join(directory, "copy.xml.gz"));
+    assert.deepEqual(await readAll(output), content);
+    const result = await written;
+    assert.equal(result.rawSize, content.length);
+    assert.equal(result.hash, createHash("sha256").update(content).digest("hex"));
+  });
+});
+
+test("gzipTee keeps the stream flowing when the copy cannot be written", async () => {
+  const content = randomBytes(500_000);
+  const unwritable = path.join(tmpdir(), "missing-xml-cache-dir", "copy.xml.gz");
+  const { output, written } = gzipTee(Readable.from([content.subarray(0, 250_000), content.subarray(250_000)]), unwritable);
+  assert.deepEqual(await readAll(output), content);
+  await assert.rejects(written, { code: "ENOENT" });
+});
@@ -0,0 +1,386 @@
+import { createHash, randomUUID } from "crypto";
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, readFile, rename, rm, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { pipeline, Transform, type Readable } from "stream";
+import { createGunzip, createGzip } from "zlib";
+import type { EcfrSource, FetchOptions } from "./ecfr-source";
+
+const INDEX_FILE = 'index.json';
+const BLOB_DIR = 'blobs';
+const TEMP_DIR = 'tmp';
+
+// One cached download: the full XML of a title as of a date
+interface CacheEntry {
+  // SHA-256 of the uncompressed XML; names the blob, so identical content is stored once
+  hash: string;
+  // Size of the gzip blob on disk and of the uncompressed XML
+  size: number;
+  rawSize: number;
+  lastAccessAt: number;
+}
+
+export interface XmlCacheStats {
+  enabled: boolean;
+  directory: string | null;
+  entries: number;
+  blobs: number;
+  totalBytes: number;
+  rawBytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+/**
+ * Content-addressed, gzip-compressed disk cache of title XML keyed by title and date.
+ * Blobs are evicted least recently used first once the cache exceeds its size limit.
+ *
+ * Layout:
+ *   index.json             - cache key -> entry
+ *   blobs/<sha256>.xml.gz  - compressed XML
+ *   tmp/                   - downloads in progress
+ */
+export class XmlCache {
+  private entries: Map<string, CacheEntry> | null = null;
+  // Loading clears tmp/, so concurrent first callers share one load instead of racing
+  private loading: Promise<Map<string, CacheEntry>> | null = null;
+  // Index writes are serialized so concurrent downloads never interleave them
+  private indexWrite: Promise<void> = Promise.resolve();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(readonly directory: string, readonly maxBytes: number) {}
+
+  static key(titleNumber: number, date: string): string {
+    return `title-${titleNumber}@${date}`;
+  }
+
+  /**
+   * Returns the cached XML as a decompressed byte stream, or null on a miss
+   */
+  async get(key: string, options: FetchOptions = {}): Promise<Readable | null> {
+    const entries = await this.load();
+    const entry = entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    const blobPath = this.blobPath(entry.hash);
+    try {
+      await stat(blobPath);
+    } catch {
+      // Blob removed behind our back: forget the entry
+      entries.delete(key);
+      await this.saveIndex();
+      this.misses++;
+      return null;
+    }
+
+    this.hits++;
+    entry.lastAccessAt = Date.now();
+    await this.saveIndex();
+    return openGzipFile(blobPath, options.signal);
+  }
+
+  /**
+   * Passes a download through unchanged while writing it to the cache. The entry is only
+   * committed once the whole stream has been read; an aborted or failed download is discarded
+   */
+  async store(key: string, input: Readable): Promise<Readable> {
+    await this.load();
+    const tempPath = path.join(this.directory, TEMP_DIR, `${randomUUID()}.xml.gz`);
+    const { output, written } = gzipTee(input, tempPath);
+    written
+      .then(result => this.commit(key, tempPath, result))
+      .catch(error => {
+        if (!isStreamAbandoned(error)) console.error(`Error caching ${key}:`, error);
+      });
+    return output;
+  }
+
+  async stats(): Promise<XmlCacheStats> {
+    const entries = await this.load();
+    const blobs = new Map<string, CacheEntry>();
+    for (const entry of Array.from(entries.values())) {
+      blobs.set(entry.hash, entry);
+    }
+    const blobEntries = Array.from(blobs.values());
+
+    return {
+      enabled: true,
+      directory: this.directory,
+      entries: entries.size,
+      blobs: blobs.size,
+      totalBytes: blobEntries.reduce((sum, e) => sum + e.size, 0),
+      rawBytes: blobEntries.reduce((sum, e) => sum + e.rawSize, 0),
+      maxBytes: this.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+
+  /**
+   * Removes every cached download
+   */
+  async clear(): Promise<void> {
+    const entries = await this.load();
+    entries.clear();
+    await rm(path.join(this.directory, BLOB_DIR), { recursive: true, force: true });
+    await mkdir(path.join(this.directory, BLOB_DIR), { recursive: true });
+    await this.saveIndex();
+  }
+
+  private async commit(key: string, tempPath: string, { hash, size, rawSize }: GzipTeeResult): Promise<void> {
+    const entries = await this.load();
+    // Identical content may already be stored under another key
+    await rename(tempPath, this.blobPath(hash));
+
+    entries.set(key, { hash, size, rawSize, lastAccessAt: Date.now() });
+    await this.evict();
+    await this.saveIndex();
+  }
+
+  // Drops least recently used entries until the blobs fit in maxBytes
+  private async evict(): Promise<void> {
+    const entries = await this.load();
+    const blobSizes = new Map<string, number>();
+    for (const entry of Array.from(entries.values())) {
+      blobSizes.set(entry.hash, entry.size);
+    }
+    let totalBytes = Array.from(blobSizes.values()).reduce((sum, size) => sum + size, 0);
+
+    const byAge = Array.from(entries.entries()).sort((a, b) => a[1].lastAccessAt - b[1].lastAccessAt);
+    for (const [key, entry] of byAge) {
+      if (totalBytes <= this.maxBytes) break;
+      entries.delete(key);
+      this.evictions++;
+
+      // A blob is deleted once no key references it any more
+      const stillReferenced = Array.from(entries.values()).some(e => e.hash === entry.hash);
+      if (!stillReferenced) {
+        totalBytes -= entry.size;
+        await unlink(this.blobPath(entry.hash)).catch(() => undefined);
+      }
+    }
+  }
+
+  private load(): Promise<Map<string, CacheEntry>> {
+    if (!this.loading) {
+      this.loading = this.readIndex().catch(error => {
+        // Let the next caller try again
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async readIndex(): Promise<Map<string, CacheEntry>> {
+    await mkdir(path.join(this.directory, BLOB_DIR), { recursive: true });
+    // Downloads in progress when the process stopped are never committed
+    await rm(path.join(this.directory, TEMP_DIR), { recursive: true, force: true });
+    await mkdir(path.join(this.directory, TEMP_DIR), { recursive: true });
+
+    let entries = new Map<string, CacheEntry>();
+    try {
+      const data = JSON.parse(await readFile(path.join(this.directory, INDEX_FILE), 'utf8'));
+      entries = new Map(Object.entries(data as Record<string, CacheEntry>));
+    } catch {
+      // Missing or unreadable index: start empty
+    }
+    this.entries = entries;
+    return entries;
+  }
+
+  private saveIndex(): Promise<void> {
+    const write = async () => {
+      const entries = this.entries ?? new Map();
+      const indexPath = path.join(this.directory, INDEX_FILE);
+      const tempPath = `${indexPath}.${process.pid}.tmp`;
+      await writeFile(tempPath, JSON.stringify(Object.fromEntries(entries)));
+      await rename(tempPath, indexPath);
+    };
+    this.indexWrite = this.indexWrite.then(write, write);
+    return this.indexWrite;
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.directory, BLOB_DIR, `${hash}.xml.gz`);
+  }
+}
+
+export interface GzipTeeResult {
+  // SHA-256 of the uncompressed content
+  hash: string;
+  // Bytes of the gzip file and of the uncompressed content
+  size: number;
+  rawSize: number;
+}
+
+class StreamAbandonedError extends Error {
+  constructor() {
+    super('Stream was not read to the end');
+    this.name = 'StreamAbandonedError';
+  }
+}
+
+// True for the rejection of gzipTee when the output was not read to the end (nothing to report)
+export function isStreamAbandoned(error: unknown): boolean {
+  return error instanceof StreamAbandonedError;
+}
+
+/**
+ * Opens a gzip file as a decompressed byte stream. A read error or an abort of the signal
+ * destroys the returned stream with that error, so its consumer never waits for an end
+ */
+export function openGzipFile(filePath: string, signal?: AbortSignal): Readable {
+  // The callback only keeps pipeline from throwing: the error reaches the gunzip stream
+  return pipeline(createReadStream(filePath, { signal }), createGunzip(), () => undefined);
+}
+
+/**
+ * Passes a stream through unchanged while writing a gzip copy of it to a file and hashing it.
+ * `written` resolves once the stream has been read to the end and the file is flushed (before
+ * the output ends); if the stream fails or is abandoned, the partial file is removed and it rejects.
+ * If writing the copy fails (e.g. a full disk), `written` rejects with that error and the stream
+ * keeps flowing without a copy
+ */
+export function gzipTee(input: Readable, filePath: string): { output: Readable; written: Promise<GzipTeeResult> } {
+  const hash = createHash('sha256');
+  const gzip = createGzip();
+  const file = createWriteStream(filePath);
+  gzip.pipe(file);
+  let rawSize = 0;
+  let settled = false;
+  let copyFailed = false;
+  // Continues the output while it waits for the copy to drain or to be flushed
+  let pendingCallback: (() => void) | null = null;
+  const resumeOutput = () => {
+    const callback = pendingCallback;
+    pendingCallback = null;
+    callback?.();
+  };
+  let resolveWritten: (result: GzipTeeResult) => void;
+  let rejectWritten: (error: unknown) => void;
+  const written = new Promise<GzipTeeResult>((resolve, reject) => {
+    resolveWritten = resolve;
+    rejectWritten = reject;
+  });
+
+  const failCopy = (error: unknown) => {
+    if (settled) return;
+    settled = true;
+    copyFailed = true;
+    gzip.destroy();
+    file.destroy();
+    unlink(filePath).catch(() => undefined);
+    rejectWritten(error);
+    resumeOutput();
+  };
+  gzip.on('error', failCopy);
+  file.on('error', failCopy);
+
+  const output = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      rawSize += chunk.length;
+      if (copyFailed || gzip.write(chunk)) {
+        callback(null, chunk);
+      } else {
+        pendingCallback = () => callback(null, chunk);
+        gzip.once('drain', resumeOutput);
+      }
+    },
+    flush(callback) {
+      if (copyFailed) {
+        callback();
+        return;
+      }
+      pendingCallback = callback;
+      file.once('finish', () => {
+        pendingCallback = null;
+        settled = true;
+        stat(filePath)
+          .then(({ size }) => resolveWritten({ hash: hash.digest('hex'), size, rawSize }))
+          .catch(rejectWritten)
+          .finally(() => callback());
+      });
+      gzip.end();
+    },
+  });
+
+  output.on('close', () => {
+    if (settled) return;
+    settled = true;
+    gzip.destroy();
+    file.destroy();
+    unlink(filePath).catch(() => undefined);
+    rejectWritten(new StreamAbandonedError());
+  });
+  input.on('error', error => output.destroy(error));
+  input.pipe(output);
+  return { output, written };
+}
+
+/**
+ * Serves title XML from the cache and caches downloads of the wrapped source.
+ * The content of a title as of a given date never changes, so entries never go stale
+ */
+export class CachingEcfrSource implements EcfrSource {
+  constructor(private readonly source: EcfrSource, private readonly cache: XmlCache) {}
+
+  get kind() {
+    return this.source.kind;
+  }
+
+  getTitles() {
+    return this.source.getTitles();
+  }
+
+  async getTitleXml(titleNumber: number, date: string, options: FetchOptions = {}): Promise<Readable | null> {
+    const key = XmlCache.key(titleNumber, date);
+    const cached = await this.cache.get(key, options);
+    if (cached) return cached;
+
+    const xmlStream = await this.source.getTitleXml(titleNumber, date, options);
+    return xmlStream ? await this.cache.store(key, xmlStream) : null;
+  }
+
+  getVersions(titleNumber: number) {
+    return this.source.getVersions(titleNumber);
+  }
+
+  getStructure(titleNumber: number, date: string) {
+    return this.source.getStructure(titleNumber, date);
+  }
+
+  getAgencies() {
+    return this.source.getAgencies();
+  }
+}
+
+/**
+ * Creates the XML cache from the environment (null when disabled):
+ *   ECFR_CACHE=off          - disable the cache
+ *   ECFR_CACHE_DIR          - cache directory (default .cache/ecfr-xml)
+ *   ECFR_CACHE_MAX_MB       - size limit of the compressed blobs (default 2048)
+ */
+export function createXmlCache(env: NodeJS.ProcessEnv = process.env): XmlCache | null {
+  if (env.ECFR_CACHE === 'off') return null;
+
+  const maxMegabytes = env.ECFR_CACHE_MAX_MB ? Number(env.ECFR_CACHE_MAX_MB) : 2048;
+  if (!Number.isFinite(maxMegabytes) || maxMegabytes <= 0) {
+    throw new Error("ECFR_CACHE_MAX_MB must be a positive number");
+  }
+  return new XmlCache(
+    path.resolve(env.ECFR_CACHE_DIR || path.join('.cache', 'ecfr-xml')),
+    Math.round(maxMegabytes * 1024 * 1024),
+  );
+}
+
+export const xmlCache = createXmlCache();
@@ -1,14 +1,25 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, timestamp, index, uniqueIndex, boolean, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // eCFR regulations data table
+// One row per node of the CFR hierarchy (title, chapter, part, subpart, section, ...).
+// Metrics on each row cover the node's full subtree, so the title row holds title totals.
+// Rows belong to an immutable title version; snapshots decide which versions are visible.
 export const regulations = pgTable("regulations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  agency: text("agency").notNull(),
+  titleVersionId: varchar("title_version_id").notNull(),
   title: text("title").notNull(),
+  titleNumber: integer("title_number").notNull().default(0),
+  nodeType: text("node_type").notNull().default('title'), // 'title' | 'chapter' | 'subchap' | 'part' | 'subpart' | 'section' | 'appendix' ...
+  identifier: text("identifier"),
+  heading: text("heading"),
+  parentPath: text("parent_path"), // ancestors as "chapter:I/part:60/subpart:A"
+  depth: integer("depth").notNull().default(0),
+  position: integer("position").notNull().default(0), // document order within the title
   chapter: text("chapter"),
+  part: text("part"),
   section: text("section"),
   textContent: text("text_content").notNull(),
   wordCount: integer("word_count").notNull().default(0),
@@ -18,16 +29,24 @@ export const regulations = pgTable("regulations", {
   uniqueWords: integer("unique_words").notNull().default(0),
   avgSentenceLength: integer("avg_sentence_length").notNull().default(0), // stored as integer (actual * 100)
   vocabularyDiversity: integer("vocabulary_diversity").notNull().default(0), // stored as integer (actual * 10000)
+  sectionCount: integer("section_count").notNull().default(0), // sections contained in this node
+  // Readability counts (indices are computed from them, so they roll up by addition)
+  syllableCount: integer("syllable_count").notNull().default(0),
+  polysyllableCount: integer("polysyllable_count").notNull().default(0), // words of 3+ syllables
+  letterCount: integer("letter_count").notNull().default(0),
+  restrictionCount: integer("restriction_count").notNull().default(0), // "shall", "must", "may not", "prohibited", "required"
+  analyzerVersion: integer("analyzer_version").notNull().default(1), // analyzer that produced the metrics
   createdAt: timestamp("created_at").notNull().defaultNow(),
 }, (table) => ({
-  agencyIdx: index("agency_idx").on(table.agency),
+  titleNodeIdx: index("title_node_idx").on(table.titleNumber, table.nodeType),
+  titleVersionIdx: index("title_version_idx").on(table.titleVersionId, table.nodeType),
 }));
 
 // Metadata for tracking data fetch operations
 export const fetchMetadata = pgTable("fetch_metadata", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   lastFetchAt: timestamp("last_fetch_at").notNull().defaultNow(),
-  status: text("status").notNull(), // 'success' | 'error' | 'in_progress'
+  status: text("status").notNull(), // 'success' | 'error' | 'in_progress' | 'cancelled'
   totalRegulations: integer("total_regulations").notNull().default(0),
   errorMessage: text("error_message"),
   progressCurrent: integer("progress_current").default(0),
@@ -35,6 +54,215 @@ export const fetchMetadata = pgTable("fetch_metadata", {
   currentTitle: text("current_title"),
 });
 
+// Durable fetch jobs: one row per refresh request, with one task row per title
+export const fetchJobs = pgTable("fetch_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  metadataId: varchar("metadata_id").notNull(), // fetch_metadata row that reports progress
+  kind: text("kind").notNull().default('fetch'), // 'fetch' (download) | 'reanalyze' (archived source)
+  status: text("status").notNull(), // 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+  titleNumbers: integer("title_numbers").array(), // null = all titles
+  force: boolean("force").notNull().default(false), // re-fetch titles even when their issue date is unchanged
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+export const fetchTasks = pgTable("fetch_tasks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull(),
+  titleNumber: integer("title_number").notNull(),
+  titleName: text("title_name").notNull(),
+  issueDate: text("issue_date").notNull(),
+  status: text("status").notNull().default('pending'), // 'pending' | 'running' | 'succeeded' | 'skipped' | 'failed'
+  reason: text("reason"), // why a task was skipped or failed
+  sectionCount: integer("section_count"),
+  wordCount: integer("word_count"),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => ({
+  jobIdx: index("fetch_tasks_job_idx").on(table.jobId),
+}));
+
+// One downloaded and analyzed copy of a title. Immutable once written (apart from the issue
+// date, which moves forward when a newer issue turns out to have identical content)
+export const titleVersions = pgTable("title_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  titleNumber: integer("title_number").notNull(),
+  titleName: text("title_name").notNull(),
+  issueDate: text("issue_date").notNull(), // eCFR latest_issue_date the data was fetched for
+  checksum: text("checksum").notNull(),
+  sourceHash: text("source_hash"), // SHA-256 of the archived raw XML (null if it was not archived)
+  analyzerVersion: integer("analyzer_version").notNull().default(1),
+  jobId: varchar("job_id"), // fetch job that produced it
+  sectionCount: integer("section_count").notNull().default(0),
+  wordCount: integer("word_count").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A complete view of the CFR produced by a fetch job. Exactly one snapshot is current;
+// a refresh builds a new one and promotes it only when complete
+export const snapshots = pgTable("snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").notNull(),
+  issueDate: text("issue_date"), // most recent eCFR issue date among its titles
+  status: text("status").notNull(), // 'building' | 'complete' | 'discarded'
+  isCurrent: boolean("is_current").notNull().default(false),
+  titleCount: integer("title_count").notNull().default(0),
+  sectionCount: integer("section_count").notNull().default(0),
+  // Citations of sections that are missing or reserved, counted when the snapshot completes (null before citations were extracted)
+  brokenCitationCount: integer("broken_citation_count"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+  activatedAt: timestamp("activated_at"),
+});
+
+// Title versions that make up a snapshot (one per title)
+export const snapshotTitles = pgTable("snapshot_titles", {
+  snapshotId: varchar("snapshot_id").notNull(),
+  titleNumber: integer("title_number").notNull(),
+  titleVersionId: varchar("title_version_id").notNull(),
+  // eCFR issue date the title was checked for in this snapshot, when its version was kept because
+  // the content did not change (null: the version's own issue date)
+  issueDate: text("issue_date"),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.snapshotId, table.titleNumber] }),
+}));
+
+// Metrics of a title as of a past date, computed once for historical trends and reused
+export const historicalSnapshots = pgTable("historical_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  titleNumber: integer("title_number").notNull(),
+  date: text("date").notNull(), // YYYY-MM-DD the title was analyzed as of
+  titleName: text("title_name").notNull(),
+  wordCount: integer("word_count").notNull().default(0),
+  sentenceCount: integer("sentence_count").notNull().default(0),
+  uniqueWords: integer("unique_words").notNull().default(0),
+  avgSentenceLength: integer("avg_sentence_length").notNull().default(0), // stored as integer (actual * 100)
+  vocabularyDiversity: integer("vocabulary_diversity").notNull().default(0), // stored as integer (actual * 10000)
+  sectionCount: integer("section_count").notNull().default(0),
+  syllableCount: integer("syllable_count").notNull().default(0),
+  polysyllableCount: integer("polysyllable_count").notNull().default(0), // words of 3+ syllables
+  letterCount: integer("letter_count").notNull().default(0),
+  restrictionCount: integer("restriction_count").notNull().default(0),
+  checksum: text("checksum").notNull(),
+  analyzerVersion: integer("analyzer_version").notNull().default(1), // recomputed when the analyzer changes
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  titleDateIdx: uniqueIndex("historical_title_date_idx").on(table.titleNumber, table.date),
+}));
+
+// Background analysis of a title at a list of past dates; results land in historical_snapshots
+export const historicalJobs = pgTable("historical_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  titleNumber: integer("title_number").notNull(),
+  titleName: text("title_name").notNull(),
+  dates: text("dates").array().notNull(), // YYYY-MM-DD, processed in order
+  status: text("status").notNull(), // 'pending' | 'running' | 'succeeded' | 'failed'
+  progressCurrent: integer("progress_current").notNull().default(0), // dates processed so far
+  currentDate: text("current_date"), // date being analyzed
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Background analysis of every non-reserved title at yearly dates (admin-triggered), filling
+// historical_snapshots for CFR-wide totals and growth rankings
+export const historicalBackfills = pgTable("historical_backfills", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  titleNumbers: integer("title_numbers").array().notNull(),
+  dates: text("dates").array().notNull(), // YYYY-MM-DD, every title is analyzed at each
+  status: text("status").notNull(), // 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+  progressCurrent: integer("progress_current").notNull().default(0), // title/date pairs processed, title by title
+  progressTotal: integer("progress_total").notNull().default(0),
+  currentTitle: integer("current_title"),
+  currentDate: text("current_date"),
+  failedCount: integer("failed_count").notNull().default(0), // title/date pairs eCFR could not serve
+  cancelRequested: boolean("cancel_requested").notNull().default(false),
+  errorMessage: text("error_message"), // last eCFR error, or why the backfill failed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+});
+
+// One change to a section (or appendix) of a title, from the eCFR versions API. A title's rows
+// are replaced whenever its amendments are synced
+export const amendments = pgTable("amendments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  titleNumber: integer("title_number").notNull(),
+  identifier: text("identifier").notNull(), // section or appendix, e.g. "60.1"
+  nodeType: text("node_type").notNull(), // 'section' | 'appendix'
+  name: text("name"),
+  part: text("part").notNull(),
+  subpart: text("subpart"),
+  date: text("date").notNull(), // YYYY-MM-DD the changed text took effect
+  amendmentDate: text("amendment_date"),
+  issueDate: text("issue_date"),
+  substantive: boolean("substantive").notNull().default(true),
+  removed: boolean("removed").notNull().default(false),
+}, (table) => ({
+  titlePartIdx: index("amendments_title_part_idx").on(table.titleNumber, table.part),
+  titleDateIdx: index("amendments_title_date_idx").on(table.titleNumber, table.date),
+}));
+
+// Issue date of the title the stored amendments were synced for
+export const amendmentSyncs = pgTable("amendment_syncs", {
+  titleNumber: integer("title_number").primaryKey(),
+  issueDate: text("issue_date").notNull(),
+  amendmentCount: integer("amendment_count").notNull().default(0),
+  syncedAt: timestamp("synced_at").notNull().defaultNow(),
+});
+
+// Agencies from the eCFR admin API; child agencies point at their parent. Replaced on every sync
+export const agencies = pgTable("agencies", {
+  slug: text("slug").primaryKey(),
+  name: text("name").notNull(),
+  shortName: text("short_name"),
+  displayName: text("display_name"),
+  sortableName: text("sortable_name"),
+  parentSlug: text("parent_slug"),
+  syncedAt: timestamp("synced_at").notNull().defaultNow(),
+}, (table) => ({
+  nameIdx: index("agencies_name_idx").on(table.name),
+}));
+
+// Portion of the CFR an agency is responsible for: a whole title, or the subtitle, chapter,
+// subchapter or part given (components are combined, e.g. chapter I of title 40)
+export const agencyReferences = pgTable("agency_references", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agencySlug: text("agency_slug").notNull(),
+  titleNumber: integer("title_number").notNull(),
+  subtitle: text("subtitle"),
+  chapter: text("chapter"),
+  subchapter: text("subchapter"),
+  part: text("part"),
+}, (table) => ({
+  agencyIdx: index("agency_references_agency_idx").on(table.agencySlug),
+  titleIdx: index("agency_references_title_idx").on(table.titleNumber),
+}));
+
+// References found in the text of a node: one row per citing node and distinct target.
+// Rows belong to a title version like the regulations rows of the citing node
+export const citations = pgTable("citations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  titleVersionId: varchar("title_version_id").notNull(),
+  titleNumber: integer("title_number").notNull(), // citing title
+  sourceType: text("source_type").notNull(), // node type of the citing node ('section', 'appendix', 'part', ...)
+  sourceIdentifier: text("source_identifier").notNull(),
+  sourcePart: text("source_part"),
+  targetKind: text("target_kind").notNull(), // 'cfr' | 'usc'
+  targetTitle: integer("target_title").notNull(),
+  targetPart: text("target_part"), // CFR part; null for the U.S. Code
+  targetSection: text("target_section"), // null for a whole CFR part
+  targetLabel: text("target_label").notNull(), // "40 CFR 60.13", "40 CFR part 63", "42 U.S.C. 7411"
+  count: integer("count").notNull().default(1), // occurrences in the citing node
+}, (table) => ({
+  versionSourceIdx: index("citations_version_source_idx").on(table.titleVersionId, table.sourceIdentifier),
+  targetIdx: index("citations_target_idx").on(table.targetKind, table.targetTitle, table.targetPart, table.targetSection),
+}));
+
 // Insert schemas
 export const insertRegulationSchema = createInsertSchema(regulations).omit({
   id: true,
@@ -45,22 +273,121 @@ export const insertFetchMetadataSchema = createInsertSchema(fetchMetadata).omit(
   id: true,
 });
 
+export const insertFetchJobSchema = createInsertSchema(fetchJobs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertFetchTaskSchema = createInsertSchema(fetchTasks).omit({
+  id: true,
+});
+
+export const insertTitleVersionSchema = createInsertSchema(titleVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertSnapshotSchema = createInsertSchema(snapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertHistoricalSnapshotSchema = createInsertSchema(historicalSnapshots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertHistoricalJobSchema = createInsertSchema(historicalJobs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertHistoricalBackfillSchema = createInsertSchema(historicalBackfills).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAmendmentSchema = createInsertSchema(amendments).omit({
+  id: true,
+});
+
+export const insertAgencySchema = createInsertSchema(agencies).omit({
+  syncedAt: true,
+});
+
+export const insertAgencyReferenceSchema = createInsertSchema(agencyReferences).omit({
+  id: true,
+});
+
+export const insertCitationSchema = createInsertSchema(citations).omit({
+  id: true,
+});
+
 // Types
 export type Regulation = typeof regulations.$inferSelect;
 export type InsertRegulation = z.infer<typeof insertRegulationSchema>;
 export type FetchMetadata = typeof fetchMetadata.$inferSelect;
 export type InsertFetchMetadata = z.infer<typeof insertFetchMetadataSchema>;
+export type FetchJob = typeof fetchJobs.$inferSelect;
+export type InsertFetchJob = z.infer<typeof insertFetchJobSchema>;
+export type FetchTask = typeof fetchTasks.$inferSelect;
+export type InsertFetchTask = z.infer<typeof insertFetchTaskSchema>;
+export type TitleVersion = typeof titleVersions.$inferSelect;
+export type InsertTitleVersion = z.infer<typeof insertTitleVersionSchema>;
+export type HistoricalSnapshot = typeof historicalSnapshots.$inferSelect;
+export type InsertHistoricalSnapshot = z.infer<typeof insertHistoricalSnapshotSchema>;
+export type HistoricalJob = typeof historicalJobs.$inferSelect;
+export type InsertHistoricalJob = z.infer<typeof insertHistoricalJobSchema>;
+export type HistoricalBackfill = typeof historicalBackfills.$inferSelect;
+export type InsertHistoricalBackfill = z.infer<typeof insertHistoricalBackfillSchema>;
+export type Amendment = typeof amendments.$inferSelect;
+export type InsertAmendment = z.infer<typeof insertAmendmentSchema>;
+export type AmendmentSync = typeof amendmentSyncs.$inferSelect;
+export type Agency = typeof agencies.$inferSelect;
+export type InsertAgency = z.infer<typeof insertAgencySchema>;
+export type AgencyReference = typeof agencyReferences.$inferSelect;
+export type InsertAgencyReference = z.infer<typeof insertAgencyReferenceSchema>;
+export type Citation = typeof citations.$inferSelect;
+export type InsertCitation = z.infer<typeof insertCitationSchema>;
+export type Snapshot = typeof snapshots.$inferSelect;
+export type InsertSnapshot = z.infer<typeof insertSnapshotSchema>;
+
+export type FetchJobKind = 'fetch' | 'reanalyze';
+export type FetchJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+export type FetchTaskStatus = 'pending' | 'running' | 'succeeded' | 'skipped' | 'failed';
+export type HistoricalJobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+export type HistoricalBackfillStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
 
 // Analysis result types (not stored in DB, computed on-the-fly)
-export interface AgencyAnalysis {
-  agency: string;
+
+// Standard readability indices, computed from stored word, sentence, syllable and letter counts
+export interface ReadabilityScores {
+  fleschReadingEase: number; // 0-100, higher is easier
+  fleschKincaidGrade: number; // U.S. school grade
+  gunningFog: number; // years of schooling
+  smog: number; // years of schooling
+  colemanLiau: number; // U.S. school grade
+}
+
+// Metrics of an agency are rolled up over its sub-agencies (each CFR node counted once)
+export interface AgencyAnalysis extends ReadabilityScores {
+  agency: string; // agency name from the eCFR agencies catalog
+  slug: string;
+  shortName: string | null;
+  parentSlug: string | null; // department of a sub-agency
+  childCount: number; // sub-agencies with content
+  titleNumbers: number[]; // titles the agency or its sub-agencies have content in
+  ownWordCount: number; // words in the agency's own references, without sub-agencies
   totalWordCount: number;
-  averageWordCount: number;
-  regulationCount: number;
+  averageWordCount: number; // per section
+  regulationCount: number; // number of sections
+  partCount: number;
   checksum: string;
   rci: number; // Regulatory Complexity Index
   avgSentenceLength: number;
   vocabularyDiversity: number;
+  restrictionCount: number; // binding obligations: "shall", "must", "may not", "prohibited", "required"
+  restrictionsPerThousandWords: number;
 }
 
 export interface WordCountAnalysis {
@@ -70,6 +397,251 @@ export interface WordCountAnalysis {
   count: number;
 }
 
+// Job status with per-title outcomes (GET /api/jobs/:id)
+export interface FetchJobReport extends FetchJob {
+  tasks: FetchTask[];
+  summary: Record<FetchTaskStatus, number>;
+}
+
+// Metrics of a title as of a past date (integer-scaled columns converted back)
+export interface HistoricalTrendPoint extends ReadabilityScores {
+  year: number;
+  date: string;
+  wordCount: number;
+  sentenceCount: number;
+  avgSentenceLength: number;
+  vocabularyDiversity: number;
+  uniqueWords: number;
+  sectionCount: number;
+  rci: number;
+  restrictionCount: number;
+}
+
+export type HistoricalGranularity = 'monthly' | 'quarterly' | 'yearly';
+
+// Dates to analyze a title at: explicit `dates`, or one per `granularity` period from `from` to `to`
+export interface HistoricalDatesRequest {
+  dates?: string[];
+  granularity?: HistoricalGranularity;
+  from?: string;
+  to?: string;
+}
+
+// A historical job with the results of the dates processed so far (GET /api/historical/jobs/:id)
+export interface HistoricalJobReport extends HistoricalJob {
+  trends: HistoricalTrendPoint[];
+}
+
+// Totals of every backfilled title at one date
+export interface CfrTrendPoint {
+  year: number;
+  date: string;
+  titleCount: number; // titles with data at this date
+  wordCount: number;
+  sentenceCount: number;
+  sectionCount: number;
+  avgSentenceLength: number; // words per sentence across all titles
+  rci: number; // word-weighted average RCI of the titles
+}
+
+// Change of a title between the first and last backfilled dates it has data for
+export interface TitleGrowth {
+  titleNumber: number;
+  titleName: string;
+  fromDate: string;
+  toDate: string;
+  fromWordCount: number;
+  toWordCount: number;
+  wordCountChange: number;
+  growthPercent: number;
+  rciChange: number;
+}
+
+// CFR-wide history from the latest backfill (GET /api/historical/cfr)
+export interface HistoricalCfrReport {
+  backfill: HistoricalBackfill | null;
+  totals: CfrTrendPoint[];
+  growth: TitleGrowth[]; // fastest growing first
+}
+
+// Amendment activity of one part: distinct dates on which any of its sections changed
+export interface PartVolatility {
+  titleNumber: number;
+  part: string;
+  heading: string | null;
+  agency: string | null;
+  amendmentCount: number;
+  lastAmendedOn: string;
+  daysSinceLastChange: number;
+}
+
+// Amendment history of a title or agency (GET /api/amendments/title/:number, /api/amendments/agency/:name)
+export interface AmendmentSummary {
+  amendmentCount: number;
+  perYear: { year: number; count: number }[];
+  lastAmendedOn: string | null;
+  daysSinceLastChange: number | null;
+  volatileParts: PartVolatility[]; // most amended first
+}
+
+// A run of words that is unchanged, added or removed between two versions of a text
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export type SectionChangeStatus = 'added' | 'removed' | 'modified';
+
+// Metrics of a section (or appendix) in one version of a title
+export interface SectionDiffMetrics {
+  wordCount: number;
+  sentenceCount: number;
+  avgSentenceLength: number;
+  vocabularyDiversity: number;
+  rci: number;
+}
+
+// A section that differs between the two dates of a title diff
+export interface SectionChange {
+  type: string; // section or appendix
+  identifier: string;
+  heading: string;
+  part: string | null;
+  status: SectionChangeStatus;
+  before: SectionDiffMetrics | null; // null when added
+  after: SectionDiffMetrics | null; // null when removed
+  delta: SectionDiffMetrics; // after - before (a missing side counts as zero)
+  diff: DiffSegment[] | null; // word-level diff; null beyond the requested limit
+}
+
+// Section-level differences of a title between two dates (GET /api/diff/title/:number)
+export interface TitleDiff {
+  titleNumber: number;
+  titleName: string;
+  from: string;
+  to: string;
+  part: string | null; // the part the diff is restricted to
+  summary: Record<SectionChangeStatus | 'unchanged', number>;
+  before: SectionDiffMetrics; // title (or part) totals
+  after: SectionDiffMetrics;
+  delta: SectionDiffMetrics;
+  changes: SectionChange[]; // in document order of the later version, removed sections last
+}
+
+// What most-cited rankings group by: CFR sections, CFR parts (any citation into the part) or U.S.C. sections
+export type CitationLevel = 'section' | 'part' | 'usc';
+
+// Node granularity of the citation graph
+export type CitationGraphLevel = 'part' | 'section';
+
+// A CFR part or section in the citation graph
+export interface CitationGraphNode {
+  id: string; // normalized label, e.g. "40 CFR part 60" or "40 CFR 60.13"
+  titleNumber: number;
+  part: string;
+  section: string | null; // null at part level
+  cluster: string; // nodes of a cluster are drawn together: the title at part level, the part at section level
+  inboundCount: number; // citations received within the graph
+  outboundCount: number; // citations made within the graph
+}
+
+// Citations from one node to another, summed over the citing text
+export interface CitationGraphEdge {
+  source: string;
+  target: string;
+  weight: number;
+}
+
+// Cross-references between CFR parts or sections of the current snapshot (GET /api/citations/graph)
+export interface CitationGraph {
+  level: CitationGraphLevel;
+  nodes: CitationGraphNode[];
+  edges: CitationGraphEdge[]; // heaviest first
+  truncated: boolean; // more edges exist than the requested limit
+  density: number; // edges / possible directed edges between the nodes
+  internalEdgeShare: number; // share of edge weight within a cluster
+}
+
+// Why a cited section cannot be resolved: no such section in the cited title, or only a "[Reserved]" placeholder
+export type BrokenCitationReason = 'missing' | 'reserved';
+
+// A citation of a CFR section that is missing or reserved, attributed to one agency responsible for the citing node
+export interface BrokenCitation {
+  agency: string | null; // null when no catalog agency covers the citing node
+  titleNumber: number; // citing title
+  sourceType: string;
+  sourceIdentifier: string;
+  sourcePart: string | null;
+  targetLabel: string;
+  targetTitle: number;
+  targetSection: string;
+  reason: BrokenCitationReason;
+  count: number; // occurrences in the citing node
+}
+
+// Broken citations of one agency (GET /api/citations/broken)
+export interface BrokenCitationGroup {
+  agency: string | null;
+  missingCount: number;
+  reservedCount: number;
+  citations: BrokenCitation[];
+}
+
+// Data-quality report of a snapshot: internal citations that point to missing or reserved sections
+export interface BrokenCitationReport {
+  snapshotId: string | null;
+  missingCount: number; // citations (citing node and cited section) counted once however many agencies share them
+  reservedCount: number;
+  agencies: BrokenCitationGroup[]; // most broken citations first
+}
+
+// A citation target of the current snapshot and how often it is cited (GET /api/citations/most-cited)
+export interface CitedTarget {
+  kind: 'cfr' | 'usc';
+  titleNumber: number;
+  part: string | null;
+  section: string | null; // null for a CFR part
+  label: string;
+  citationCount: number; // occurrences across the CFR
+  citingNodeCount: number; // distinct nodes citing it
+}
+
+// Whether a fetch job currently holds the fetch lock (GET /api/fetch/lock)
+export interface FetchLockStatus {
+  locked: boolean;
+  jobId: string | null;
+}
+
+// Progress events pushed to clients by GET /api/fetch/events (Server-Sent Events)
+export type FetchEvent =
+  // Job state changes: started, resumed and finished (succeeded, failed or cancelled)
+  | {
+      type: 'job';
+      jobId: string;
+      status: FetchJobStatus;
+      progressCurrent: number;
+      progressTotal: number;
+      totalRegulations?: number;
+      errorMessage?: string | null;
+    }
+  // A title started downloading
+  | {
+      type: 'title';
+      jobId: string;
+      titleNumber: number;
+      titleName: string;
+      progressCurrent: number;
+      progressTotal: number;
+    }
+  // Download and analysis progress of the current title
+  | { type: 'progress'; jobId: string; titleNumber: number; bytesRead: number; wordCount: number }
+  // Outcome of a title
+  | { type: 'task'; jobId: string; task: FetchTask };
+
+export interface SnapshotDetail extends Snapshot {
+  titles: TitleVersion[];
+}
+
 export interface ChecksumData {
   agency: string;
   checksum: string;